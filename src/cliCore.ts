@@ -101,10 +101,34 @@ export async function runCli(options: CliOptions): Promise<void> {
       variables: args.variables,
       strict: args.strict,
       maxDepth: args.maxDepth || 10,
+      maxIncludes: args.maxIncludes,
+      maxIncludedBytes: args.maxIncludedBytes,
+      maxFanOut: args.maxFanOut,
       validateOnly: args.validateOnly,
       stripFrontmatter: args.stripFrontmatter,
+      mergeFrontmatter: args.mergeFrontmatter,
       initialFilePath: resolvedInputPath,
-      templateVariables: args.templateVariables
+      templateVariables: args.templateVariables,
+      dataSources: args.dataSources?.map(source => resolve(source)),
+      headingOffset: args.headingOffset,
+      rewriteLinks: args.rewriteLinks,
+      embedCode: args.embedCode,
+      linkMode: args.linkMode,
+      linkBaseUrl: args.linkBaseUrl,
+      globSort: args.globSort,
+      globSeparator: args.globSeparator,
+      resolution: args.resolution,
+      caseInsensitive: args.caseInsensitive,
+      aliases: args.aliases,
+      searchPaths: args.searchPaths,
+      symlinkPolicy: args.symlinkPolicy,
+      allow: args.allow,
+      deny: args.deny,
+      allowedHosts: args.allowedHosts,
+      fetchTimeout: args.fetchTimeout,
+      remoteCacheDir: args.remoteCacheDir ? resolve(args.remoteCacheDir) : undefined,
+      offline: args.offline,
+      outputPath: args.output ? resolve(args.output) : undefined
     };
     
     // Create output formatter with enhanced error support
@@ -1,5 +1,7 @@
 import type { FileCache } from './types';
 import { safeReadFile, safeReadFileSync } from './utils/safeFileReader';
+import { isBinaryContent } from './utils/fileValidation';
+import { readBlob } from './utils/gitRevision';
 
 // Maximum file size for buffered reading (1MB)
 // Larger files should use streaming (to be implemented in later commits)
@@ -122,4 +124,46 @@ export function readFileSync(
 // Re-export safe versions for users who want Result-based error handling
 export { safeReadFile, safeReadFileSync } from './utils/safeFileReader';
 export type { FileReadResult } from './utils/safeFileReader';
-export type { FileValidationError } from './utils/fileValidation';
\ No newline at end of file
+export type { FileValidationError } from './utils/fileValidation';
+
+/**
+ * Read a file from the git object store with optional caching (for blobs < 1MB)
+ * Blobs are immutable, so they are cached by object id under "git:<object id>".
+ * @param objectId The blob object id
+ * @param repository Top-level directory of the repository
+ * @param cache Optional cache to use
+ * @returns Blob content as string
+ * @throws FileReaderError if the blob is missing, too large or binary
+ */
+export async function readGitBlob(
+  objectId: string,
+  repository: string,
+  cache?: FileCache
+): Promise<string> {
+  const cacheKey = `git:${objectId}`;
+  const cached = cache?.get(cacheKey);
+  if (cached) {
+    return cached.content;
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await readBlob(objectId, repository, MAX_BUFFERED_FILE_SIZE);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+      throw new FileReaderError(
+        FileReaderErrorCode.FILE_TOO_LARGE,
+        `File too large for buffered reading (git object ${objectId} > ${MAX_BUFFERED_FILE_SIZE} bytes)`
+      );
+    }
+    throw new FileReaderError(FileReaderErrorCode.FILE_NOT_FOUND, `Git object not found: ${objectId}`);
+  }
+
+  if (isBinaryContent(buffer)) {
+    throw new FileReaderError(FileReaderErrorCode.BINARY_FILE, `Binary files are not supported: git object ${objectId}`);
+  }
+
+  const content = buffer.toString('utf8');
+  cache?.set(cacheKey, content);
+  return content;
+}
@@ -3,15 +3,29 @@ export type {
   TransclusionError,
   TransclusionResult,
   TransclusionToken,
+  TransclusionTarget,
+  AlternativeResolution,
+  LineRange,
   FileResolution,
+  RevisionResolution,
+  TemplateValue,
   CachedFileContent,
   FileCache
 } from './types';
 
 export { parseTransclusionReferences } from './parser';
-export { validatePath, isWithinBasePath, SecurityError, SecurityErrorCode } from './security';
+export {
+  validatePath,
+  isWithinBasePath,
+  isWithinAllowedRoots,
+  isAllowedBySymlinkPolicy,
+  SecurityError,
+  SecurityErrorCode
+} from './security';
+export type { SymlinkPolicy } from './security';
 export { resolvePath, substituteVariables } from './resolver';
 export { NoopFileCache, MemoryFileCache } from './fileCache';
-export { readFile, readFileSync, FileReaderError, FileReaderErrorCode } from './fileReader';
+export { ResolutionCache } from './utils/resolutionCache';
+export { readFile, readFileSync, readGitBlob, FileReaderError, FileReaderErrorCode } from './fileReader';
 export { TransclusionTransform, createTransclusionStream } from './stream';
 export { processLine, transclude, transcludeFile } from './transclude';
\ No newline at end of file
@@ -7,11 +7,7 @@ import {
   createReferenceFromToken,
   isMasked
 } from './utils/parserUtils';
-
-/**
- * Regular expression to match code blocks
- */
-const CODE_FENCE_PATTERN = /^```[\s\S]*?^```/gm;
+import { CodeFenceTracker } from './utils/codeFenceTracker';
 
 /**
  * Parse transclusion references from a line of text
@@ -51,25 +47,52 @@ export function parseTransclusionReferences(line: string): TransclusionToken[] {
  * @returns True if content contains unclosed code fences
  */
 export function hasOpenCodeFence(content: string): boolean {
-  const fenceMatches = content.match(/^```/gm);
-  return fenceMatches ? fenceMatches.length % 2 !== 0 : false;
+  const tracker = new CodeFenceTracker();
+  for (const line of content.split('\n')) {
+    tracker.update(line);
+  }
+  return tracker.inFence;
 }
 
 /**
  * Remove code blocks from content before processing
- * This is used for multi-line content processing
+ * This is used for multi-line content processing. Fenced and indented code blocks
+ * are detected with the same rules as the line-by-line streaming path.
  * @param content The content to process
  * @returns Content with code blocks replaced by placeholders
  */
 export function maskCodeBlocks(content: string): { masked: string; blocks: string[] } {
   const blocks: string[] = [];
-  let maskedContent = content;
+  const tracker = new CodeFenceTracker();
+  const lines = content.split('\n');
+  let blockLines: string[] = [];
+  
+  const flushBlock = (): void => {
+    if (blockLines.length > 0) {
+      blocks.push(blockLines.join('\n'));
+      blockLines = [];
+    }
+  };
   
-  // Replace code fences with placeholders
-  maskedContent = maskedContent.replace(CODE_FENCE_PATTERN, (match) => {
-    blocks.push(match);
-    return '\0'.repeat(match.length);
+  // Replace code lines with placeholders of the same length
+  const maskedLines = lines.map(line => {
+    const wasInFence = tracker.inFence;
+    if (!tracker.update(line)) {
+      flushBlock();
+      return line;
+    }
+    if (!wasInFence && tracker.inFence) {
+      // An opening fence starts a new block
+      flushBlock();
+    }
+    blockLines.push(line);
+    if (wasInFence && !tracker.inFence) {
+      // A closing fence ends the block
+      flushBlock();
+    }
+    return '\0'.repeat(line.length);
   });
+  flushBlock();
   
-  return { masked: maskedContent, blocks };
-}
\ No newline at end of file
+  return { masked: maskedLines.join('\n'), blocks };
+}
@@ -7,6 +7,7 @@
 
 import type { ContentTransformPlugin, TransformContext } from '../interfaces/TransformPlugin';
 import { PluginType, PluginPriority } from '../interfaces/PluginMetadata';
+import { ColumnType, detectColumnType, isNumberValue } from '../../utils/columnTypes';
 
 /**
  * Configuration for table formatter plugin
@@ -51,18 +52,6 @@ const DEFAULT_CONFIG: TableFormatterConfig = {
   maxColumnWidth: 50
 };
 
-/**
- * Table column type detection
- */
-enum ColumnType {
-  TEXT = 'text',
-  NUMBER = 'number',
-  DATE = 'date',
-  BOOLEAN = 'boolean',
-  URL = 'url',
-  EMAIL = 'email'
-}
-
 /**
  * Parsed table structure
  */
@@ -195,53 +184,12 @@ export class TableFormatterPlugin implements ContentTransformPlugin {
     
     for (let col = 0; col < columnCount; col++) {
       const columnValues = tableData.rows.map(row => row[col] || '').filter(Boolean);
-      types.push(this.detectColumnType(columnValues));
+      types.push(detectColumnType(columnValues));
     }
     
     return types;
   }
   
-  /**
-   * Detect type of a column based on its values
-   */
-  private detectColumnType(values: string[]): ColumnType {
-    if (values.length === 0) {
-      return ColumnType.TEXT;
-    }
-    
-    // Check for numbers
-    const numberCount = values.filter(v => /^-?\d+(\.\d+)?$/.test(v.trim())).length;
-    if (numberCount / values.length > 0.8) {
-      return ColumnType.NUMBER;
-    }
-    
-    // Check for booleans
-    const booleanCount = values.filter(v => /^(true|false|yes|no|y|n)$/i.test(v.trim())).length;
-    if (booleanCount / values.length > 0.8) {
-      return ColumnType.BOOLEAN;
-    }
-    
-    // Check for URLs
-    const urlCount = values.filter(v => /^https?:\/\//.test(v.trim())).length;
-    if (urlCount / values.length > 0.8) {
-      return ColumnType.URL;
-    }
-    
-    // Check for emails
-    const emailCount = values.filter(v => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v.trim())).length;
-    if (emailCount / values.length > 0.8) {
-      return ColumnType.EMAIL;
-    }
-    
-    // Check for dates
-    const dateCount = values.filter(v => !isNaN(Date.parse(v.trim()))).length;
-    if (dateCount / values.length > 0.8) {
-      return ColumnType.DATE;
-    }
-    
-    return ColumnType.TEXT;
-  }
-  
   /**
    * Render formatted table
    */
@@ -323,7 +271,7 @@ export class TableFormatterPlugin implements ContentTransformPlugin {
     
     switch (type) {
       case ColumnType.NUMBER:
-        if (this.config.autoFormatNumbers && /^-?\d+(\.\d+)?$/.test(trimmed)) {
+        if (this.config.autoFormatNumbers && isNumberValue(trimmed)) {
           const num = parseFloat(trimmed);
           return num.toLocaleString();
         }
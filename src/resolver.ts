@@ -5,10 +5,16 @@ import {
   validateReferencePath,
   validateWithinBase,
   findExistingFile,
-  resolveToAbsolutePath
+  resolveToAbsolutePath,
+  resolveAlias,
+  validateTargetPolicy
 } from './utils/pathResolution';
 import { substituteVariables as substituteVars } from './utils/pathTokens';
 import { resolveExtensions } from './utils/extensionResolver';
+import { buildVaultIndex, findInVault } from './utils/vaultIndex';
+import { openRevision, findBlob, GitRevisionContext } from './utils/gitRevision';
+import type { SymlinkPolicy, TargetPolicy } from './security';
+import type { ResolutionCache } from './utils/resolutionCache';
 
 /**
  * Default file extensions to try when no extension is provided
@@ -34,6 +40,15 @@ export function resolvePath(
     variables?: Record<string, string>;
     strict?: boolean;
     parentPath?: string;
+    resolution?: 'path' | 'vault';
+    caseInsensitive?: boolean;
+    aliases?: Record<string, string>;
+    searchPaths?: string[];
+    revision?: string;
+    symlinkPolicy?: SymlinkPolicy;
+    allow?: string[];
+    deny?: string[];
+    resolutionCache?: ResolutionCache;
   }
 ): FileResolution {
   const { 
@@ -41,8 +56,18 @@ export function resolvePath(
     extensions = DEFAULT_EXTENSIONS,
     variables = {},
     strict = false,
-    parentPath
+    parentPath,
+    resolution = 'path',
+    caseInsensitive = false,
+    aliases = {},
+    searchPaths = [],
+    revision,
+    symlinkPolicy,
+    allow,
+    deny,
+    resolutionCache
   } = options;
+  const policy: TargetPolicy = { allow, deny };
   
   try {
     // Step 1: Substitute variables
@@ -60,27 +85,62 @@ export function resolvePath(
       };
     }
 
-    // Step 3: Generate paths to try using extension resolver
-    const pathsToTry = resolveExtensions(substitutedReference, extensions);
+    // Open the git revision, if any: files are then looked up in its tree instead of on disk
+    let revisionContext: GitRevisionContext | undefined;
+    if (revision) {
+      const opened = openRevision(revision, basePath);
+      if (!opened.ok) {
+        return {
+          absolutePath: '',
+          exists: false,
+          originalReference: reference,
+          error: opened.error.message,
+          code: opened.error.code
+        };
+      }
+      revisionContext = opened.value;
+    }
+
+    // Step 3: Expand path aliases; alias roots and search paths are allowed containment boundaries
+    const alias = resolveAlias(substitutedReference, aliases, basePath);
+    const searchRoots = searchPaths.map(searchPath => path.resolve(basePath, searchPath));
+    const allowedRoots = [
+      ...Object.values(aliases).map(root => path.resolve(basePath, root)),
+      ...searchRoots
+    ];
+    const lookupReference = alias ? alias.path : substitutedReference;
+
+    // Step 4: Generate paths to try using extension resolver
+    const pathsToTry = resolveExtensions(lookupReference, extensions);
 
     // Step 5: Try each potential path
-    // First try relative to parent (if parent path provided), then relative to base path
-    const searchBases = [];
-    if (parentPath && !path.isAbsolute(substitutedReference)) {
-      searchBases.push(path.dirname(parentPath));
-    }
-    if (basePath && !searchBases.includes(basePath)) {
-      searchBases.push(basePath);
+    // Aliased references are only looked up below their alias root. Others are tried
+    // relative to the parent (if parent path provided), the base path, then each search path.
+    const searchBases: string[] = [];
+    if (alias) {
+      searchBases.push(alias.root);
+    } else {
+      if (parentPath && !path.isAbsolute(substitutedReference)) {
+        searchBases.push(path.dirname(parentPath));
+      }
+      for (const searchBase of [basePath, ...searchRoots]) {
+        if (searchBase && !searchBases.includes(searchBase)) {
+          searchBases.push(searchBase);
+        }
+      }
     }
     
     let lastSecurityError: { message: string; errorCode?: number } | null = null;
+    let policyError: { message: string; errorCode?: number } | null = null;
     
     for (const searchBase of searchBases) {
       for (const relativePath of pathsToTry) {
         const absolutePath = resolveToAbsolutePath(relativePath, searchBase);
 
         // Step 5: Security check
-        const securityResult = validateWithinBase(absolutePath, basePath, relativePath);
+        const securityResult = validateWithinBase(
+          absolutePath, basePath, relativePath, allowedRoots, symlinkPolicy, resolutionCache?.realPaths
+        );
         if (!securityResult.ok) {
           // Store the security error in case all paths fail
           lastSecurityError = {
@@ -91,18 +151,69 @@ export function resolvePath(
         }
 
         // Step 6: Check if file exists
-        const existingFile = findExistingFile([relativePath], searchBase);
-        if (existingFile) {
-          return {
-            absolutePath: existingFile.absolutePath,
-            exists: true,
-            originalReference: reference
+        let found: FileResolution | null = null;
+        if (revision && revisionContext) {
+          const objectId = findBlob(revisionContext, absolutePath);
+          if (objectId) {
+            found = {
+              absolutePath,
+              exists: true,
+              originalReference: reference,
+              revision: { ref: revision, objectId, repository: revisionContext.repository }
+            };
+          }
+        } else {
+          const existingFile = findExistingFile([relativePath], searchBase);
+          if (existingFile) {
+            found = {
+              absolutePath: existingFile.absolutePath,
+              exists: true,
+              originalReference: reference
+            };
+          }
+        }
+        if (!found) {
+          continue;
+        }
+
+        // Step 7: Check the allow and deny globs before the file is read
+        const policyResult = validateTargetPolicy(
+          found.absolutePath, basePath, relativePath, policy, resolutionCache?.realPaths
+        );
+        if (!policyResult.ok) {
+          policyError = policyError ?? {
+            message: policyResult.error.message,
+            errorCode: policyResult.error.errorCode
           };
+          continue;
         }
+        return found;
+      }
+    }
+
+    // Step 8: In vault mode, look the file up by basename anywhere under the base path
+    if (resolution === 'vault' && !alias && !revision && !lastSecurityError && isVaultReference(substitutedReference)) {
+      const vaultResolution = resolveInVault(
+        reference, pathsToTry, basePath, caseInsensitive, symlinkPolicy, policy, resolutionCache
+      );
+      if (vaultResolution) {
+        return vaultResolution;
       }
     }
 
     // No file found
+    // If the only files found are excluded by the allow and deny globs, return the policy error
+    if (policyError) {
+      return {
+        absolutePath: '',
+        exists: false,
+        originalReference: reference,
+        error: policyError.message,
+        errorCode: policyError.errorCode,
+        code: 'POLICY_VIOLATION'
+      };
+    }
+    
     // If all paths failed security checks, return the security error
     if (lastSecurityError) {
       return {
@@ -117,10 +228,12 @@ export function resolvePath(
     // Otherwise return file not found
     const primaryBase = searchBases[0] || basePath;
     return {
-      absolutePath: resolveToAbsolutePath(substitutedReference, primaryBase),
+      absolutePath: resolveToAbsolutePath(lookupReference, primaryBase),
       exists: false,
       originalReference: reference,
-      error: `File not found: ${substitutedReference}`
+      error: revision
+        ? `File not found at revision ${revision}: ${substitutedReference}`
+        : `File not found: ${substitutedReference}`
     };
 
   } catch (error) {
@@ -135,6 +248,81 @@ export function resolvePath(
   }
 }
 
+/**
+ * Check if a reference can be looked up by basename: relative and without ".." segments
+ */
+function isVaultReference(reference: string): boolean {
+  return !path.isAbsolute(reference) && !reference.split(/[/\\]/).includes('..');
+}
+
+/**
+ * Resolve a reference by basename anywhere under the base path
+ * Paths generated by the extension strategies are tried in order; the first one
+ * with matches decides the result. Files excluded by the allow and deny globs are skipped.
+ * @returns The resolution, or null if no file matches
+ */
+function resolveInVault(
+  reference: string,
+  pathsToTry: string[],
+  basePath: string,
+  caseInsensitive: boolean,
+  symlinkPolicy: SymlinkPolicy | undefined,
+  policy: TargetPolicy,
+  resolutionCache: ResolutionCache | undefined
+): FileResolution | null {
+  const index = resolutionCache?.getVaultIndex(basePath, caseInsensitive) ?? buildVaultIndex(basePath, caseInsensitive);
+
+  for (const relativePath of pathsToTry) {
+    const candidates = findInVault(index, relativePath).map(match => ({
+      match,
+      policyResult: validateTargetPolicy(path.resolve(basePath, match), basePath, match, policy, resolutionCache?.realPaths)
+    }));
+    const matches = candidates.filter(candidate => candidate.policyResult.ok).map(candidate => candidate.match);
+    const violation = candidates.find(candidate => !candidate.policyResult.ok)?.policyResult;
+    if (matches.length === 0 && violation && !violation.ok) {
+      return {
+        absolutePath: '',
+        exists: false,
+        originalReference: reference,
+        error: violation.error.message,
+        errorCode: violation.error.errorCode,
+        code: 'POLICY_VIOLATION'
+      };
+    }
+    if (matches.length > 1) {
+      return {
+        absolutePath: '',
+        exists: false,
+        originalReference: reference,
+        error: `Ambiguous reference: ${reference} matches ${matches.join(', ')}`,
+        code: 'AMBIGUOUS_REFERENCE',
+        candidates: matches
+      };
+    }
+    if (matches.length === 1) {
+      const securityResult = validateWithinBase(
+        path.resolve(basePath, matches[0]), basePath, matches[0], [], symlinkPolicy, resolutionCache?.realPaths
+      );
+      if (!securityResult.ok) {
+        return {
+          absolutePath: '',
+          exists: false,
+          originalReference: reference,
+          error: securityResult.error.message,
+          errorCode: securityResult.error.errorCode
+        };
+      }
+      return {
+        absolutePath: path.resolve(basePath, matches[0]),
+        exists: true,
+        originalReference: reference
+      };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Check if a file exists and is accessible
  * @param filePath The path to check
@@ -1,4 +1,6 @@
+import * as fs from 'fs';
 import * as path from 'path';
+import { matchesAnyGlob } from './utils/globExpander';
 
 /**
  * Security error codes enum
@@ -8,9 +10,19 @@ export enum SecurityErrorCode {
   PATH_TRAVERSAL = 1002,
   NULL_BYTE = 1003,
   INVALID_CHARACTERS = 1004,
-  OUTSIDE_BASE = 1005
+  OUTSIDE_BASE = 1005,
+  SYMLINK_NOT_ALLOWED = 1006,
+  POLICY_VIOLATION = 1007
 }
 
+/**
+ * How symbolic links are treated by containment checks
+ * - follow: symlinks are followed wherever they point
+ * - follow-within-base: symlinks are followed if their target stays within the base directory or an allowed root
+ * - deny: paths through a symlink below the base directory or an allowed root are rejected
+ */
+export type SymlinkPolicy = 'follow' | 'follow-within-base' | 'deny';
+
 /**
  * Get error message for a security error code
  * Using switch for best performance with numeric comparison
@@ -27,6 +39,10 @@ function getSecurityErrorMessage(code: SecurityErrorCode): string {
       return 'Invalid characters in path';
     case SecurityErrorCode.OUTSIDE_BASE:
       return 'Path resolves outside of base directory';
+    case SecurityErrorCode.SYMLINK_NOT_ALLOWED:
+      return 'Symbolic link not allowed by the symlink policy';
+    case SecurityErrorCode.POLICY_VIOLATION:
+      return 'Path not allowed by the transclusion policy';
     default:
       return 'Unknown security error';
   }
@@ -118,6 +134,125 @@ export function isWithinBasePath(resolvedPath: string, basePath: string): boolea
          normalizedResolved.startsWith(baseWithSep);
 }
 
+/**
+ * Check if a resolved absolute path is within the base directory or one of the allowed roots
+ * Alias roots and search paths are explicitly configured containment boundaries,
+ * so files below them are accepted even when they lie outside the base directory.
+ * @param resolvedPath The absolute path to check
+ * @param basePath The base directory path
+ * @param allowedRoots Additional directories files may be read from
+ * @returns True if path is within the base directory or an allowed root
+ */
+export function isWithinAllowedRoots(
+  resolvedPath: string,
+  basePath: string,
+  allowedRoots: string[] = []
+): boolean {
+  return [basePath, ...allowedRoots].some(root => isWithinBasePath(resolvedPath, root));
+}
+
+/**
+ * Resolve symlinks in a path
+ * @param filePath The path to resolve
+ * @param cache Real paths found earlier in the same run; paths that do not exist are not added
+ * @returns The real path, or null if the path does not exist
+ */
+export function getRealPath(filePath: string, cache?: Map<string, string>): string | null {
+  const resolvedPath = path.resolve(filePath);
+  const cached = cache?.get(resolvedPath);
+  if (cached !== undefined) {
+    return cached;
+  }
+  try {
+    const realPath = fs.realpathSync(resolvedPath);
+    cache?.set(resolvedPath, realPath);
+    return realPath;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a path satisfies the symlink policy
+ * Real paths are compared with the real paths of the roots, so roots that are themselves
+ * reached through a symlink are fine. Paths that do not exist are accepted; whether
+ * they exist is checked separately.
+ * @param resolvedPath The absolute path to check
+ * @param basePath The base directory path
+ * @param allowedRoots Additional directories files may be read from
+ * @param policy The symlink policy (default: follow-within-base)
+ * @param realPaths Real paths found earlier in the same run (see getRealPath)
+ * @returns True if the path is allowed by the policy
+ */
+export function isAllowedBySymlinkPolicy(
+  resolvedPath: string,
+  basePath: string,
+  allowedRoots: string[] = [],
+  policy: SymlinkPolicy = 'follow-within-base',
+  realPaths?: Map<string, string>
+): boolean {
+  if (policy === 'follow') {
+    return true;
+  }
+
+  const realPath = getRealPath(resolvedPath, realPaths);
+  if (realPath === null) {
+    return true;
+  }
+
+  return [basePath, ...allowedRoots].some(root => {
+    const realRoot = getRealPath(root, realPaths);
+    if (realRoot === null) {
+      return false;
+    }
+    if (policy === 'deny') {
+      // Without symlinks, the path below the root is the same before and after resolving
+      return isWithinBasePath(resolvedPath, root) &&
+        path.relative(realRoot, realPath) === path.relative(path.resolve(root), path.resolve(resolvedPath));
+    }
+    return isWithinBasePath(realPath, realRoot);
+  });
+}
+
+/**
+ * Globs restricting which files may be transcluded, matched against paths relative to the base directory
+ * Globs without a slash match the file name only.
+ */
+export interface TargetPolicy {
+  /**
+   * Only files matching one of these globs may be transcluded (default: any file)
+   */
+  allow?: string[];
+
+  /**
+   * Files matching one of these globs may never be transcluded; deny wins over allow
+   */
+  deny?: string[];
+}
+
+/**
+ * Check a path against the target policy
+ * @param resolvedPath The absolute path to check
+ * @param basePath The base directory path
+ * @param policy The allow and deny globs
+ * @returns The verdict, with the deny glob that matched if the path is denied
+ */
+export function checkTargetPolicy(
+  resolvedPath: string,
+  basePath: string,
+  policy: TargetPolicy
+): { allowed: boolean; deniedBy?: string } {
+  const relativePath = path.relative(path.resolve(basePath), path.resolve(resolvedPath)).split(path.sep).join('/');
+
+  const deniedBy = (policy.deny ?? []).find(glob => matchesAnyGlob(relativePath, [glob]));
+  if (deniedBy !== undefined) {
+    return { allowed: false, deniedBy };
+  }
+
+  const allow = policy.allow ?? [];
+  return { allowed: allow.length === 0 || matchesAnyGlob(relativePath, allow) };
+}
+
 /**
  * Sanitize a file path by removing dangerous characters
  * This is a last resort - prefer validation and rejection
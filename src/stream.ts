@@ -3,7 +3,8 @@ import { TextDecoder } from 'util';
 import { LineTranscluder } from './utils/LineTranscluder';
 import { MemoryFileCache } from './fileCache';
 import { TemplateProcessor } from './utils/templateVariables';
-import type { TransclusionOptions, TransclusionError } from './types';
+import { formatFrontmatter } from './utils/frontmatter';
+import type { TransclusionOptions, TransclusionError, AlternativeResolution } from './types';
 import type { PluginExecutor } from './plugins/core/PluginExecutor';
 
 export class TransclusionTransform extends Transform {
@@ -17,6 +18,9 @@ export class TransclusionTransform extends Transform {
   private lastProcessedFiles: Set<string> = new Set();
   private pluginExecutor?: PluginExecutor;
   private templateProcessor?: TemplateProcessor;
+  private emittedErrors: number = 0;
+  private emittedWarnings: number = 0;
+  private heldOutput: string = '';
 
   constructor(options: TransclusionOptions, pluginExecutor?: PluginExecutor) {
     super({ readableObjectMode: false, writableObjectMode: false });
@@ -34,10 +38,12 @@ export class TransclusionTransform extends Transform {
     this.decoder = new TextDecoder('utf-8', { fatal: false });
     this.pluginExecutor = pluginExecutor;
     
-    // Initialize template processor if template variables are provided
-    if (options.templateVariables) {
+    // Initialize template processor if template variables or data sources are provided
+    // (data sources are loaded by the line transcluder, which reports those that cannot be loaded)
+    const templateVariables = this.lineTranscluder.getTemplateVariables();
+    if (templateVariables) {
       this.templateProcessor = new TemplateProcessor({
-        variables: options.templateVariables,
+        variables: templateVariables,
         preserveUnmatched: true
       });
     }
@@ -48,11 +54,21 @@ export class TransclusionTransform extends Transform {
     return this.lineTranscluder.getErrors();
   }
   
+  // Delegate warning tracking to LineTranscluder
+  get warnings(): TransclusionError[] {
+    return this.lineTranscluder.getWarnings();
+  }
+  
   // Delegate processed files tracking to LineTranscluder
   get processedFiles(): string[] {
     return this.lineTranscluder.getProcessedFiles();
   }
 
+  // Delegate alternative tracking to LineTranscluder
+  get alternatives(): AlternativeResolution[] {
+    return this.lineTranscluder.getAlternatives();
+  }
+
   async _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
     try {
       this.buffer += this.decoder.decode(chunk, { stream: true });
@@ -75,11 +91,24 @@ export class TransclusionTransform extends Transform {
         await this.processLine(this.buffer, true);
       }
       
+      // Report conditional blocks left open at the end of the input
+      this.lineTranscluder.endConditions();
+      this.emitDiagnostics();
+      
       // Flush any remaining template content
       if (this.templateProcessor && !this.options.validateOnly) {
         const remaining = this.templateProcessor.flush();
         if (remaining) {
-          this.push(remaining);
+          this.output(remaining);
+        }
+      }
+      
+      // Write the merged frontmatter ahead of the held output
+      if (this.options.mergeFrontmatter && !this.options.validateOnly) {
+        const frontmatter = this.lineTranscluder.getFrontmatter();
+        const output = (frontmatter ? `${formatFrontmatter(frontmatter)}\n` : '') + this.heldOutput;
+        if (output) {
+          this.push(output);
         }
       }
       
@@ -103,29 +132,27 @@ export class TransclusionTransform extends Transform {
 
   private async processLine(line: string, _isLastLine: boolean): Promise<void> {
     this.lineNumber++;
+    this.lineTranscluder.readFrontmatterLine(line);
+    // Conditional blocks are tracked across chunks, so a block may span any number of lines
+    const isConditionalLine = this.lineTranscluder.readConditionLine(line);
     
     // Handle frontmatter stripping for outer document
-    if (this.options.stripFrontmatter) {
+    if (this.options.stripFrontmatter || this.options.mergeFrontmatter) {
       const shouldSkipLine = this.handleFrontmatterLine(line);
       if (shouldSkipLine) {
         return;
       }
     }
     
-    // Store error count before processing
-    const errorCountBefore = this.lineTranscluder.getErrors().length;
+    // Conditional markers and lines of branches not taken are left out
+    if (isConditionalLine) {
+      this.emitDiagnostics();
+      return;
+    }
     
     // Delegate all processing logic to LineTranscluder
     let processedLine = await this.lineTranscluder.processLine(line);
-    
-    // Check if new errors were added and emit them
-    const currentErrors = this.lineTranscluder.getErrors();
-    if (currentErrors.length > errorCountBefore) {
-      // Emit new errors as 'transclusion-error' events to avoid breaking the stream
-      for (let i = errorCountBefore; i < currentErrors.length; i++) {
-        this.emit('transclusion-error', currentErrors[i]);
-      }
-    }
+    this.emitDiagnostics();
     
     // Apply template variable substitution if enabled
     if (this.templateProcessor && !this.options.validateOnly) {
@@ -147,10 +174,38 @@ export class TransclusionTransform extends Transform {
     }
     
     if (this.isFirstLine) {
-      this.push(processedLine);
+      this.output(processedLine);
       this.isFirstLine = false;
     } else {
-      this.push('\n' + processedLine);
+      this.output('\n' + processedLine);
+    }
+  }
+  
+  /**
+   * Emit errors and warnings recorded since the last call
+   * Errors are emitted as 'transclusion-error' events to avoid breaking the stream,
+   * warnings (e.g., ambiguous headings or invalid frontmatter) as 'warning' events.
+   */
+  private emitDiagnostics(): void {
+    const currentErrors = this.lineTranscluder.getErrors();
+    for (; this.emittedErrors < currentErrors.length; this.emittedErrors++) {
+      this.emit('transclusion-error', currentErrors[this.emittedErrors]);
+    }
+    
+    const currentWarnings = this.lineTranscluder.getWarnings();
+    for (; this.emittedWarnings < currentWarnings.length; this.emittedWarnings++) {
+      this.emit('warning', currentWarnings[this.emittedWarnings].message);
+    }
+  }
+  
+  /**
+   * Push output, holding it back until the end when frontmatter is merged
+   */
+  private output(text: string): void {
+    if (this.options.mergeFrontmatter) {
+      this.heldOutput += text;
+    } else {
+      this.push(text);
     }
   }
   
@@ -1,5 +1,6 @@
 import { LineTranscluder } from './utils/LineTranscluder';
 import { readFile } from './fileReader';
+import { formatFrontmatter } from './utils/frontmatter';
 import type {
   TransclusionOptions,
   TransclusionError,
@@ -48,18 +49,31 @@ export async function transclude(
   const outputLines: string[] = [];
   
   for (const line of lines) {
+    // The input document's frontmatter is replaced by the merged frontmatter when merging frontmatter
+    const isFrontmatter = transcluder.readFrontmatterLine(line);
+    // Conditional markers and lines of branches not taken are left out
+    const isConditionalLine = transcluder.readConditionLine(line);
+    if ((isFrontmatter && options.mergeFrontmatter) || isConditionalLine) {
+      continue;
+    }
     const processedLine = await transcluder.processLine(line);
     outputLines.push(processedLine);
   }
+  transcluder.endConditions();
+  
+  // Merged frontmatter is written as a YAML block at the top of the output
+  const frontmatter = options.mergeFrontmatter ? transcluder.getFrontmatter() : undefined;
   
   // Get processed files from the transcluder (accessing private property)
   const processedFilesSet = (transcluder as any).processedFiles as Set<string> || new Set<string>();
   const processedFiles = Array.from(processedFilesSet);
   
   return {
-    content: outputLines.join('\n'),
+    content: (frontmatter ? `${formatFrontmatter(frontmatter)}\n` : '') + outputLines.join('\n'),
     errors: transcluder.getErrors(),
-    processedFiles
+    warnings: transcluder.getWarnings(),
+    processedFiles,
+    alternatives: transcluder.getAlternatives()
   };
 }
 
@@ -1,4 +1,19 @@
 import type { Transform } from 'stream';
+import type { ResolutionCache } from './utils/resolutionCache';
+
+/**
+ * Value of a template variable: a scalar, or nested objects and arrays reached with
+ * dotted paths (e.g., {{product.platforms.0}})
+ */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Date
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
 
 export interface TransclusionOptions {
   /**
@@ -10,12 +25,36 @@ export interface TransclusionOptions {
   variables?: Record<string, string>;
   strict?: boolean;
   cache?: FileCache;
+  /**
+   * Real paths and vault indexes cached while references are resolved.
+   * Created for each transclude() call and stream when not given.
+   */
+  resolutionCache?: ResolutionCache;
   maxDepth?: number;
+  /**
+   * Maximum number of includes in one document (default: 10000).
+   * Together with maxIncludedBytes and maxFanOut, stops documents whose nested
+   * includes multiply into enormous output.
+   */
+  maxIncludes?: number;
+  /**
+   * Maximum total size of included content in bytes (default: 10 MiB)
+   */
+  maxIncludedBytes?: number;
+  /**
+   * Maximum number of files a single file includes (default: 1000)
+   */
+  maxFanOut?: number;
   validateOnly?: boolean;
   /**
    * Whether to strip YAML/TOML frontmatter from transcluded files and the main document
    */
   stripFrontmatter?: boolean;
+  /**
+   * Whether to merge the frontmatter of transcluded files into the frontmatter of the main document
+   * instead of leaving it in their content. Fields of the main document take precedence.
+   */
+  mergeFrontmatter?: boolean;
   /**
    * Initial file path for resolving relative paths in the first file
    */
@@ -24,7 +63,122 @@ export interface TransclusionOptions {
    * Template variables for {{variable}} substitution in content
    * Values can be static values or functions that return values
    */
-  templateVariables?: Record<string, string | number | boolean | null | undefined | Date | (() => string | number | boolean | null | undefined | Date)>;
+  templateVariables?: Record<string, TemplateValue | (() => TemplateValue)>;
+  /**
+   * JSON, YAML and .env files, or directories of them, loaded as template variables
+   * namespaced by file name (e.g., "data/product.yaml" provides {{product.version}}).
+   * Relative paths are resolved against the base path; templateVariables take precedence.
+   */
+  dataSources?: string[];
+  /**
+   * Separator placed between sections of a multiple heading reference
+   * (e.g., "![[api#Install,Usage]]"). Defaults to a blank line.
+   */
+  headingSeparator?: string;
+  /**
+   * Shift heading levels of transcluded content by this many levels,
+   * or 'auto' to nest them under the heading enclosing the reference.
+   * A reference can override it with "|shift=+2" or "|shift=auto".
+   */
+  headingOffset?: number | 'auto';
+  /**
+   * Rebase relative links and images in transcluded files to the root output file
+   * (default: true)
+   */
+  rewriteLinks?: boolean;
+  /**
+   * Wrap transcluded source files in fenced code blocks, with the language inferred
+   * from the extension (default: true). A reference can set the language and a title
+   * with "|lang=bash|title=install.sh".
+   */
+  embedCode?: boolean;
+  /**
+   * How rebased links are written: relative to the output file (default),
+   * root-relative (/docs/img.png) or absolute URLs
+   */
+  linkMode?: 'relative' | 'absolute' | 'root-relative';
+  /**
+   * URL the base path is served from, used for absolute links
+   * (default: file:// URLs)
+   */
+  linkBaseUrl?: string;
+  /**
+   * Path of the root output file, used to rebase links
+   * (default: initialFilePath, or a file in basePath)
+   */
+  outputPath?: string;
+  /**
+   * Order of the files included by glob and directory references
+   * (e.g., "![[chapters/*.md]]"): natural name order (default), the numeric
+   * frontmatter `order:` key, or modification time. A reference can override it with "|sort=order".
+   */
+  globSort?: 'name' | 'order' | 'mtime';
+  /**
+   * Separator placed between the files of a glob or directory reference.
+   * Defaults to a blank line. A reference can override it with "|separator=\n---\n".
+   */
+  globSeparator?: string;
+  /**
+   * How references are resolved: relative to the including file and base path (default),
+   * or 'vault' to also find a file by basename anywhere under the base path
+   * (e.g., "![[Meeting Notes]]" finds "notes/2024/Meeting Notes.md").
+   */
+  resolution?: 'path' | 'vault';
+  /**
+   * Match basenames case-insensitively in vault resolution
+   */
+  caseInsensitive?: boolean;
+  /**
+   * Path aliases mapped to root directories, relative to the base path
+   * (e.g., { "@shared": "packages/docs-shared" } for "![[@shared/legal/disclaimer.md]]").
+   * Alias roots are allowed containment boundaries, like the base path.
+   */
+  aliases?: Record<string, string>;
+  /**
+   * Directories tried in order after the including file's directory and the base path,
+   * relative to the base path. Search paths are allowed containment boundaries.
+   */
+  searchPaths?: string[];
+  /**
+   * How symbolic links are treated by containment checks: 'follow' them anywhere,
+   * 'follow-within-base' (default) when their target stays within the base path or an
+   * allowed root, or 'deny' paths through symlinks altogether
+   */
+  symlinkPolicy?: 'follow' | 'follow-within-base' | 'deny';
+  /**
+   * Globs of the files that may be transcluded, relative to the base path
+   * (e.g., ["docs/**", "snippets/**"]). Globs without a slash match the file name.
+   * Any file may be transcluded when empty (default).
+   */
+  allow?: string[];
+  /**
+   * Globs of the files that may never be transcluded (e.g., ["drafts/**", "*.secret.md"]).
+   * Deny globs take precedence over allow globs; glob and directory references skip denied files.
+   */
+  deny?: string[];
+  /**
+   * Hosts remote references (e.g., "![[https://example.org/terms.md]]") may be fetched from.
+   * Entries match a hostname, a host with port ("localhost:8080") or subdomains ("*.example.org").
+   * Remote references are rejected when no hosts are allowed (default).
+   */
+  allowedHosts?: string[];
+  /**
+   * Fetcher for remote references (default: Node's http/https client)
+   */
+  fetcher?: RemoteFetcher;
+  /**
+   * Timeout for fetching a remote reference in milliseconds (default: 10000)
+   */
+  fetchTimeout?: number;
+  /**
+   * Directory of the content-addressed cache of fetched files.
+   * Cached content is used when fetching fails, which allows offline rebuilds.
+   */
+  remoteCacheDir?: string;
+  /**
+   * Read remote references from the remote cache only, without fetching
+   */
+  offline?: boolean;
 }
 
 /**
@@ -66,10 +220,45 @@ export interface TransclusionResult {
    */
   errors: TransclusionError[];
 
+  /**
+   * Non-fatal warnings encountered during processing (e.g., ambiguous headings)
+   */
+  warnings?: TransclusionError[];
+
   /**
    * Paths of all files that were processed
    */
   processedFiles: string[];
+
+  /**
+   * Targets used by references with alternatives or optional references
+   */
+  alternatives?: AlternativeResolution[];
+}
+
+/**
+ * Target used for a reference with alternatives (e.g., "![[local.md || defaults.md]]")
+ */
+export interface AlternativeResolution {
+  /**
+   * The reference as written
+   */
+  reference: string;
+
+  /**
+   * 0-based index of the target that was used, or -1 if none of the files exist
+   */
+  index: number;
+
+  /**
+   * Path of the used target as written, if any
+   */
+  path?: string;
+
+  /**
+   * Absolute path of the used file, if any
+   */
+  resolvedPath?: string;
 }
 
 /**
@@ -105,6 +294,72 @@ export interface TransclusionToken {
    * Optional end heading for range extraction (e.g., "end" from "![[file#start:end]]")
    */
   headingEnd?: string;
+
+  /**
+   * Optional line range selection (e.g., lines 10-40 from "![[file#L10-L40]]")
+   */
+  lineRange?: LineRange;
+
+  /**
+   * Optional block id (e.g., "abc123" from "![[note#^abc123]]")
+   */
+  blockId?: string;
+
+  /**
+   * Optional named region (e.g., "setup" from "![[file.ts#region=setup]]")
+   */
+  region?: string;
+
+  /**
+   * Optional list of headings to extract in order (e.g., from "![[api#Install,Usage,FAQ]]")
+   * The raw anchor text is kept in `heading` so literal headings containing commas still match.
+   */
+  headings?: string[];
+
+  /**
+   * Optional reference parameters (e.g., { shift: '+2' } from "![[ch1|shift=+2]]")
+   */
+  parameters?: Record<string, string>;
+
+  /**
+   * Fallback targets tried in order when the file of the previous target does not exist
+   * (e.g., defaults.md from "![[local.md || defaults.md]]")
+   */
+  alternatives?: TransclusionTarget[];
+
+  /**
+   * Whether a missing file produces no output and no error (e.g., "![[maybe.md?]]")
+   */
+  optional?: boolean;
+
+  /**
+   * Git revision to read the file from (e.g., "v1.2.0" from "![[CHANGELOG.md@v1.2.0]]")
+   */
+  revision?: string;
+}
+
+/**
+ * File path and selectors of one target of a reference
+ */
+export type TransclusionTarget = Pick<
+  TransclusionToken,
+  'path' | 'revision' | 'heading' | 'headingEnd' | 'lineRange' | 'blockId' | 'region' | 'headings'
+>;
+
+/**
+ * Line range selection for a transclusion reference
+ * Line numbers are 1-indexed and inclusive
+ */
+export interface LineRange {
+  /**
+   * First line to include
+   */
+  start: number;
+
+  /**
+   * Last line to include, or undefined to read to the end of the file
+   */
+  end?: number;
 }
 
 /**
@@ -135,6 +390,61 @@ export interface FileResolution {
    * Error code if error is a known type
    */
   errorCode?: number;
+
+  /**
+   * Error code for resolution errors that are not security errors
+   * (e.g., "AMBIGUOUS_REFERENCE" or "UNKNOWN_REVISION")
+   */
+  code?: string;
+
+  /**
+   * Files an ambiguous vault reference matches, relative to the base path
+   */
+  candidates?: string[];
+
+  /**
+   * Git object the file content is read from, for references to a revision
+   */
+  revision?: RevisionResolution;
+
+  /**
+   * Whether absolutePath is a remote URL whose content is fetched
+   */
+  remote?: boolean;
+}
+
+/**
+ * Git object a file was resolved to (e.g., for "![[CHANGELOG.md@v1.2.0]]")
+ */
+export interface RevisionResolution {
+  /**
+   * The revision as written in the reference
+   */
+  ref: string;
+
+  /**
+   * Object id of the file's blob at that revision
+   */
+  objectId: string;
+
+  /**
+   * Top-level directory of the repository
+   */
+  repository: string;
+}
+
+/**
+ * Fetches the content of remote references
+ */
+export interface RemoteFetcher {
+  /**
+   * Fetch the text content of a URL
+   * @param url The URL to fetch
+   * @param options Fetch options; the fetch should be abandoned after the timeout
+   * @returns The content
+   * @throws Error if the content cannot be fetched
+   */
+  fetch(url: string, options: { timeout: number }): Promise<string>;
 }
 
 /**
@@ -2,15 +2,42 @@ import {
   parseAndResolveRefs,
   composeLineOutput,
   extractErrors,
+  extractWarnings,
   ProcessedReference,
+  ResolvedReference,
   readResolvedRefs
 } from './transclusionProcessor';
 import type {
   TransclusionOptions,
   TransclusionError,
+  AlternativeResolution,
+  TransclusionToken,
   FileCache
 } from '../types';
+import { dirname } from 'path';
 import { stripFrontmatter } from './contentProcessing';
+import { rewriteLinks } from './linkRewriter';
+import { CodeFenceTracker } from './codeFenceTracker';
+import { substituteTemplateVariables, TemplateVariables } from './templateVariables';
+import { FrontmatterData, FrontmatterReader, mergeFrontmatter } from './frontmatter';
+import { parseCondition, evaluateCondition, ConditionError } from './conditionEvaluator';
+import { ConditionalBlockTracker } from './conditionalBlocks';
+import { ResolutionCache } from './resolutionCache';
+import { applyDataSources } from './dataSources';
+import { unescapeSeparator } from './globExpander';
+import {
+  ExpansionBudget,
+  IncludingFile,
+  DEFAULT_MAX_INCLUDES,
+  DEFAULT_MAX_INCLUDED_BYTES,
+  DEFAULT_MAX_FAN_OUT
+} from './expansionBudget';
+import {
+  HeadingLevelTracker,
+  parseHeadingOffset,
+  resolveHeadingOffset,
+  shiftHeadings
+} from './headingShifter';
 import type { PluginExecutor } from '../plugins/core/PluginExecutor';
 
 /**
@@ -20,25 +47,133 @@ import type { PluginExecutor } from '../plugins/core/PluginExecutor';
 export class LineTranscluder {
   private options: TransclusionOptions;
   private errors: TransclusionError[] = [];
+  private warnings: TransclusionError[] = [];
+  private alternatives: AlternativeResolution[] = [];
   private cache?: FileCache;
   private processedFiles = new Set<string>();
   private visitedFiles = new Set<string>();
   private currentDepth = 0;
   private maxDepth: number;
   private pluginExecutor?: PluginExecutor;
+  private headingTracker = new HeadingLevelTracker();
+  private codeTracker = new CodeFenceTracker();
+  private budget: ExpansionBudget;
+  private input: IncludingFile;
+  private frontmatterReader = new FrontmatterReader();
+  private frontmatter?: FrontmatterData;
+  private conditions: ConditionalBlockTracker;
+  private dataSourceError?: TransclusionError;
   
   constructor(options: TransclusionOptions, pluginExecutor?: PluginExecutor) {
-    this.options = options;
+    // Data sources are loaded into the template variables, which conditions are evaluated against.
+    // A data source that cannot be loaded is reported like other errors of the input document.
+    const data = applyDataSources(options);
+    if (!data.ok) {
+      this.dataSourceError = {
+        message: data.error.message,
+        path: options.initialFilePath ?? 'input',
+        code: data.error.code
+      };
+      this.errors.push(this.dataSourceError);
+    }
+    const { dataSources: _dataSources, ...loaded } = data.ok ? data.value : options;
+    this.options = { ...loaded, resolutionCache: options.resolutionCache ?? new ResolutionCache() };
     this.cache = options.cache;
     this.maxDepth = options.maxDepth || 10;
     this.pluginExecutor = pluginExecutor;
+    this.budget = new ExpansionBudget({
+      maxIncludes: options.maxIncludes || DEFAULT_MAX_INCLUDES,
+      maxIncludedBytes: options.maxIncludedBytes || DEFAULT_MAX_INCLUDED_BYTES,
+      maxFanOut: options.maxFanOut || DEFAULT_MAX_FAN_OUT
+    }, options.basePath || process.cwd());
+    this.input = { path: options.initialFilePath, fanOut: 0 };
+    this.conditions = new ConditionalBlockTracker(() => this.getConditionVariables({}, this.input.frontmatter));
+  }
+  
+  /**
+   * Read a line of the input document for its frontmatter, before it is processed
+   * Once the frontmatter block is complete, its fields are visible as {{page.*}} in the
+   * following lines and as {{parent.*}} in the files they include.
+   * @returns Whether the line belongs to the frontmatter block
+   */
+  readFrontmatterLine(line: string): boolean {
+    const kind = this.frontmatterReader.read(line);
+    if (kind === 'end') {
+      // The closing delimiter would otherwise read the last field as a Setext heading
+      this.headingTracker.reset();
+      const parsed = this.frontmatterReader.parse();
+      if (parsed.ok) {
+        this.input.frontmatter = parsed.value;
+        this.frontmatter = parsed.value;
+      } else {
+        this.warnings.push({
+          message: `Invalid frontmatter in ${this.options.initialFilePath ?? 'input'}: ${parsed.error.message}`,
+          path: this.options.initialFilePath ?? 'input',
+          code: parsed.error.code
+        });
+      }
+    }
+    return kind !== 'content';
+  }
+  
+  /**
+   * Read a line of the input document for conditional blocks, before it is processed
+   * @returns Whether the line is left out: a conditional marker or a line of a branch not taken
+   */
+  readConditionLine(line: string): boolean {
+    const { output, error } = this.conditions.update(line);
+    if (error) {
+      this.errors.push(this.toConditionError(error, this.options.initialFilePath));
+    }
+    return !output;
+  }
+  
+  /**
+   * Finish reading the input document, reporting conditional blocks left open
+   */
+  endConditions(): void {
+    const error = this.conditions.end();
+    if (error) {
+      this.errors.push(this.toConditionError(error, this.options.initialFilePath));
+    }
+  }
+  
+  /**
+   * Get the frontmatter of the input document, with the frontmatter of transcluded files
+   * merged in when mergeFrontmatter is set
+   * @returns The frontmatter fields, or undefined if no frontmatter was read
+   */
+  getFrontmatter(): FrontmatterData | undefined {
+    return this.frontmatter;
+  }
+  
+  /**
+   * Get the template variables, with the variables loaded from data sources
+   */
+  getTemplateVariables(): TransclusionOptions['templateVariables'] {
+    return this.options.templateVariables;
   }
   
   /**
    * Process a single line, handling transclusions
    */
   async processLine(line: string): Promise<string> {
-    const processedLine = await this.processLineWithDepth(line, 0, new Set<string>(), this.options.initialFilePath);
+    // Frontmatter fields of the input document are visible to its lines
+    const pageLine = this.input.frontmatter
+      ? substituteTemplateVariables(line, { variables: { page: this.input.frontmatter } })
+      : line;
+    
+    // Transclusion syntax inside code blocks is left as written
+    const processedLine = this.codeTracker.update(pageLine)
+      ? pageLine
+      : await this.processLineWithDepth(
+        pageLine,
+        0,
+        new Set<string>(),
+        this.input,
+        this.headingTracker.level
+      );
+    this.headingTracker.update(line);
     
     // Apply content transformers to the main file lines if plugin executor is available
     if (this.pluginExecutor && this.options.initialFilePath) {
@@ -70,146 +205,255 @@ export class LineTranscluder {
   
   /**
    * Process a line with depth tracking for recursive transclusion
+   * @param includer The file instance containing the line, whose includes count towards its fan-out
+   * @param scope Reference parameters visible to this line, inherited from the enclosing includes
    */
   private async processLineWithDepth(
     line: string, 
     depth: number,
     visitedStack: Set<string>,
-    parentPath?: string
+    includer: IncludingFile,
+    enclosingLevel = 0,
+    scope: Record<string, string> = {}
   ): Promise<string> {
-    // Parse and resolve references
-    const resolvedRefs = parseAndResolveRefs(line, this.options, parentPath);
+    const parentPath = includer.path;
+    // Parse and resolve references, with scoped parameters available to path variables
+    const resolvedRefs = parseAndResolveRefs(line, this.getScopedOptions(scope), parentPath);
     
     // If no transclusion references, return line unchanged
     if (resolvedRefs.length === 0) {
       return line;
     }
     
+    // References whose condition does not hold produce nothing and are not read
+    const skipped = new Map<ResolvedReference, ProcessedReference>();
+    for (const resolvedRef of resolvedRefs) {
+      const result = this.checkReferenceCondition(resolvedRef, this.getConditionVariables(scope, includer.frontmatter));
+      if (result) {
+        skipped.set(resolvedRef, result);
+      }
+    }
+    const includedRefs = resolvedRefs.filter(resolvedRef => !skipped.has(resolvedRef));
+    
+    // Record which target was used by references with alternatives
+    for (const { ref, resolved, alternativeIndex } of includedRefs) {
+      if (alternativeIndex !== undefined) {
+        this.alternatives.push({
+          reference: ref.original,
+          index: alternativeIndex,
+          ...(alternativeIndex !== -1 && { path: ref.path, resolvedPath: resolved.absolutePath })
+        });
+      }
+    }
+    
     // Check depth limit
-    if (depth >= this.maxDepth) {
+    if (depth >= this.maxDepth && includedRefs.length > 0) {
       const error: TransclusionError = {
         message: `Maximum transclusion depth (${this.maxDepth}) exceeded`,
-        path: resolvedRefs[0]?.ref.path || 'unknown',
+        path: includedRefs[0]?.ref.path || 'unknown',
         code: 'MAX_DEPTH_EXCEEDED'
       };
       this.errors.push(error);
-      return composeLineOutput(line, resolvedRefs.map(({ ref, resolved }) => ({
-        ref,
-        resolved,
+      return composeLineOutput(line, resolvedRefs.map(resolvedRef => skipped.get(resolvedRef) ?? {
+        ref: resolvedRef.ref,
+        resolved: resolvedRef.resolved,
         error
-      })));
+      }));
     }
     
     // Use readResolvedRefs for consistency and to avoid duplication
-    let processedRefs = await readResolvedRefs(resolvedRefs, this.options);
+    const processedRefs = await readResolvedRefs(includedRefs, this.options);
     
+    // Now handle circular references and recursive processing
+    const includedProcessedRefs: ProcessedReference[] = [];
+    for (const processed of processedRefs) {
+      includedProcessedRefs.push(processed.parts
+        ? await this.processGlobReference(processed, processed.parts, depth, visitedStack, includer, enclosingLevel, scope)
+        : await this.processReference(processed, depth, visitedStack, includer, enclosingLevel, scope));
+    }
+    let next = 0;
+    const finalProcessedRefs = resolvedRefs.map(resolvedRef => skipped.get(resolvedRef) ?? includedProcessedRefs[next++]);
+    
+    // Collect errors; an exceeded expansion limit stops every further reference but is reported once
+    for (const error of extractErrors(finalProcessedRefs)) {
+      if (error !== this.budget.error || !this.errors.includes(error)) {
+        this.errors.push(error);
+      }
+    }
+    this.warnings.push(...extractWarnings(finalProcessedRefs));
+    
+    // Compose output
+    return composeLineOutput(line, finalProcessedRefs);
+  }
+  
+  /**
+   * Process the content read for a reference: plugins, circular reference and expansion limit checks,
+   * parameters, link rebasing, nested transclusions and heading offsets
+   */
+  private async processReference(
+    processed: ProcessedReference,
+    depth: number,
+    visitedStack: Set<string>,
+    includer: IncludingFile,
+    enclosingLevel: number,
+    scope: Record<string, string>
+  ): Promise<ProcessedReference> {
     // Apply file processors if plugin executor is available
-    if (this.pluginExecutor) {
-      for (let i = 0; i < processedRefs.length; i++) {
-        const processed = processedRefs[i];
-        if (processed.content && processed.resolved.exists) {
-          try {
-            const { content: transformedContent } = await this.pluginExecutor.processFile(
-              processed.content,
-              processed.resolved.absolutePath,
-              this.options
-            );
-            processedRefs[i] = { ...processed, content: transformedContent };
-          } catch {
-            // Log plugin errors but continue processing
-            const pluginError: TransclusionError = {
-              message: `Plugin error processing file`,
-              path: processed.resolved.absolutePath,
-              code: 'PLUGIN_ERROR'
-            };
-            this.errors.push(pluginError);
-          }
-        }
+    if (this.pluginExecutor && processed.content && processed.resolved.exists) {
+      try {
+        const { content: transformedContent } = await this.pluginExecutor.processFile(
+          processed.content,
+          processed.resolved.absolutePath,
+          this.options
+        );
+        processed = { ...processed, content: transformedContent };
+      } catch {
+        // Log plugin errors but continue processing
+        const pluginError: TransclusionError = {
+          message: `Plugin error processing file`,
+          path: processed.resolved.absolutePath,
+          code: 'PLUGIN_ERROR'
+        };
+        this.errors.push(pluginError);
       }
     }
     
-    // Now handle circular references and recursive processing
-    const finalProcessedRefs: ProcessedReference[] = [];
+    const { ref, resolved, content } = processed;
+    if (!resolved.exists || content === undefined) {
+      // Pass through errors
+      return processed;
+    }
     
-    for (const processed of processedRefs) {
-      const { ref, resolved, content } = processed;
-      
-      if (resolved.exists && content !== undefined) {
-        // Track processed files
-        this.processedFiles.add(resolved.absolutePath);
-        
-        // Check for circular reference
-        if (visitedStack.has(resolved.absolutePath)) {
-          const circularPath = Array.from(visitedStack).join(' → ') + ' → ' + resolved.absolutePath;
-          const circularError: TransclusionError = {
-            message: `Circular reference detected: ${circularPath}`,
-            path: resolved.absolutePath,
-            code: 'CIRCULAR_REFERENCE'
-          };
-          this.errors.push(circularError);
-          finalProcessedRefs.push({ ref, resolved, error: circularError });
-          continue;
-        }
-        
-        // Strip frontmatter if requested (if not already done)
-        let processedContent = content;
-        if (this.options.stripFrontmatter && !content.startsWith('---') && !content.startsWith('+++')) {
-          processedContent = stripFrontmatter(content);
-        }
-        
-        // Create new visited stack for this branch
-        const newVisitedStack = new Set(visitedStack);
-        newVisitedStack.add(resolved.absolutePath);
-        
-        // Recursively process the content
-        let recursiveContent = await this.processContentRecursively(
-          processedContent,
-          depth + 1,
-          newVisitedStack,
-          resolved.absolutePath
+    // Track processed files
+    this.processedFiles.add(resolved.absolutePath);
+    
+    // Check for circular reference
+    if (visitedStack.has(resolved.absolutePath)) {
+      const circularPath = Array.from(visitedStack).join(' → ') + ' → ' + resolved.absolutePath;
+      const circularError: TransclusionError = {
+        message: `Circular reference detected: ${circularPath}`,
+        path: resolved.absolutePath,
+        code: 'CIRCULAR_REFERENCE'
+      };
+      this.errors.push(circularError);
+      return { ref, resolved, error: circularError };
+    }
+    
+    // Stop the expansion once it exceeds the include, size or fan-out limits
+    const limitError = this.budget.include(includer, resolved.absolutePath, content);
+    if (limitError) {
+      return { ref, resolved, error: limitError };
+    }
+    
+    // Strip frontmatter if requested, merging its fields into the input document's frontmatter
+    let processedContent = content;
+    if (this.options.stripFrontmatter || this.options.mergeFrontmatter) {
+      processedContent = stripFrontmatter(content);
+    }
+    if (this.options.mergeFrontmatter && processed.frontmatter) {
+      this.frontmatter = mergeFrontmatter(this.frontmatter ?? {}, processed.frontmatter);
+    }
+    
+    // Resolve conditional blocks before substitution, so conditions name variables rather than their values
+    const childScope = { ...scope, ...ref.parameters };
+    processedContent = this.applyConditionalBlocks(
+      processedContent,
+      this.getConditionVariables(childScope, processed.frontmatter),
+      resolved.absolutePath
+    );
+    
+    // Parameters of this reference are visible to the included file and its descendants,
+    // frontmatter only to the file itself ({{page.*}}) and the files it includes directly ({{parent.*}})
+    const variables: TemplateVariables = {
+      ...childScope,
+      ...(processed.frontmatter && { page: processed.frontmatter }),
+      ...(includer.frontmatter && { parent: includer.frontmatter })
+    };
+    if (Object.keys(variables).length > 0) {
+      processedContent = substituteTemplateVariables(processedContent, { variables });
+    }
+    
+    // Rebase relative links from the transcluded file to the root output file
+    // (links in remote files are relative to their URL and kept as written)
+    if (this.options.rewriteLinks !== false && !resolved.remote) {
+      processedContent = this.rebaseLinks(processedContent, resolved.absolutePath);
+    }
+    
+    // Create new visited stack for this branch
+    const newVisitedStack = new Set(visitedStack);
+    newVisitedStack.add(resolved.absolutePath);
+    
+    // Recursively process the content
+    let recursiveContent = await this.processContentRecursively(
+      processedContent,
+      depth + 1,
+      newVisitedStack,
+      { path: resolved.absolutePath, fanOut: 0, frontmatter: processed.frontmatter },
+      childScope
+    );
+    
+    // Shift heading levels to fit the including document
+    recursiveContent = this.applyHeadingOffset(recursiveContent, ref, resolved.absolutePath, enclosingLevel);
+    
+    // Apply content transformers if plugin executor is available
+    if (this.pluginExecutor) {
+      try {
+        const { content: transformedContent } = await this.pluginExecutor.transformContent(
+          recursiveContent,
+          resolved.absolutePath,
+          this.options,
+          undefined, // lineNumber - we don't have it here
+          ref.original, // original syntax
+          depth,
+          Array.from(newVisitedStack)
         );
-        
-        // Apply content transformers if plugin executor is available
-        if (this.pluginExecutor) {
-          try {
-            const { content: transformedContent } = await this.pluginExecutor.transformContent(
-              recursiveContent,
-              resolved.absolutePath,
-              this.options,
-              undefined, // lineNumber - we don't have it here
-              ref.original, // original syntax
-              depth,
-              Array.from(newVisitedStack)
-            );
-            recursiveContent = transformedContent;
-          } catch {
-            // Log plugin errors but continue processing
-            const pluginError: TransclusionError = {
-              message: `Plugin error transforming content`,
-              path: resolved.absolutePath,
-              code: 'PLUGIN_ERROR'
-            };
-            this.errors.push(pluginError);
-          }
-        }
-        
-        finalProcessedRefs.push({
-          ref,
-          resolved,
-          content: recursiveContent
-        });
-      } else {
-        // Pass through errors
-        finalProcessedRefs.push(processed);
+        recursiveContent = transformedContent;
+      } catch {
+        // Log plugin errors but continue processing
+        const pluginError: TransclusionError = {
+          message: `Plugin error transforming content`,
+          path: resolved.absolutePath,
+          code: 'PLUGIN_ERROR'
+        };
+        this.errors.push(pluginError);
       }
     }
     
-    // Collect errors
-    const errors = extractErrors(finalProcessedRefs);
-    this.errors.push(...errors);
+    return { ...processed, content: recursiveContent };
+  }
+  
+  /**
+   * Process each file of a glob or directory reference and join them with the separator
+   * Files that fail are replaced by an error comment; their errors are reported with the reference.
+   */
+  private async processGlobReference(
+    processed: ProcessedReference,
+    parts: ProcessedReference[],
+    depth: number,
+    visitedStack: Set<string>,
+    includer: IncludingFile,
+    enclosingLevel: number,
+    scope: Record<string, string>
+  ): Promise<ProcessedReference> {
+    const finalParts: ProcessedReference[] = [];
+    for (const part of parts) {
+      finalParts.push(await this.processReference(part, depth, visitedStack, includer, enclosingLevel, scope));
+    }
     
-    // Compose output
-    return composeLineOutput(line, finalProcessedRefs);
+    const separator = unescapeSeparator(processed.ref.parameters?.separator ?? this.options.globSeparator ?? '\n\n');
+    const content = finalParts
+      .map(part => part.content ?? `<!-- Error: ${part.error?.message ?? `Could not transclude ${part.ref.path}`} -->`)
+      .join(separator);
+    const errors = extractErrors(finalParts);
+    const warnings = extractWarnings(finalParts);
+    
+    return {
+      ...processed,
+      content,
+      parts: finalParts,
+      ...(errors.length > 0 && { errors }),
+      ...(warnings.length > 0 && { warnings })
+    };
   }
   
   /**
@@ -219,19 +463,167 @@ export class LineTranscluder {
     content: string,
     depth: number,
     visitedStack: Set<string>,
-    parentPath: string
+    includer: IncludingFile,
+    scope: Record<string, string>
   ): Promise<string> {
     const lines = content.split('\n');
     const processedLines: string[] = [];
+    const headingTracker = new HeadingLevelTracker();
+    const codeTracker = new CodeFenceTracker();
     
     for (const line of lines) {
-      const processedLine = await this.processLineWithDepth(line, depth, visitedStack, parentPath);
+      const processedLine = codeTracker.update(line)
+        ? line
+        : await this.processLineWithDepth(
+          line,
+          depth,
+          visitedStack,
+          includer,
+          headingTracker.level,
+          scope
+        );
+      headingTracker.update(line);
       processedLines.push(processedLine);
     }
     
     return processedLines.join('\n');
   }
   
+  /**
+   * Get the variables conditions are evaluated against: path and template variables, the scoped
+   * reference parameters and the frontmatter of the file containing the condition as page
+   */
+  private getConditionVariables(scope: Record<string, string>, frontmatter?: FrontmatterData): TemplateVariables {
+    return {
+      ...this.options.variables,
+      ...this.options.templateVariables,
+      ...scope,
+      ...(frontmatter && { page: frontmatter })
+    };
+  }
+  
+  /**
+   * Check the condition of a reference with an `if` parameter (e.g., "![[notes|if=internal]]")
+   * @returns An empty result if the condition does not hold, an error if it is invalid,
+   * or undefined if the reference is included
+   */
+  private checkReferenceCondition(
+    { ref, resolved }: ResolvedReference,
+    variables: TemplateVariables
+  ): ProcessedReference | undefined {
+    const expression = ref.parameters?.if;
+    if (expression === undefined) {
+      return undefined;
+    }
+    
+    const condition = parseCondition(expression);
+    if (!condition.ok) {
+      return { ref, resolved, error: { message: condition.error.message, path: ref.path, code: condition.error.code } };
+    }
+    return evaluateCondition(condition.value, variables) ? undefined : { ref, resolved, content: '' };
+  }
+  
+  /**
+   * Keep or leave out the conditional blocks of content read from a transcluded file
+   */
+  private applyConditionalBlocks(content: string, variables: TemplateVariables, filePath: string): string {
+    if (!content.includes('<!--')) {
+      return content;
+    }
+    
+    const tracker = new ConditionalBlockTracker(() => variables);
+    const lines = content.split('\n').filter(line => {
+      const { output, error } = tracker.update(line);
+      if (error) {
+        this.errors.push(this.toConditionError(error, filePath));
+      }
+      return output;
+    });
+    
+    const unclosed = tracker.end();
+    if (unclosed) {
+      this.errors.push(this.toConditionError(unclosed, filePath));
+    }
+    return lines.join('\n');
+  }
+  
+  /**
+   * Report a conditional block error in a file
+   */
+  private toConditionError(error: ConditionError, filePath = 'input'): TransclusionError {
+    return { message: `${error.message} in ${filePath}`, path: filePath, code: error.code };
+  }
+  
+  /**
+   * Get options whose path variables include the scoped reference parameters
+   * Scoped parameters take precedence over the global variables.
+   */
+  private getScopedOptions(scope: Record<string, string>): TransclusionOptions {
+    if (Object.keys(scope).length === 0) {
+      return this.options;
+    }
+    return { ...this.options, variables: { ...this.options.variables, ...scope } };
+  }
+  
+  /**
+   * Rebase relative links in content read from a transcluded file
+   */
+  private rebaseLinks(content: string, filePath: string): string {
+    const basePath = this.options.basePath || process.cwd();
+    const outputFile = this.options.outputPath || this.options.initialFilePath;
+    
+    return rewriteLinks(content, {
+      sourceDir: dirname(filePath),
+      targetDir: outputFile ? dirname(outputFile) : basePath,
+      rootDir: basePath,
+      mode: this.options.linkMode,
+      baseUrl: this.options.linkBaseUrl
+    });
+  }
+  
+  /**
+   * Shift heading levels of transcluded content using the reference's
+   * "shift" parameter or the headingOffset option
+   */
+  private applyHeadingOffset(
+    content: string,
+    ref: TransclusionToken,
+    path: string,
+    enclosingLevel: number
+  ): string {
+    let offset = this.options.headingOffset;
+    const shiftParameter = ref.parameters?.shift;
+    
+    if (shiftParameter !== undefined) {
+      const parsed = parseHeadingOffset(shiftParameter);
+      if (parsed === null) {
+        this.warnings.push({
+          message: `Invalid heading shift "${shiftParameter}" in ${ref.original}, expected a number or "auto"`,
+          path,
+          code: 'INVALID_HEADING_SHIFT'
+        });
+      } else {
+        offset = parsed;
+      }
+    }
+    
+    if (offset === undefined) {
+      return content;
+    }
+    
+    const levels = resolveHeadingOffset(offset, content, enclosingLevel);
+    const shifted = shiftHeadings(content, levels);
+    if (shifted.clamped > 0) {
+      this.warnings.push({
+        message: `${shifted.clamped} heading(s) in ${path} clamped to the valid range (1-6) when shifting by ${levels > 0 ? '+' : ''}${levels}`,
+        path,
+        code: 'HEADING_LEVEL_CLAMPED'
+      });
+    }
+    
+    return shifted.content;
+  }
+  
   /**
    * Get all errors encountered during processing
    */
@@ -239,6 +631,20 @@ export class LineTranscluder {
     return [...this.errors];
   }
   
+  /**
+   * Get all warnings encountered during processing
+   */
+  getWarnings(): TransclusionError[] {
+    return [...this.warnings];
+  }
+  
+  /**
+   * Get the targets used by references with alternatives or optional references
+   */
+  getAlternatives(): AlternativeResolution[] {
+    return [...this.alternatives];
+  }
+  
   /**
    * Get all processed files
    */
@@ -251,6 +657,7 @@ export class LineTranscluder {
    */
   clearErrors(): void {
     this.errors = [];
+    this.warnings = [];
   }
   
   /**
@@ -258,6 +665,7 @@ export class LineTranscluder {
    */
   clearProcessedFiles(): void {
     this.processedFiles.clear();
+    this.alternatives = [];
   }
   
   /**
@@ -266,6 +674,18 @@ export class LineTranscluder {
   reset(): void {
     this.clearErrors();
     this.clearProcessedFiles();
+    this.budget.reset();
+    this.input.fanOut = 0;
+    this.headingTracker.reset();
+    this.codeTracker.reset();
+    this.frontmatterReader.reset();
+    this.frontmatter = undefined;
+    this.input.frontmatter = undefined;
+    this.conditions.reset();
+    this.options.resolutionCache?.clear();
+    if (this.dataSourceError) {
+      this.errors.push(this.dataSourceError);
+    }
   }
   
   /**
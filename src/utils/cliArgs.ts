@@ -1,5 +1,7 @@
 import { Result, Ok, Err } from './result';
 import { LogLevel } from './logger';
+import { parseHeadingOffset } from './headingShifter';
+import { isGlobSort, parseGlobList } from './globExpander';
 
 /**
  * CLI argument configuration
@@ -10,10 +12,14 @@ export interface CliArgs {
   basePath?: string;
   extensions?: string[];
   maxDepth?: number;
+  maxIncludes?: number;
+  maxIncludedBytes?: number;
+  maxFanOut?: number;
   variables?: Record<string, string>;
   strict?: boolean;
   validateOnly?: boolean;
   stripFrontmatter?: boolean;
+  mergeFrontmatter?: boolean;
   dryRun?: boolean;
   logLevel?: LogLevel;
   help?: boolean;
@@ -24,6 +30,25 @@ export interface CliArgs {
   plugins?: string[];
   pluginConfig?: string;
   templateVariables?: Record<string, string>;
+  dataSources?: string[];
+  headingOffset?: number | 'auto';
+  rewriteLinks?: boolean;
+  embedCode?: boolean;
+  linkMode?: 'relative' | 'absolute' | 'root-relative';
+  linkBaseUrl?: string;
+  globSort?: 'name' | 'order' | 'mtime';
+  globSeparator?: string;
+  resolution?: 'path' | 'vault';
+  caseInsensitive?: boolean;
+  aliases?: Record<string, string>;
+  searchPaths?: string[];
+  symlinkPolicy?: 'follow' | 'follow-within-base' | 'deny';
+  allow?: string[];
+  deny?: string[];
+  allowedHosts?: string[];
+  fetchTimeout?: number;
+  remoteCacheDir?: string;
+  offline?: boolean;
 }
 
 /**
@@ -144,10 +169,30 @@ function parseLongFlag(
       result.stripFrontmatter = true;
       break;
       
+    case 'merge-frontmatter':
+      result.mergeFrontmatter = true;
+      break;
+      
     case 'dry-run':
       result.dryRun = true;
       break;
       
+    case 'no-rewrite-links':
+      result.rewriteLinks = false;
+      break;
+      
+    case 'no-embed-code':
+      result.embedCode = false;
+      break;
+      
+    case 'case-insensitive':
+      result.caseInsensitive = true;
+      break;
+      
+    case 'offline':
+      result.offline = true;
+      break;
+      
     case 'verbose':
       result.verbose = true;
       break;
@@ -220,6 +265,35 @@ function parseLongFlag(
       nextIndex++;
       break;
     }
+    
+    case 'max-includes':
+    case 'max-included-bytes':
+    case 'max-fan-out': {
+      if (nextIndex >= args.length) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const limit = Number(args[nextIndex]);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid ${flagName} value: ${args[nextIndex]} (expected a positive integer)`,
+          flag: `--${flagName}`
+        });
+      }
+      if (flagName === 'max-includes') {
+        result.maxIncludes = limit;
+      } else if (flagName === 'max-included-bytes') {
+        result.maxIncludedBytes = limit;
+      } else {
+        result.maxFanOut = limit;
+      }
+      nextIndex++;
+      break;
+    }
       
     case 'variables':
     case 'vars': {
@@ -243,6 +317,102 @@ function parseLongFlag(
       break;
     }
       
+    case 'aliases': {
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const aliasesResult = parseVariables(args[nextIndex]);
+      if (!aliasesResult.ok) {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid aliases format: ${aliasesResult.error}`,
+          flag: `--${flagName}`
+        });
+      }
+      result.aliases = aliasesResult.value;
+      nextIndex++;
+      break;
+    }
+      
+    case 'search-paths':
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      result.searchPaths = args[nextIndex].split(',').map(searchPath => searchPath.trim()).filter(Boolean);
+      nextIndex++;
+      break;
+      
+    case 'allow':
+    case 'deny':
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      // Repeated flags add to the list
+      if (flagName === 'allow') {
+        result.allow = [...(result.allow ?? []), ...parseGlobList(args[nextIndex])];
+      } else {
+        result.deny = [...(result.deny ?? []), ...parseGlobList(args[nextIndex])];
+      }
+      nextIndex++;
+      break;
+      
+    case 'allow-hosts':
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      result.allowedHosts = args[nextIndex].split(',').map(host => host.trim()).filter(Boolean);
+      nextIndex++;
+      break;
+      
+    case 'fetch-timeout': {
+      if (nextIndex >= args.length) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const timeout = Number(args[nextIndex]);
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid fetch-timeout value: ${args[nextIndex]} (expected milliseconds)`,
+          flag: `--${flagName}`
+        });
+      }
+      result.fetchTimeout = timeout;
+      nextIndex++;
+      break;
+    }
+      
+    case 'remote-cache':
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      result.remoteCacheDir = args[nextIndex];
+      nextIndex++;
+      break;
+      
     case 'log-level':
     case 'log': {
       if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
@@ -295,6 +465,20 @@ function parseLongFlag(
       break;
     }
     
+    case 'data':
+    case 'data-dir':
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      // Repeated flags add to the list
+      result.dataSources = [...(result.dataSources ?? []), args[nextIndex]];
+      nextIndex++;
+      break;
+      
     case 'template-variables':
     case 'template-vars': {
       if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
@@ -317,6 +501,136 @@ function parseLongFlag(
       break;
     }
       
+    case 'link-mode': {
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const mode = args[nextIndex];
+      if (mode !== 'relative' && mode !== 'absolute' && mode !== 'root-relative') {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid link-mode value: ${mode} (expected relative, absolute or root-relative)`,
+          flag: `--${flagName}`
+        });
+      }
+      result.linkMode = mode;
+      nextIndex++;
+      break;
+    }
+    
+    case 'link-base-url':
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      result.linkBaseUrl = args[nextIndex];
+      nextIndex++;
+      break;
+    
+    case 'heading-offset': {
+      if (nextIndex >= args.length) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const offset = parseHeadingOffset(args[nextIndex]);
+      if (offset === null) {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid heading-offset value: ${args[nextIndex]} (expected a number or "auto")`,
+          flag: `--${flagName}`
+        });
+      }
+      result.headingOffset = offset;
+      nextIndex++;
+      break;
+    }
+    
+    case 'glob-sort': {
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const sort = args[nextIndex];
+      if (!isGlobSort(sort)) {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid glob-sort value: ${sort} (expected name, order or mtime)`,
+          flag: `--${flagName}`
+        });
+      }
+      result.globSort = sort;
+      nextIndex++;
+      break;
+    }
+    
+    case 'resolution': {
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const resolution = args[nextIndex];
+      if (resolution !== 'path' && resolution !== 'vault') {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid resolution value: ${resolution} (expected path or vault)`,
+          flag: `--${flagName}`
+        });
+      }
+      result.resolution = resolution;
+      nextIndex++;
+      break;
+    }
+    
+    case 'symlinks': {
+      if (nextIndex >= args.length || args[nextIndex].startsWith('-')) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      const policy = args[nextIndex];
+      if (policy !== 'follow' && policy !== 'follow-within-base' && policy !== 'deny') {
+        return Err({
+          code: CliArgsErrorCode.INVALID_VALUE,
+          message: `Invalid symlinks value: ${policy} (expected follow, follow-within-base or deny)`,
+          flag: `--${flagName}`
+        });
+      }
+      result.symlinkPolicy = policy;
+      nextIndex++;
+      break;
+    }
+    
+    case 'glob-separator':
+      // Separators may start with a dash (e.g., "---"), so any value is accepted
+      if (nextIndex >= args.length) {
+        return Err({
+          code: CliArgsErrorCode.MISSING_VALUE,
+          message: `Flag --${flagName} requires a value`,
+          flag: `--${flagName}`
+        });
+      }
+      result.globSeparator = args[nextIndex];
+      nextIndex++;
+      break;
+      
     default:
       return Err({
         code: CliArgsErrorCode.INVALID_FLAG,
@@ -500,11 +814,33 @@ OPTIONS:
                           when extension is omitted (default: md,markdown)
   --max-depth N           Maximum recursion depth for nested transclusions
                           (default: 10, prevents infinite loops)
+  --max-includes N        Maximum number of includes in the document (default: 10000)
+  --max-included-bytes N  Maximum total size of included content in bytes
+                          (default: 10485760)
+  --max-fan-out N         Maximum number of files a single file includes (default: 1000)
   --variables VARS        Variables for {{var}} substitution in filenames
                           Format: key1=value1,key2=value2
+  --aliases ALIASES       Path aliases for references like ![[@shared/legal.md]]
+                          Format: @shared=packages/docs-shared (relative to base path)
+  --search-paths PATHS    Comma-separated directories tried after the base path
+                          (relative to base path)
+  --symlinks POLICY       How symlinks are treated: follow, follow-within-base (targets
+                          must stay within the base path) or deny (default: follow-within-base)
+  --allow GLOBS           Comma-separated globs of the only files that may be transcluded,
+                          relative to the base path (e.g. "docs/**,snippets/**")
+  --deny GLOBS            Comma-separated globs of files that may never be transcluded
+                          (e.g. "**/drafts/**,*.secret.md"); takes precedence over --allow
+  --allow-hosts HOSTS     Comma-separated hosts remote references may be fetched from
+                          (e.g. docs.example.org,*.example.com; default: none)
+  --fetch-timeout MS      Timeout for fetching remote references (default: 10000)
+  --remote-cache DIR      Cache fetched files in DIR for offline rebuilds
+  --offline               Read remote references from --remote-cache only
   --template-variables    Template variables for {{var}} substitution in content
     VARS                  Format: key1=value1,key2=value2
                           Special values: @date, @time, @timestamp for dynamic values
+  --data FILE             Load a JSON, YAML or .env file as template variables named
+                          after the file (data/product.yaml provides {{product.version}})
+  --data-dir DIR          Load every data file in DIR as template variables
   -s, --strict            Exit with error code 1 on any transclusion failure
                           (default: insert error comment and continue)
   --validate-only         Check all references without outputting content
@@ -513,6 +849,24 @@ OPTIONS:
                           Shows processed content to stdout and processing statistics
   --strip-frontmatter     Remove YAML/TOML frontmatter from transcluded files
                           and the main document (frontmatter starts/ends with --- or +++)
+  --merge-frontmatter     Merge frontmatter of transcluded files into the main document's
+                          frontmatter (fields of the main document take precedence)
+  --heading-offset N      Shift headings in transcluded files by N levels (e.g. 2, -1),
+                          or 'auto' to nest them under the enclosing heading
+  --no-rewrite-links      Keep relative links and images in transcluded files as written
+                          (default: rebase them to the output file's directory)
+  --no-embed-code         Paste source files as written instead of wrapping them in
+                          fenced code blocks (e.g. ![[src/client.ts]])
+  --link-mode MODE        How rebased links are written: relative, root-relative
+                          (/docs/img.png) or absolute (default: relative)
+  --link-base-url URL     Base URL for absolute links (default: file:// URLs)
+  --resolution MODE       How references are found: path (relative to the file and base
+                          path) or vault (also by file name anywhere under the base path)
+  --case-insensitive      Match file names case-insensitively with --resolution vault
+  --glob-sort ORDER       Order of files included by glob and directory references:
+                          name, order (frontmatter order: key) or mtime (default: name)
+  --glob-separator TEXT   Text placed between files of glob and directory references,
+                          \\n for a newline (default: a blank line)
   --log-level LEVEL       Set logging verbosity: ERROR, WARN, INFO, DEBUG
                           (default: INFO, logs go to stderr)
   --verbose               Enable detailed human-readable progress output
@@ -532,15 +886,48 @@ PLUGIN OPTIONS:
 TRANSCLUSION SYNTAX:
   ![[filename]]           Include entire file
   ![[filename#heading]]   Include specific heading section
+  ![[filename#h1,h2]]     Include several heading sections in the order listed
+  ![[file#Parent/Child]]  Include a heading under a parent heading (also #Child[2])
+  ![[filename#L10-L40]]   Include lines 10 to 40 (also #L10- and #L7)
+  ![[filename#^block-id]] Include the paragraph or list item marked ^block-id
+  ![[file#region=name]]   Include a region marked with #region/#endregion
+  ![[file|shift=+2]]      Shift headings of the included file (also shift=auto)
+  ![[file|key=value]]     Set {{key}} for the included file and its includes
+  ![[src/app.ts]]         Include a source file as a fenced code block
+  ![[run|lang=bash]]      Set the code block language (also title=install.sh)
+  ![[data.csv]]           Include a CSV or TSV file as a Markdown table
+  ![[t.csv|order-by=-n]]  Select, rename, filter, sort and align table columns
+                          (columns=, rename=, filter=, order-by=, align=, format=numbers)
+  ![[a.md || b.md]]       Include the first of several files that exists
+  ![[maybe.md?]]          Include a file if it exists, otherwise nothing
+  ![[notes.md|if=beta]]   Include a file only if the condition holds
+                          (e.g. if=audience == "internal" and version >= 2)
+  ![[file.md@v1.2.0]]     Include a file as it was at a git revision (also @HEAD~3)
+  ![[https://host/f.md]]  Include a remote file from a host allowed with --allow-hosts
+  ![[chapters/*.md]]      Include all matching files in natural order (also **/*.md)
+  ![[chapters/]]          Include all Markdown files of a directory
+  ![[dir/|sort=order]]    Sort, separate and filter included files
+                          (sort=, separator=, include=, exclude=)
   ![[dir/file]]          Include file from subdirectory
   ![[file-{{var}}]]      Include file with variable substitution
   
 TEMPLATE VARIABLES:
   {{variable}}            Replaced with value from --template-variables
+  {{product.version}}     Nested value from --data (also {{product.platforms.0}})
+  {{page.title}}          Frontmatter field of the file the variable appears in
+  {{parent.title}}        Frontmatter field of the file that included it
   {{date}}                Current date (if date is defined)
   {{time}}                Current time (if time is defined)
   {{author}}              Author name (if author is defined)
 
+CONDITIONAL CONTENT:
+  <!-- if beta -->        Keep the following lines only if the condition holds
+  <!-- elseif x == 1 -->  Otherwise keep these lines if this condition holds
+  <!-- else -->           Otherwise keep these lines
+  <!-- endif -->          End the conditional block (blocks may nest)
+  Conditions read --variables, --template-variables, --data and {{page.*}} fields
+  Operators: == != > >= < <= ! && || (also and, or, not) and parentheses
+
 EXAMPLES:
   # Process a single file
   markdown-transclusion document.md
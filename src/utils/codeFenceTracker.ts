@@ -0,0 +1,140 @@
+/**
+ * Track code blocks while reading Markdown line by line
+ * Recognises fenced code blocks (``` or ~~~) and indented code blocks, following
+ * the CommonMark rules closely enough for transclusion and heading detection.
+ */
+
+/**
+ * Opening or closing code fence, after indentation: the fence and its info string
+ */
+const CODE_FENCE_PATTERN = /^(`{3,}|~{3,})(.*)$/;
+
+/**
+ * List item marker, after indentation: the marker and the spaces that follow it
+ */
+const LIST_ITEM_PATTERN = /^([-*+]|\d{1,9}[.)])( +|$)/;
+
+/**
+ * Lines that close a paragraph, so a following indented line starts a code block
+ */
+const PARAGRAPH_BREAK_PATTERN = /^(?:#{1,6}(?:\s|$)|(?:([-*_])[ \t]*){3,}$|=+\s*$)/;
+
+/**
+ * Indentation that turns a line into code (relative to the enclosing list item)
+ */
+const INDENTED_CODE_WIDTH = 4;
+
+/**
+ * Currently open code fence
+ */
+interface OpenFence {
+  marker: string;
+  info: string;
+}
+
+/**
+ * Measure the indentation of a line, expanding tabs to 4-column stops
+ */
+function measureIndent(line: string): { width: number; text: string } {
+  let width = 0;
+  let index = 0;
+  while (index < line.length && (line[index] === ' ' || line[index] === '\t')) {
+    width += line[index] === '\t' ? INDENTED_CODE_WIDTH - (width % INDENTED_CODE_WIDTH) : 1;
+    index++;
+  }
+  return { width, text: line.substring(index) };
+}
+
+/**
+ * Tracks whether lines are inside a code block
+ */
+export class CodeFenceTracker {
+  private fence: OpenFence | null = null;
+  private inParagraph = false;
+  private afterBlankLine = true;
+  private listIndent = 0;
+
+  /**
+   * Whether the tracker is inside a fenced code block
+   */
+  get inFence(): boolean {
+    return this.fence !== null;
+  }
+
+  /**
+   * Info string of the open fence (e.g., "ts" for ```ts), or undefined outside fences
+   */
+  get info(): string | undefined {
+    return this.fence?.info;
+  }
+
+  /**
+   * Update state with the next line
+   * Blank lines outside fences are never reported as code.
+   * @returns true if the line is part of a code block (including its fences)
+   */
+  update(line: string): boolean {
+    const { width, text } = measureIndent(line);
+
+    if (this.fence) {
+      // A closing fence uses the same character, is at least as long and has no info string
+      const fence = text.match(CODE_FENCE_PATTERN);
+      if (fence && width < this.listIndent + INDENTED_CODE_WIDTH && fence[2].trim() === ''
+        && fence[1][0] === this.fence.marker[0] && fence[1].length >= this.fence.marker.length) {
+        this.fence = null;
+      }
+      return true;
+    }
+
+    if (text === '') {
+      this.inParagraph = false;
+      this.afterBlankLine = true;
+      return false;
+    }
+
+    // Text indented less than the list item after a blank line ends the list
+    if (this.afterBlankLine && width < this.listIndent) {
+      this.listIndent = 0;
+    }
+    this.afterBlankLine = false;
+
+    const codeIndent = this.listIndent + INDENTED_CODE_WIDTH;
+    if (width >= codeIndent && !this.inParagraph) {
+      return true;
+    }
+
+    // Backtick fences cannot have backticks in their info string
+    const fence = width < codeIndent ? text.match(CODE_FENCE_PATTERN) : null;
+    if (fence && !(fence[1][0] === '`' && fence[2].includes('`'))) {
+      this.fence = { marker: fence[1], info: fence[2].trim() };
+      this.inParagraph = false;
+      return true;
+    }
+
+    if (width < codeIndent && PARAGRAPH_BREAK_PATTERN.test(text)) {
+      this.inParagraph = false;
+      return false;
+    }
+
+    const listItem = text.match(LIST_ITEM_PATTERN);
+    if (listItem && width < codeIndent) {
+      const spacing = listItem[2].length === 0 || listItem[2].length > INDENTED_CODE_WIDTH ? 1 : listItem[2].length;
+      this.listIndent = width + listItem[1].length + spacing;
+      this.inParagraph = listItem[2].length > 0;
+      return false;
+    }
+
+    this.inParagraph = true;
+    return false;
+  }
+
+  /**
+   * Forget all tracked state
+   */
+  reset(): void {
+    this.fence = null;
+    this.inParagraph = false;
+    this.afterBlankLine = true;
+    this.listIndent = 0;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Code embedding: source files transcluded into Markdown are wrapped in fenced code blocks
+ * whose language is inferred from the file extension (`![[src/client.ts]]` becomes a typescript block).
+ */
+
+import * as path from 'path';
+
+/**
+ * Extensions of Markdown files, which are always transcluded as Markdown
+ */
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdx'];
+
+/**
+ * Code fence languages by file extension
+ * Markup, style and data files (HTML, XML, CSS, JSON, YAML, ...) are left out, since they are often
+ * transcluded raw as partials; `|lang=html` embeds them as code.
+ */
+export const CODE_LANGUAGES: Readonly<Record<string, string>> = {
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'tsx',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'jsx',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.scala': 'scala',
+  '.swift': 'swift',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.php': 'php',
+  '.dart': 'dart',
+  '.lua': 'lua',
+  '.r': 'r',
+  '.pl': 'perl',
+  '.ex': 'elixir',
+  '.exs': 'elixir',
+  '.erl': 'erlang',
+  '.hs': 'haskell',
+  '.clj': 'clojure',
+  '.sh': 'bash',
+  '.bash': 'bash',
+  '.zsh': 'zsh',
+  '.fish': 'fish',
+  '.ps1': 'powershell',
+  '.bat': 'batch',
+  '.sql': 'sql',
+  '.graphql': 'graphql',
+  '.gql': 'graphql',
+  '.proto': 'protobuf',
+  '.tf': 'hcl',
+  '.mmd': 'mermaid',
+  '.diff': 'diff',
+  '.patch': 'diff'
+};
+
+/**
+ * Code fence languages of files known by name rather than extension
+ */
+const CODE_FILE_NAMES: Readonly<Record<string, string>> = {
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+  Gemfile: 'ruby',
+  Rakefile: 'ruby'
+};
+
+/**
+ * Get the file name of a path or URL, without query string or fragment
+ */
+export function getFileName(filePath: string): string {
+  return path.basename(filePath.replace(/[?#].*$/, ''));
+}
+
+/**
+ * Check if a file is Markdown, by its extension or the configured Markdown extensions
+ * Files without an extension are treated as Markdown, except files known by name (e.g., Dockerfile).
+ * @param filePath Path or URL of the file
+ * @param extensions Configured extensions tried for references without one
+ */
+export function isMarkdownFile(filePath: string, extensions: string[] = []): boolean {
+  const fileName = getFileName(filePath);
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === '') {
+    return !Object.prototype.hasOwnProperty.call(CODE_FILE_NAMES, fileName);
+  }
+  const markdownExtensions = [
+    ...MARKDOWN_EXTENSIONS,
+    ...extensions.map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase())
+  ];
+  return markdownExtensions.includes(extension);
+}
+
+/**
+ * Get the code fence language of a source file
+ * @param filePath Path or URL of the file
+ * @returns The language, or undefined if the file type is unknown
+ */
+export function getCodeLanguage(filePath: string): string | undefined {
+  const fileName = getFileName(filePath);
+  return CODE_FILE_NAMES[fileName] ?? CODE_LANGUAGES[path.extname(fileName).toLowerCase()];
+}
+
+/**
+ * Wrap content in a fenced code block
+ * The fence is one backtick longer than the longest backtick run in the content,
+ * so fences inside the content cannot close it.
+ * @param content The code
+ * @param language Info string language (e.g., "typescript"); empty for none
+ * @param title Optional title, written as title="..." after the language
+ */
+export function wrapInCodeFence(content: string, language: string, title?: string): string {
+  const longestRun = (content.match(/`+/g) ?? []).reduce((longest, run) => Math.max(longest, run.length), 0);
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const info = [language, ...(title ? [`title="${title.replace(/"/g, '\\"')}"`] : [])].filter(Boolean).join(' ');
+
+  return `${fence}${info}\n${content}\n${fence}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Column type detection for tabular data
+ * Shared by the table formatter plugin and CSV table rendering.
+ */
+
+/**
+ * Table column type detection
+ */
+export enum ColumnType {
+  TEXT = 'text',
+  NUMBER = 'number',
+  DATE = 'date',
+  BOOLEAN = 'boolean',
+  URL = 'url',
+  EMAIL = 'email'
+}
+
+/**
+ * Pattern for cells detected as numbers
+ */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Share of non-empty values that must match a type for the column to have it
+ */
+const TYPE_THRESHOLD = 0.8;
+
+/**
+ * Check if a cell value is a number
+ */
+export function isNumberValue(value: string): boolean {
+  return NUMBER_PATTERN.test(value.trim());
+}
+
+/**
+ * Detect type of a column based on its values
+ * @param values Non-empty values of the column
+ */
+export function detectColumnType(values: string[]): ColumnType {
+  if (values.length === 0) {
+    return ColumnType.TEXT;
+  }
+  
+  const share = (matches: (value: string) => boolean): number =>
+    values.filter(v => matches(v.trim())).length / values.length;
+  
+  // Check for numbers
+  if (share(isNumberValue) > TYPE_THRESHOLD) {
+    return ColumnType.NUMBER;
+  }
+  
+  // Check for booleans
+  if (share(v => /^(true|false|yes|no|y|n)$/i.test(v)) > TYPE_THRESHOLD) {
+    return ColumnType.BOOLEAN;
+  }
+  
+  // Check for URLs
+  if (share(v => /^https?:\/\//.test(v)) > TYPE_THRESHOLD) {
+    return ColumnType.URL;
+  }
+  
+  // Check for emails
+  if (share(v => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v)) > TYPE_THRESHOLD) {
+    return ColumnType.EMAIL;
+  }
+  
+  // Check for dates
+  if (share(v => !isNaN(Date.parse(v))) > TYPE_THRESHOLD) {
+    return ColumnType.DATE;
+  }
+  
+  return ColumnType.TEXT;
+}
@@ -0,0 +1,348 @@
+/**
+ * Condition expressions for conditional content
+ * Conditions such as `audience == "internal" && !draft` are parsed into a small syntax tree and
+ * evaluated against template variables; nothing is ever passed to eval or Function.
+ */
+
+import type { TemplateValue } from '../types';
+import { lookupVariable, TemplateVariables } from './templateVariables';
+import { Result, Ok, Err } from './result';
+
+/**
+ * Comparison operators
+ */
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Parsed condition
+ */
+export type Condition =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'variable'; name: string }
+  | { type: 'not'; operand: Condition }
+  | { type: 'and' | 'or'; left: Condition; right: Condition }
+  | { type: 'compare'; operator: ComparisonOperator; left: Condition; right: Condition };
+
+/**
+ * Condition parsing error
+ */
+export interface ConditionError {
+  code: 'INVALID_CONDITION';
+  message: string;
+}
+
+/**
+ * Token of a condition expression
+ */
+type Token =
+  | { type: 'operator'; value: string }
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'variable'; name: string };
+
+/**
+ * Operators, longest first; "=" is accepted for "=="
+ */
+const OPERATORS = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '=', '!', '(', ')'];
+
+/**
+ * Keywords usable instead of operators, e.g. in references where "|" separates parameters
+ */
+const KEYWORD_OPERATORS: Readonly<Record<string, string>> = {
+  and: '&&',
+  or: '||',
+  not: '!'
+};
+
+/**
+ * Variable name, optionally written as a template variable (e.g., "product.edition" or "{{env}}")
+ */
+const VARIABLE_PATTERN = /^(?:\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}|([A-Za-z_][\w.-]*))/;
+
+/**
+ * Number literal
+ */
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?(?![\w.])/;
+
+/**
+ * String literal in double or single quotes, with backslash escapes
+ */
+const STRING_PATTERN = /^(["'])((?:\\.|(?!\1)[^\\])*)\1/;
+
+/**
+ * Numeric string, compared as a number
+ */
+const NUMERIC_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+/**
+ * Split a condition into tokens
+ */
+function tokenize(expression: string): Result<Token[], string> {
+  const tokens: Token[] = [];
+  let rest = expression.trim();
+
+  while (rest !== '') {
+    const text = rest;
+    const operator = OPERATORS.find(candidate => text.startsWith(candidate));
+    const quoted = text.match(STRING_PATTERN);
+    const number = text.match(NUMBER_PATTERN);
+    const variable = text.match(VARIABLE_PATTERN);
+
+    let length: number;
+    if (quoted) {
+      tokens.push({ type: 'literal', value: quoted[2].replace(/\\(.)/g, '$1') });
+      length = quoted[0].length;
+    } else if (number) {
+      tokens.push({ type: 'literal', value: Number(number[0]) });
+      length = number[0].length;
+    } else if (variable) {
+      const name = variable[1] ?? variable[2];
+      if (variable[2] !== undefined && Object.prototype.hasOwnProperty.call(KEYWORD_OPERATORS, name)) {
+        tokens.push({ type: 'operator', value: KEYWORD_OPERATORS[name] });
+      } else if (variable[2] !== undefined && /^(true|false|null)$/.test(name)) {
+        tokens.push({ type: 'literal', value: name === 'null' ? null : name === 'true' });
+      } else {
+        tokens.push({ type: 'variable', name });
+      }
+      length = variable[0].length;
+    } else if (operator) {
+      tokens.push({ type: 'operator', value: operator === '=' ? '==' : operator });
+      length = operator.length;
+    } else {
+      return Err(`Unexpected "${text[0]}"`);
+    }
+
+    rest = text.substring(length).trimStart();
+  }
+
+  return Ok(tokens);
+}
+
+/**
+ * Error thrown inside the parser and returned by parseCondition
+ */
+class ConditionSyntaxError extends Error {}
+
+/**
+ * Recursive descent parser over condition tokens
+ * Precedence from loosest to tightest: ||, &&, !, comparisons.
+ */
+class ConditionParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  /**
+   * Parse the whole expression
+   */
+  parse(): Condition {
+    const condition = this.parseOr();
+    const rest = this.tokens[this.position];
+    if (rest) {
+      throw new ConditionSyntaxError(`Unexpected ${describeToken(rest)}`);
+    }
+    return condition;
+  }
+
+  private parseOr(): Condition {
+    let left = this.parseAnd();
+    while (this.accept('||')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Condition {
+    let left = this.parseNot();
+    while (this.accept('&&')) {
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Condition {
+    return this.accept('!') ? { type: 'not', operand: this.parseNot() } : this.parseComparison();
+  }
+
+  private parseComparison(): Condition {
+    const left = this.parseOperand();
+    const next = this.tokens[this.position];
+    if (next?.type === 'operator' && ['==', '!=', '>', '>=', '<', '<='].includes(next.value)) {
+      this.position++;
+      return { type: 'compare', operator: next.value as ComparisonOperator, left, right: this.parseOperand() };
+    }
+    return left;
+  }
+
+  private parseOperand(): Condition {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new ConditionSyntaxError('Expected a value at end of condition');
+    }
+    this.position++;
+
+    if (token.type === 'literal') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'variable') {
+      return { type: 'variable', name: token.name };
+    }
+    if (token.value === '(') {
+      const condition = this.parseOr();
+      if (!this.accept(')')) {
+        throw new ConditionSyntaxError('Expected ")"');
+      }
+      return condition;
+    }
+    throw new ConditionSyntaxError(`Expected a value before "${token.value}"`);
+  }
+
+  /**
+   * Consume the next token if it is the given operator
+   */
+  private accept(operator: string): boolean {
+    const token = this.tokens[this.position];
+    if (token?.type === 'operator' && token.value === operator) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Describe a token in error messages
+ */
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'operator':
+      return `"${token.value}"`;
+    case 'variable':
+      return `"${token.name}"`;
+    case 'literal':
+      return JSON.stringify(token.value);
+  }
+}
+
+/**
+ * Parse a condition expression
+ * Variables are referenced by name (or as {{name}}), strings are quoted and numbers, true, false
+ * and null are literals. Operators: == (or =), !=, >, >=, <, <=, !, && and ||, with parentheses;
+ * "and", "or" and "not" may be written instead of &&, || and !.
+ * @param expression The condition (e.g., 'audience == "internal" and version >= 2')
+ */
+export function parseCondition(expression: string): Result<Condition, ConditionError> {
+  const tokens = tokenize(expression);
+  if (!tokens.ok) {
+    return Err({ code: 'INVALID_CONDITION', message: `${tokens.error} in condition "${expression}"` });
+  }
+  if (tokens.value.length === 0) {
+    return Err({ code: 'INVALID_CONDITION', message: 'Empty condition' });
+  }
+
+  try {
+    return Ok(new ConditionParser(tokens.value).parse());
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return Err({ code: 'INVALID_CONDITION', message: `${error.message} in condition "${expression}"` });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check if a value counts as true: anything but undefined, null, false, 0, "" and "false"
+ */
+export function isTruthy(value: TemplateValue): boolean {
+  return value !== undefined && value !== null && value !== false && value !== 0 && value !== '' && value !== 'false';
+}
+
+/**
+ * Convert a defined value to a string for comparison
+ */
+function toText(value: NonNullable<TemplateValue>): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Convert a value for ordering: numbers and numeric strings to numbers, anything else to a string
+ */
+function toComparable(value: NonNullable<TemplateValue>): string | number {
+  if (typeof value === 'number' || (typeof value === 'string' && NUMERIC_PATTERN.test(value))) {
+    return Number(value);
+  }
+  return toText(value);
+}
+
+/**
+ * Compare two values
+ * Undefined variables and null are only equal to each other and never ordered. == and != compare
+ * numbers numerically and anything else as exact strings ("v01" != "v1", "1.0" != "1"). Ordering
+ * compares numbers and numeric strings numerically, other values as strings with embedded numbers
+ * in numeric order ("2.10.1" > "2.9.0").
+ */
+function compare(operator: ComparisonOperator, left: TemplateValue, right: TemplateValue): boolean {
+  if (left === undefined || left === null || right === undefined || right === null) {
+    const equal = (left ?? null) === (right ?? null);
+    return operator === '==' ? equal : operator === '!=' ? !equal : false;
+  }
+
+  if (operator === '==' || operator === '!=') {
+    const equal = typeof left === 'number' && typeof right === 'number' ? left === right : toText(left) === toText(right);
+    return operator === '==' ? equal : !equal;
+  }
+
+  const a = toComparable(left);
+  const b = toComparable(right);
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+  switch (operator) {
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+  }
+}
+
+/**
+ * Get the value of a condition operand
+ */
+function valueOf(condition: Condition, variables: TemplateVariables): TemplateValue {
+  switch (condition.type) {
+    case 'literal':
+      return condition.value;
+    case 'variable': {
+      const found = lookupVariable(variables, condition.name);
+      return typeof found?.value === 'function' ? found.value() : found?.value;
+    }
+    default:
+      return evaluateCondition(condition, variables);
+  }
+}
+
+/**
+ * Evaluate a parsed condition against variables
+ * A variable on its own is true when it is defined and truthy (see isTruthy).
+ */
+export function evaluateCondition(condition: Condition, variables: TemplateVariables): boolean {
+  switch (condition.type) {
+    case 'not':
+      return !evaluateCondition(condition.operand, variables);
+    case 'and':
+      return evaluateCondition(condition.left, variables) && evaluateCondition(condition.right, variables);
+    case 'or':
+      return evaluateCondition(condition.left, variables) || evaluateCondition(condition.right, variables);
+    case 'compare':
+      return compare(condition.operator, valueOf(condition.left, variables), valueOf(condition.right, variables));
+    default:
+      return isTruthy(valueOf(condition, variables));
+  }
+}
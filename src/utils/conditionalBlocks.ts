@@ -0,0 +1,178 @@
+/**
+ * Conditional blocks in Markdown
+ * Regions between `<!-- if condition -->`, `<!-- elseif condition -->`, `<!-- else -->` and
+ * `<!-- endif -->` markers are kept or left out depending on their conditions. Markers must be
+ * on lines of their own and are never output; markers inside code blocks are ordinary text.
+ */
+
+import { CodeFenceTracker } from './codeFenceTracker';
+import { parseCondition, evaluateCondition, ConditionError } from './conditionEvaluator';
+import type { TemplateVariables } from './templateVariables';
+
+/**
+ * Conditional block marker: keyword and condition (e.g., '<!-- if audience == "internal" -->')
+ */
+const MARKER_PATTERN = /^ {0,3}<!--\s*(else\s+if|elseif|endif|else|if)(?=\s|-->)(.*?)-->\s*$/i;
+
+/**
+ * Conditional block being read
+ */
+interface OpenBlock {
+  /**
+   * Line of the opening marker
+   */
+  line: number;
+
+  /**
+   * Whether the lines around the block are output
+   */
+  enclosingActive: boolean;
+
+  /**
+   * Whether the current branch is output
+   */
+  active: boolean;
+
+  /**
+   * Whether an earlier branch was output, so later branches are not
+   */
+  taken: boolean;
+
+  /**
+   * Whether the else branch has started
+   */
+  inElse: boolean;
+}
+
+/**
+ * Result of reading a line
+ */
+export interface ConditionalLine {
+  /**
+   * Whether the line is output: false for markers and lines of branches not taken
+   */
+  output: boolean;
+
+  /**
+   * Error for an invalid or misplaced marker
+   */
+  error?: ConditionError;
+}
+
+/**
+ * Tracks conditional blocks while reading Markdown line by line
+ */
+export class ConditionalBlockTracker {
+  private blocks: OpenBlock[] = [];
+  private fence = new CodeFenceTracker();
+  private lineNumber = 0;
+
+  /**
+   * @param variables Provides the variables conditions are evaluated against when a marker is read
+   */
+  constructor(private readonly variables: () => TemplateVariables) {}
+
+  /**
+   * Whether lines are output at this point (every enclosing branch is taken)
+   */
+  get active(): boolean {
+    return this.blocks.length === 0 || this.blocks[this.blocks.length - 1].active;
+  }
+
+  /**
+   * Update state with the next line
+   */
+  update(line: string): ConditionalLine {
+    this.lineNumber++;
+    const marker = this.fence.update(line) ? null : line.match(MARKER_PATTERN);
+    if (!marker) {
+      return { output: this.active };
+    }
+
+    const keyword = marker[1].toLowerCase().replace(/\s+/, '');
+    const expression = marker[2].trim();
+    const block = this.blocks[this.blocks.length - 1];
+
+    if (keyword === 'if') {
+      const enclosingActive = this.active;
+      const holds = this.evaluate(expression, enclosingActive);
+      this.blocks.push({ line: this.lineNumber, enclosingActive, active: holds.value, taken: holds.value, inElse: false });
+      return { output: false, error: holds.error };
+    }
+
+    if (!block) {
+      return this.misplaced(`<!-- ${keyword} --> without an opening <!-- if -->`);
+    }
+
+    if (keyword === 'endif' || keyword === 'else') {
+      if (expression !== '') {
+        return this.misplaced(`Unexpected condition after <!-- ${keyword} -->`);
+      }
+      if (keyword === 'endif') {
+        this.blocks.pop();
+        return { output: false };
+      }
+    }
+
+    if (block.inElse) {
+      return this.misplaced(`<!-- ${keyword} --> after <!-- else -->`);
+    }
+
+    if (keyword === 'else') {
+      block.active = block.enclosingActive && !block.taken;
+      block.taken = true;
+      block.inElse = true;
+      return { output: false };
+    }
+
+    // Later branches are only evaluated while no earlier branch was taken
+    const holds = this.evaluate(expression, block.enclosingActive && !block.taken);
+    block.active = holds.value;
+    block.taken = block.taken || holds.value;
+    return { output: false, error: holds.error };
+  }
+
+  /**
+   * Finish reading the document
+   * @returns An error if a block was not closed
+   */
+  end(): ConditionError | undefined {
+    const unclosed = this.blocks[0];
+    this.blocks = [];
+    return unclosed && {
+      code: 'INVALID_CONDITION',
+      message: `<!-- if --> without a closing <!-- endif --> (line ${unclosed.line})`
+    };
+  }
+
+  /**
+   * Reset state to read a new document
+   */
+  reset(): void {
+    this.blocks = [];
+    this.fence.reset();
+    this.lineNumber = 0;
+  }
+
+  /**
+   * Parse a condition and evaluate it if its branch can be output
+   * Invalid conditions are reported and count as false.
+   */
+  private evaluate(expression: string, reachable: boolean): { value: boolean; error?: ConditionError } {
+    const condition = parseCondition(expression);
+    if (!condition.ok) {
+      return {
+        value: false,
+        error: { code: condition.error.code, message: `${condition.error.message} (line ${this.lineNumber})` }
+      };
+    }
+    return { value: reachable && evaluateCondition(condition.value, this.variables()) };
+  }
+
+  /**
+   * Report a marker that does not fit the open blocks; the marker itself is not output
+   */
+  private misplaced(message: string): ConditionalLine {
+    return { output: false, error: { code: 'INVALID_CONDITION', message: `${message} (line ${this.lineNumber})` } };
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * CSV and TSV files transcluded into Markdown are rendered as GFM pipe tables
+ * Reference parameters select, rename, filter, sort and align columns:
+ * `![[data/browsers.csv|columns=name,version|filter=engine=Blink|order-by=-version]]`
+ */
+
+import * as path from 'path';
+import { getFileName } from './codeLanguages';
+import { ColumnType, detectColumnType, isNumberValue } from './columnTypes';
+import { Result, Ok, Err } from './result';
+
+/**
+ * Cell delimiters by file extension
+ */
+const TABLE_DELIMITERS: Readonly<Record<string, string>> = {
+  '.csv': ',',
+  '.tsv': '\t'
+};
+
+/**
+ * Filter conditions: column, operator and value (e.g., "version>=100")
+ */
+const FILTER_PATTERN = /^(.+?)(!=|>=|<=|=|>|<)(.*)$/;
+
+/**
+ * Column alignments accepted by the align parameter
+ */
+const ALIGNMENTS = ['left', 'center', 'right', 'auto'] as const;
+
+/**
+ * Column alignment in the rendered table
+ */
+export type ColumnAlignment = typeof ALIGNMENTS[number];
+
+/**
+ * Error rendering a table
+ */
+export interface CsvTableError {
+  code: 'INVALID_CSV' | 'UNKNOWN_COLUMN' | 'INVALID_TABLE_OPTION';
+  message: string;
+}
+
+/**
+ * Row filter condition
+ */
+export interface TableFilter {
+  column: string;
+  operator: '=' | '!=' | '>' | '>=' | '<' | '<=';
+  value: string;
+}
+
+/**
+ * Sort key
+ */
+export interface TableSortKey {
+  column: string;
+  descending: boolean;
+}
+
+/**
+ * Options for rendering a table, parsed from reference parameters
+ */
+export interface TableOptions {
+  /**
+   * Columns to show, in order (default: all columns)
+   */
+  columns?: string[];
+
+  /**
+   * Header text by column name
+   */
+  rename?: Record<string, string>;
+
+  /**
+   * Conditions every shown row must meet
+   */
+  filters?: TableFilter[];
+
+  /**
+   * Sort keys, applied in order
+   */
+  sort?: TableSortKey[];
+
+  /**
+   * Alignment of each shown column; number columns are right-aligned by default
+   */
+  align?: ColumnAlignment[];
+
+  /**
+   * Whether to group the digits of number columns (e.g., "12,500")
+   */
+  formatNumbers?: boolean;
+}
+
+/**
+ * Get the cell delimiter of a CSV or TSV file
+ * @param filePath Path or URL of the file
+ * @returns The delimiter, or undefined if the file is not a table
+ */
+export function getTableDelimiter(filePath: string): string | undefined {
+  return TABLE_DELIMITERS[path.extname(getFileName(filePath)).toLowerCase()];
+}
+
+/**
+ * Parse delimited text into rows of cells
+ * Quoted cells may contain delimiters, line breaks and doubled quotes (RFC 4180).
+ * @param content The file content
+ * @param delimiter The cell delimiter
+ */
+export function parseDelimited(content: string, delimiter: string): Result<string[][], CsvTableError> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+
+  const endRow = (): void => {
+    row.push(cell);
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return Err({ code: 'INVALID_CSV', message: `Unclosed quoted cell at line ${line}` });
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return Ok(rows);
+}
+
+/**
+ * Split a comma-separated parameter value, dropping empty entries
+ */
+function splitList(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Parse the table options of a reference
+ * @param parameters Reference parameters: columns, rename, filter, order-by, align and format
+ */
+export function parseTableOptions(parameters: Record<string, string> = {}): Result<TableOptions, CsvTableError> {
+  const options: TableOptions = {};
+  const invalid = (message: string): Result<TableOptions, CsvTableError> =>
+    Err({ code: 'INVALID_TABLE_OPTION', message });
+
+  if (parameters.columns !== undefined) {
+    options.columns = splitList(parameters.columns);
+  }
+
+  if (parameters.rename !== undefined) {
+    options.rename = {};
+    for (const entry of splitList(parameters.rename)) {
+      const colonIndex = entry.indexOf(':');
+      if (colonIndex <= 0) {
+        return invalid(`Invalid rename "${entry}": expected column:header`);
+      }
+      options.rename[entry.substring(0, colonIndex).trim()] = entry.substring(colonIndex + 1).trim();
+    }
+  }
+
+  if (parameters.filter !== undefined) {
+    options.filters = [];
+    for (const entry of splitList(parameters.filter)) {
+      const match = entry.match(FILTER_PATTERN);
+      if (!match) {
+        return invalid(`Invalid filter "${entry}": expected a condition like column=value or column>=10`);
+      }
+      options.filters.push({
+        column: match[1].trim(),
+        operator: match[2] as TableFilter['operator'],
+        value: match[3].trim()
+      });
+    }
+  }
+
+  // Not "sort", which orders the files of glob and directory references
+  if (parameters['order-by'] !== undefined) {
+    options.sort = splitList(parameters['order-by']).map(entry => ({
+      column: entry.replace(/^-/, ''),
+      descending: entry.startsWith('-')
+    }));
+  }
+
+  if (parameters.align !== undefined) {
+    const align = parameters.align.split(',').map(entry => entry.trim().toLowerCase() || 'auto');
+    const unknown = align.find(entry => !(ALIGNMENTS as readonly string[]).includes(entry));
+    if (unknown !== undefined) {
+      return invalid(`Invalid alignment "${unknown}": expected ${ALIGNMENTS.join(', ')}`);
+    }
+    options.align = align as ColumnAlignment[];
+  }
+
+  if (parameters.format !== undefined) {
+    if (parameters.format !== 'numbers') {
+      return invalid(`Invalid format "${parameters.format}": expected numbers`);
+    }
+    options.formatNumbers = true;
+  }
+
+  return Ok(options);
+}
+
+/**
+ * Compare two cells, numerically when both are numbers
+ */
+function compareCells(a: string, b: string): number {
+  if (isNumberValue(a) && isNumberValue(b)) {
+    return parseFloat(a) - parseFloat(b);
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Check if a cell meets a filter condition
+ */
+function matchesFilter(cell: string, filter: TableFilter): boolean {
+  const comparison = compareCells(cell, filter.value);
+  switch (filter.operator) {
+    case '=':
+      return comparison === 0;
+    case '!=':
+      return comparison !== 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+  }
+}
+
+/**
+ * Escape a cell for a GFM pipe table
+ * Pipes are escaped and line breaks become <br>, so each row stays on one line.
+ */
+export function escapeTableCell(cell: string): string {
+  return cell.trim().replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Group the digits of a number (e.g., "12500.5" becomes "12,500.5")
+ */
+function formatNumber(value: string): string {
+  const [integer, fraction] = value.trim().split('.');
+  const grouped = integer.replace(/\B(?=(\d{3})+$)/g, ',');
+  return fraction === undefined ? grouped : `${grouped}.${fraction}`;
+}
+
+/**
+ * Separator cell for a column alignment
+ */
+function alignmentMarker(alignment: ColumnAlignment | undefined, type: ColumnType): string {
+  switch (alignment ?? 'auto') {
+    case 'left':
+      return ':---';
+    case 'center':
+      return ':---:';
+    case 'right':
+      return '---:';
+    default:
+      return type === ColumnType.NUMBER ? '---:' : '---';
+  }
+}
+
+/**
+ * Render delimited text as a GFM pipe table
+ * The first row is the header. Rows are padded or cut to the header's width.
+ * @param content The file content
+ * @param delimiter The cell delimiter
+ * @param options Column selection, renaming, filtering, sorting, alignment and number formatting
+ */
+export function renderTable(
+  content: string,
+  delimiter: string,
+  options: TableOptions = {}
+): Result<string, CsvTableError> {
+  const parsed = parseDelimited(content, delimiter);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const [header, ...records] = parsed.value;
+  if (!header) {
+    return Err({ code: 'INVALID_CSV', message: 'Table has no header row' });
+  }
+
+  const names = header.map(name => name.trim());
+  const columnIndex = (column: string): Result<number, CsvTableError> => {
+    const index = names.indexOf(column);
+    return index === -1
+      ? Err({ code: 'UNKNOWN_COLUMN', message: `Unknown column "${column}": expected one of ${names.join(', ')}` })
+      : Ok(index);
+  };
+
+  let rows = records.map(record => names.map((_name, index) => record[index] ?? ''));
+  const types = names.map((_name, index) => detectColumnType(rows.map(row => row[index]).filter(cell => cell.trim())));
+
+  for (const filter of options.filters ?? []) {
+    const index = columnIndex(filter.column);
+    if (!index.ok) {
+      return index;
+    }
+    rows = rows.filter(row => matchesFilter(row[index.value].trim(), filter));
+  }
+
+  if (options.sort) {
+    const keys: { index: number; descending: boolean }[] = [];
+    for (const key of options.sort) {
+      const index = columnIndex(key.column);
+      if (!index.ok) {
+        return index;
+      }
+      keys.push({ index: index.value, descending: key.descending });
+    }
+    rows = [...rows].sort((a, b) => {
+      for (const { index, descending } of keys) {
+        const comparison = compareCells(a[index].trim(), b[index].trim());
+        if (comparison !== 0) {
+          return descending ? -comparison : comparison;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const shown: number[] = [];
+  for (const column of options.columns ?? names) {
+    const index = columnIndex(column);
+    if (!index.ok) {
+      return index;
+    }
+    shown.push(index.value);
+  }
+
+  const renderCell = (cell: string, index: number): string =>
+    options.formatNumbers && types[index] === ColumnType.NUMBER && isNumberValue(cell)
+      ? formatNumber(cell)
+      : escapeTableCell(cell);
+  const renderRow = (cells: string[]): string => `| ${cells.join(' | ')} |`;
+
+  return Ok([
+    renderRow(shown.map(index => escapeTableCell(options.rename?.[names[index]] ?? names[index]))),
+    renderRow(shown.map((index, position) => alignmentMarker(options.align?.[position], types[index]))),
+    ...rows.map(row => renderRow(shown.map(index => renderCell(row[index], index))))
+  ].join('\n'));
+}
@@ -0,0 +1,248 @@
+/**
+ * Data files as template variable sources
+ * JSON, YAML and .env files are loaded into variables namespaced by file name,
+ * so `docs/data/product.yaml` provides `{{product.version}}`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TemplateValue, TransclusionOptions } from '../types';
+import { parseYaml } from './yamlParser';
+import { Result, Ok, Err } from './result';
+
+/**
+ * Formats of data files
+ */
+export type DataFormat = 'json' | 'yaml' | 'env';
+
+/**
+ * Error loading a data source
+ */
+export interface DataSourceError {
+  code: 'DATA_SOURCE_NOT_FOUND' | 'UNSUPPORTED_DATA_FORMAT' | 'INVALID_DATA' | 'READ_ERROR';
+  message: string;
+}
+
+/**
+ * Data file formats by extension
+ */
+const DATA_FORMATS: Readonly<Record<string, DataFormat>> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.env': 'env'
+};
+
+/**
+ * Variable assignment in a .env file (e.g., "export API_URL=https://api.example.org")
+ */
+const ENV_LINE_PATTERN = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+
+/**
+ * Get the format of a data file from its name
+ * @returns The format, or undefined if the file is not a data file
+ */
+export function getDataFormat(filePath: string): DataFormat | undefined {
+  const fileName = path.basename(filePath);
+  return fileName === '.env' ? 'env' : DATA_FORMATS[path.extname(fileName).toLowerCase()];
+}
+
+/**
+ * Get the variable namespace of a data file: its name without extension ("env" for .env)
+ */
+export function getDataNamespace(filePath: string): string {
+  const fileName = path.basename(filePath);
+  return fileName === '.env' ? 'env' : path.basename(fileName, path.extname(fileName));
+}
+
+/**
+ * Parse a .env file into variables
+ * Values may be double-quoted (with \n escapes), single-quoted (literal) or bare with a trailing # comment.
+ */
+export function parseEnv(content: string): Result<Record<string, string>, string> {
+  const variables: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = line.match(ENV_LINE_PATTERN);
+    if (!match) {
+      return Err(`Expected KEY=value at line ${index + 1}`);
+    }
+
+    const [, key, value] = match;
+    const quoted = value.match(/^(["'])((?:\\.|(?!\1).)*)\1\s*(?:#.*)?$/);
+    if (quoted) {
+      variables[key] = quoted[1] === '"'
+        ? quoted[2].replace(/\\([nrt"\\])/g, (_escape, char: string) =>
+          ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[char] ?? char)
+        : quoted[2];
+    } else if (/^["']/.test(value)) {
+      return Err(`Unclosed quoted value at line ${index + 1}`);
+    } else {
+      variables[key] = value.replace(/\s+#.*$/, '').trim();
+    }
+  }
+
+  return Ok(variables);
+}
+
+/**
+ * Parse the content of a data file
+ * @param content The file content
+ * @param format The file format
+ * @param source The file path, used in error messages
+ */
+export function parseDataFile(
+  content: string,
+  format: DataFormat,
+  source: string
+): Result<TemplateValue, DataSourceError> {
+  const text = content.replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case 'json':
+      try {
+        return Ok(JSON.parse(text) as TemplateValue);
+      } catch (error) {
+        return Err({ code: 'INVALID_DATA', message: `Invalid JSON in ${source}: ${(error as Error).message}` });
+      }
+
+    case 'yaml': {
+      const parsed = parseYaml(text);
+      return parsed.ok
+        ? parsed
+        : Err({ code: 'INVALID_DATA', message: `Invalid YAML in ${source}: ${parsed.error.message}` });
+    }
+
+    case 'env': {
+      const parsed = parseEnv(text);
+      return parsed.ok
+        ? parsed
+        : Err({ code: 'INVALID_DATA', message: `Invalid .env file ${source}: ${parsed.error}` });
+    }
+  }
+}
+
+/**
+ * Check if a value is a plain object (not an array, date or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, TemplateValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Merge data into existing data: objects are merged key by key, other values are replaced
+ */
+function mergeData(target: TemplateValue, source: TemplateValue): TemplateValue {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source;
+  }
+
+  const merged: Record<string, TemplateValue> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    merged[key] = key in merged ? mergeData(merged[key], value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Load a data file into its namespace
+ */
+function loadDataFile(
+  filePath: string,
+  source: string,
+  data: Record<string, TemplateValue>
+): Result<void, DataSourceError> {
+  const format = getDataFormat(filePath);
+  if (!format) {
+    return Err({
+      code: 'UNSUPPORTED_DATA_FORMAT',
+      message: `Unsupported data file (expected .json, .yaml, .yml or .env): ${source}`
+    });
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    return Err({ code: 'READ_ERROR', message: `Failed to read data source ${source}: ${(error as Error).message}` });
+  }
+
+  const parsed = parseDataFile(content, format, source);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const namespace = getDataNamespace(filePath);
+  data[namespace] = namespace in data ? mergeData(data[namespace], parsed.value) : parsed.value;
+  return Ok(undefined);
+}
+
+/**
+ * Load data files and directories of data files into namespaced template variables
+ * Each file provides one namespace named after the file; files of a directory are loaded in
+ * name order. Namespaces loaded from several files are merged, later files taking precedence.
+ * @param sources Paths of data files or directories
+ * @param basePath Directory relative sources are resolved against
+ * @returns Variables by namespace (e.g., { product: { version: '2.1.0' } })
+ */
+export function loadDataSources(
+  sources: string[],
+  basePath = process.cwd()
+): Result<Record<string, TemplateValue>, DataSourceError> {
+  const data: Record<string, TemplateValue> = {};
+
+  for (const source of sources) {
+    const sourcePath = path.resolve(basePath, source);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(sourcePath);
+    } catch {
+      return Err({ code: 'DATA_SOURCE_NOT_FOUND', message: `Data source not found: ${source}` });
+    }
+
+    let files = [sourcePath];
+    if (stats.isDirectory()) {
+      try {
+        files = fs.readdirSync(sourcePath)
+          .filter(name => getDataFormat(name) !== undefined)
+          .sort()
+          .map(name => path.join(sourcePath, name));
+      } catch (error) {
+        return Err({ code: 'READ_ERROR', message: `Failed to read data source ${source}: ${(error as Error).message}` });
+      }
+    }
+
+    for (const file of files) {
+      const loaded = loadDataFile(file, stats.isDirectory() ? path.join(source, path.basename(file)) : source, data);
+      if (!loaded.ok) {
+        return loaded;
+      }
+    }
+  }
+
+  return Ok(data);
+}
+
+/**
+ * Load the data sources of transclusion options into their template variables
+ * Template variables given directly take precedence over loaded ones.
+ * @returns The options with the loaded variables and without data sources, so they are only loaded once
+ */
+export function applyDataSources(options: TransclusionOptions): Result<TransclusionOptions, DataSourceError> {
+  if (!options.dataSources) {
+    return Ok(options);
+  }
+
+  const data = loadDataSources(options.dataSources, options.basePath);
+  if (!data.ok) {
+    return data;
+  }
+  const { dataSources: _dataSources, ...rest } = options;
+  return Ok({ ...rest, templateVariables: { ...data.value, ...options.templateVariables } });
+}
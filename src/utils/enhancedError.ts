@@ -46,11 +46,13 @@ export interface EnhancedTransclusionError extends TransclusionError {
 export enum ErrorType {
   FILE_NOT_FOUND = 'FILE_NOT_FOUND',
   HEADING_NOT_FOUND = 'HEADING_NOT_FOUND', 
+  BLOCK_NOT_FOUND = 'BLOCK_NOT_FOUND',
   VARIABLE_UNDEFINED = 'VARIABLE_UNDEFINED',
   CIRCULAR_REFERENCE = 'CIRCULAR_REFERENCE',
   PATH_TRAVERSAL = 'PATH_TRAVERSAL',
   INVALID_SYNTAX = 'INVALID_SYNTAX',
-  MAX_DEPTH_EXCEEDED = 'MAX_DEPTH_EXCEEDED'
+  MAX_DEPTH_EXCEEDED = 'MAX_DEPTH_EXCEEDED',
+  POLICY_VIOLATION = 'POLICY_VIOLATION'
 }
 
 /**
@@ -139,6 +141,47 @@ export class EnhancedErrorFactory {
     };
   }
 
+  /**
+   * Create a block reference not found error with block id suggestions
+   */
+  static createBlockNotFoundError(
+    blockId: string,
+    fileName: string,
+    context: ErrorContext,
+    suggestions: Suggestion[]
+  ): EnhancedTransclusionError {
+    const fixActions: FixAction[] = [
+      {
+        description: 'Check block id spelling',
+        autofix: false
+      },
+      {
+        description: `Add a ^${blockId} marker to the target paragraph, list item or table`,
+        autofix: false
+      }
+    ];
+
+    if (suggestions.length > 0 && suggestions[0].confidence > 75) {
+      fixActions.unshift({
+        description: `Replace with '${suggestions[0].text}'`,
+        command: `sed -i 's/#^${blockId}/#${suggestions[0].text}/g' "${context.sourceFile}"`,
+        autofix: true
+      });
+    }
+
+    return {
+      message: `Block '^${blockId}' not found in '${fileName}'`,
+      path: fileName,
+      code: ErrorType.BLOCK_NOT_FOUND,
+      line: context.line,
+      errorType: ErrorType.BLOCK_NOT_FOUND,
+      context,
+      suggestions,
+      fixActions,
+      severity: 'error'
+    };
+  }
+
   /**
    * Create a variable undefined error with variable suggestions  
    */
@@ -246,6 +289,53 @@ export class EnhancedErrorFactory {
       severity: 'error'
     };
   }
+
+  /**
+   * Create an error for a file excluded by the allow and deny globs
+   */
+  static createPolicyViolationError(
+    message: string,
+    attemptedPath: string,
+    context: ErrorContext
+  ): EnhancedTransclusionError {
+    const denyPattern = getDenyPattern(message);
+
+    return {
+      message,
+      path: attemptedPath,
+      code: ErrorType.POLICY_VIOLATION,
+      line: context.line,
+      errorType: ErrorType.POLICY_VIOLATION,
+      context,
+      suggestions: [],
+      fixActions: denyPattern !== null
+        ? [
+          {
+            description: `Remove or narrow the deny pattern "${denyPattern}" (--deny)`,
+            autofix: false
+          }
+        ]
+        : [
+          {
+            description: 'Add an allow pattern matching the file (--allow)',
+            autofix: false
+          },
+          {
+            description: 'Move the file into an allowed directory',
+            autofix: false
+          }
+        ],
+      severity: 'error'
+    };
+  }
+}
+
+/**
+ * Get the deny pattern named in a policy violation message, or null if no allow pattern matched
+ */
+export function getDenyPattern(message: string): string | null {
+  const match = message.match(/deny pattern "([^"]+)"/);
+  return match ? match[1] : null;
 }
 
 /**
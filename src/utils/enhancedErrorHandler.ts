@@ -74,9 +74,15 @@ export class EnhancedErrorHandler {
       case ErrorType.HEADING_NOT_FOUND:
         return this.enhanceHeadingNotFoundError(baseError, context, suggestionContext);
         
+      case ErrorType.BLOCK_NOT_FOUND:
+        return this.enhanceBlockNotFoundError(baseError, context, suggestionContext);
+        
       case ErrorType.VARIABLE_UNDEFINED:
         return this.enhanceVariableUndefinedError(baseError, context, suggestionContext);
         
+      case ErrorType.POLICY_VIOLATION:
+        return EnhancedErrorFactory.createPolicyViolationError(baseError.message, baseError.path, context);
+        
       default:
         return this.createBasicEnhancedError(baseError, options);
     }
@@ -151,6 +157,35 @@ export class EnhancedErrorHandler {
     );
   }
 
+  private async enhanceBlockNotFoundError(
+    baseError: TransclusionError,
+    context: any,
+    suggestionContext: SuggestionContext
+  ): Promise<EnhancedTransclusionError> {
+    const blockId = this.extractBlockId(baseError.message, context.reference);
+    
+    if (!blockId) {
+      return this.createBasicEnhancedError(baseError, { sourceFile: context.sourceFile, reference: context.reference, transclusionOptions: {} });
+    }
+    
+    const suggestions = await this.suggestionEngine.suggestBlocks(
+      blockId,
+      baseError.path,
+      suggestionContext
+    );
+    
+    const filteredSuggestions = suggestions
+      .filter(s => s.confidence >= this.config.minConfidence)
+      .slice(0, this.config.maxSuggestions);
+    
+    return EnhancedErrorFactory.createBlockNotFoundError(
+      blockId,
+      baseError.path,
+      context,
+      filteredSuggestions
+    );
+  }
+
   private async enhanceVariableUndefinedError(
     baseError: TransclusionError,
     context: any,
@@ -236,6 +271,10 @@ export class EnhancedErrorHandler {
       return ErrorType.HEADING_NOT_FOUND;
     }
     
+    if (message.includes('block') && message.includes('not found')) {
+      return ErrorType.BLOCK_NOT_FOUND;
+    }
+    
     if (message.includes('variable') && (message.includes('undefined') || message.includes('not defined'))) {
       return ErrorType.VARIABLE_UNDEFINED;
     }
@@ -267,6 +306,22 @@ export class EnhancedErrorHandler {
     return null;
   }
 
+  private extractBlockId(message: string, reference: string): string | null {
+    // Try to extract from reference first: ![[file#^block-id]]
+    const refMatch = reference.match(/!?\[\[[^#]*#\^([^\]|]*)\]\]/);
+    if (refMatch) {
+      return refMatch[1].trim();
+    }
+    
+    // Try to extract from error message
+    const msgMatch = message.match(/block ["']\^([^"']+)["']/i);
+    if (msgMatch) {
+      return msgMatch[1];
+    }
+    
+    return null;
+  }
+
   private extractVariableName(message: string): string | null {
     // Extract variable name from error message
     const match = message.match(/variable ["']([^"']+)["']/i);
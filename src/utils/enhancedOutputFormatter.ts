@@ -23,6 +23,7 @@ import {
   SuggestionEngine,
   type Suggestion
 } from './suggestionEngine';
+import { getDenyPattern } from './enhancedError';
 
 /**
  * Enhanced output formatter that provides intelligent error suggestions
@@ -128,6 +129,11 @@ export class EnhancedOutputFormatter implements OutputFormatter {
   }
 
   private async displayEnhancedError(error: TransclusionError): Promise<void> {
+    if (this.isPolicyViolationError(error)) {
+      this.displayPolicyViolation(error);
+      return;
+    }
+    
     const suggestions = await this.generateSuggestions(error);
     
     if (suggestions.length === 0) {
@@ -168,6 +174,13 @@ export class EnhancedOutputFormatter implements OutputFormatter {
         }
       }
       
+      if (this.isBlockNotFoundError(error)) {
+        const blockId = this.extractBlockId(error.message);
+        if (blockId) {
+          return await this.suggestionEngine.suggestBlocks(blockId, error.path, context);
+        }
+      }
+      
       if (this.isVariableUndefinedError(error)) {
         const variableName = this.extractVariableName(error.message);
         if (variableName) {
@@ -197,6 +210,13 @@ export class EnhancedOutputFormatter implements OutputFormatter {
       this.stderr.write('   • Check heading name spelling\n');
       this.stderr.write('   • Verify heading exists in target file\n');
       
+      if (suggestions.length > 0 && suggestions[0].confidence >= 75) {
+        this.stderr.write(`   • Replace with: ${suggestions[0].text}\n`);
+      }
+    } else if (this.isBlockNotFoundError(error)) {
+      this.stderr.write('   • Check block id spelling\n');
+      this.stderr.write('   • Verify the ^block-id marker exists in target file\n');
+      
       if (suggestions.length > 0 && suggestions[0].confidence >= 75) {
         this.stderr.write(`   • Replace with: ${suggestions[0].text}\n`);
       }
@@ -212,6 +232,21 @@ export class EnhancedOutputFormatter implements OutputFormatter {
     }
   }
 
+  private displayPolicyViolation(error: TransclusionError): void {
+    const denyPattern = getDenyPattern(error.message);
+    
+    this.stderr.write('\n');
+    this.stderr.write('🔒 Blocked by the transclusion policy\n');
+    this.stderr.write('💡 How to fix:\n');
+    if (denyPattern !== null) {
+      this.stderr.write(`   • Remove or narrow the deny pattern "${denyPattern}" (--deny)\n`);
+    } else {
+      this.stderr.write('   • Add an allow pattern matching the file (--allow)\n');
+      this.stderr.write('   • Move the file into an allowed directory\n');
+    }
+    this.stderr.write('\n');
+  }
+
   private displayErrorSummary(errors: TransclusionError[]): void {
     const errorTypes = errors.reduce((counts, error) => {
       const type = this.getErrorType(error);
@@ -233,11 +268,19 @@ export class EnhancedOutputFormatter implements OutputFormatter {
            error.code === 'FILE_NOT_FOUND';
   }
 
+  private isPolicyViolationError(error: TransclusionError): boolean {
+    return error.code === 'POLICY_VIOLATION';
+  }
+
   private isHeadingNotFoundError(error: TransclusionError): boolean {
     return error.message.toLowerCase().includes('heading') &&
            error.message.toLowerCase().includes('not found');
   }
 
+  private isBlockNotFoundError(error: TransclusionError): boolean {
+    return error.code === 'BLOCK_NOT_FOUND';
+  }
+
   private isVariableUndefinedError(error: TransclusionError): boolean {
     return error.message.toLowerCase().includes('variable') &&
            (error.message.toLowerCase().includes('undefined') ||
@@ -250,6 +293,11 @@ export class EnhancedOutputFormatter implements OutputFormatter {
     return match ? match[1] : null;
   }
 
+  private extractBlockId(message: string): string | null {
+    const match = message.match(/Block "\^([^"]+)" not found/i);
+    return match ? match[1] : null;
+  }
+
   private extractVariableName(message: string): string | null {
     const match = message.match(/variable ["']([^"']+)["']/i);
     return match ? match[1] : null;
@@ -258,7 +306,9 @@ export class EnhancedOutputFormatter implements OutputFormatter {
   private getErrorType(error: TransclusionError): string {
     if (this.isFileNotFoundError(error)) return 'File not found';
     if (this.isHeadingNotFoundError(error)) return 'Heading not found';
+    if (this.isBlockNotFoundError(error)) return 'Block not found';
     if (this.isVariableUndefinedError(error)) return 'Variable undefined';
+    if (this.isPolicyViolationError(error)) return 'Policy violation';
     if (error.message.toLowerCase().includes('circular')) return 'Circular reference';
     if (error.message.toLowerCase().includes('path traversal')) return 'Path traversal';
     return 'Other error';
@@ -0,0 +1,192 @@
+/**
+ * Expansion limits for nested transclusions
+ * A file including a fragment 10 times, which includes another fragment 10 times, and so on,
+ * stays within the depth limit and has no cycles, but its output grows exponentially.
+ * The budget caps the total number of includes, the total size of included content and
+ * the number of files a single file includes.
+ */
+
+import * as path from 'path';
+import type { TransclusionError } from '../types';
+import type { FrontmatterData } from './frontmatter';
+
+/**
+ * Default maximum number of includes in one document
+ */
+export const DEFAULT_MAX_INCLUDES = 10000;
+
+/**
+ * Default maximum total size of included content in bytes
+ */
+export const DEFAULT_MAX_INCLUDED_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Default maximum number of files included by a single file
+ */
+export const DEFAULT_MAX_FAN_OUT = 1000;
+
+/**
+ * Number of files listed in the summary of a limit error
+ */
+const SUMMARY_SIZE = 3;
+
+/**
+ * Limits enforced by an expansion budget
+ */
+export interface ExpansionLimits {
+  /**
+   * Maximum number of includes
+   */
+  maxIncludes: number;
+
+  /**
+   * Maximum total size of included content in bytes
+   */
+  maxIncludedBytes: number;
+
+  /**
+   * Maximum number of files included by a single file
+   */
+  maxFanOut: number;
+}
+
+/**
+ * Includes made so far by one occurrence of a file in the output
+ * A fragment included twice has two instances, each with its own fan-out.
+ */
+export interface IncludingFile {
+  /**
+   * Path of the including file, undefined for the input document
+   */
+  path?: string;
+
+  /**
+   * Number of files it included
+   */
+  fanOut: number;
+
+  /**
+   * Frontmatter fields of the including file, visible to the files it includes as {{parent.*}}
+   */
+  frontmatter?: FrontmatterData;
+}
+
+/**
+ * Tracks includes against the expansion limits
+ * Once a limit is exceeded, every further include is refused with the same error.
+ */
+export class ExpansionBudget {
+  private limits: ExpansionLimits;
+  private basePath: string;
+  private includes = 0;
+  private bytes = 0;
+  private includesByFile = new Map<string, number>();
+  private bytesByFile = new Map<string, number>();
+  private exceeded?: TransclusionError;
+
+  /**
+   * @param limits The limits to enforce
+   * @param basePath Base directory, used to shorten paths in error messages
+   */
+  constructor(limits: ExpansionLimits, basePath: string) {
+    this.limits = limits;
+    this.basePath = basePath;
+  }
+
+  /**
+   * The error of the exceeded limit, if any
+   */
+  get error(): TransclusionError | undefined {
+    return this.exceeded;
+  }
+
+  /**
+   * Record an include of a file
+   * @param includer The file instance containing the reference
+   * @param filePath Path of the included file
+   * @param content Content of the included file, before its own references are expanded
+   * @returns The limit error if the include exceeds a limit, or null if it is within the budget
+   */
+  include(includer: IncludingFile, filePath: string, content: string): TransclusionError | null {
+    if (this.exceeded) {
+      return this.exceeded;
+    }
+
+    const includerName = this.displayPath(includer.path);
+    const fileName = this.displayPath(filePath);
+    if (includer.fanOut + 1 > this.limits.maxFanOut) {
+      return this.exceed({
+        message: `Maximum fan-out (${this.limits.maxFanOut}) exceeded: ${includerName} includes more than ${this.limits.maxFanOut} files`,
+        path: includer.path ?? filePath,
+        code: 'MAX_FAN_OUT_EXCEEDED'
+      });
+    }
+
+    const size = Buffer.byteLength(content, 'utf8');
+    if (this.includes + 1 > this.limits.maxIncludes) {
+      return this.exceed({
+        message: `Maximum number of includes (${this.limits.maxIncludes}) exceeded including ${fileName} from ${includerName}; ` +
+          `most includes made by ${this.summarize(this.includesByFile, count => `${count}`)}`,
+        path: filePath,
+        code: 'MAX_INCLUDES_EXCEEDED'
+      });
+    }
+    if (this.bytes + size > this.limits.maxIncludedBytes) {
+      this.bytesByFile.set(fileName, (this.bytesByFile.get(fileName) ?? 0) + size);
+      return this.exceed({
+        message: `Maximum included size (${this.limits.maxIncludedBytes} bytes) exceeded including ${fileName} from ${includerName}; ` +
+          `most bytes included from ${this.summarize(this.bytesByFile, bytes => `${bytes} bytes`)}`,
+        path: filePath,
+        code: 'MAX_INCLUDED_BYTES_EXCEEDED'
+      });
+    }
+
+    includer.fanOut++;
+    this.includes++;
+    this.bytes += size;
+    this.includesByFile.set(includerName, (this.includesByFile.get(includerName) ?? 0) + 1);
+    this.bytesByFile.set(fileName, (this.bytesByFile.get(fileName) ?? 0) + size);
+    return null;
+  }
+
+  /**
+   * Forget all recorded includes
+   */
+  reset(): void {
+    this.includes = 0;
+    this.bytes = 0;
+    this.includesByFile.clear();
+    this.bytesByFile.clear();
+    this.exceeded = undefined;
+  }
+
+  /**
+   * Remember the error of the exceeded limit
+   */
+  private exceed(error: TransclusionError): TransclusionError {
+    this.exceeded = error;
+    return error;
+  }
+
+  /**
+   * List the files with the largest totals, e.g. "lol.md (900), index.md (10)"
+   * @param totals Totals by displayed file name
+   */
+  private summarize(totals: Map<string, number>, format: (total: number) => string): string {
+    return Array.from(totals)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SUMMARY_SIZE)
+      .map(([file, total]) => `${file} (${format(total)})`)
+      .join(', ');
+  }
+
+  /**
+   * Show file paths relative to the base path; the input document has no path
+   */
+  private displayPath(filePath: string | undefined): string {
+    if (filePath === undefined) {
+      return 'the input document';
+    }
+    return path.isAbsolute(filePath) ? path.relative(this.basePath, filePath) || filePath : filePath;
+  }
+}
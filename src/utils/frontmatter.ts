@@ -0,0 +1,236 @@
+/**
+ * Frontmatter as structured data
+ * YAML (---) and TOML (+++) frontmatter blocks are parsed into objects that are exposed as
+ * template variables and can be merged into the frontmatter of the output document.
+ */
+
+import type { TemplateValue } from '../types';
+import { parseYaml, stringifyYaml } from './yamlParser';
+import { Result, Ok, Err } from './result';
+
+/**
+ * Fields of a frontmatter block
+ */
+export type FrontmatterData = Record<string, TemplateValue>;
+
+/**
+ * Frontmatter parsing error
+ */
+export interface FrontmatterError {
+  code: 'INVALID_FRONTMATTER';
+  message: string;
+}
+
+/**
+ * Frontmatter block syntax
+ */
+export type FrontmatterType = 'yaml' | 'toml';
+
+/**
+ * Frontmatter delimiters by syntax
+ */
+const DELIMITERS: Readonly<Record<FrontmatterType, string>> = {
+  yaml: '---',
+  toml: '+++'
+};
+
+/**
+ * TOML table header (e.g., "[author]" or "[params.social]")
+ */
+const TOML_TABLE_PATTERN = /^\[\s*([^[\]]+?)\s*\]$/;
+
+/**
+ * TOML key/value pair (e.g., 'title = "Guide"')
+ */
+const TOML_ENTRY_PATTERN = /^("[^"]*"|[A-Za-z0-9_-]+)\s*=\s*(.+)$/;
+
+/**
+ * Check if a value is a plain object (not an array, date or null)
+ */
+function isPlainObject(value: unknown): value is FrontmatterData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Remove the quotes of a quoted TOML key
+ */
+function unquoteKey(key: string): string {
+  return key.replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Parse TOML frontmatter: key/value pairs and [table] headers
+ * Values are read as YAML flow values, which covers TOML strings, numbers, booleans and arrays.
+ * @param lines The lines of the block, without delimiters
+ * @param firstLine Line number of the first line in the document, used in error messages
+ */
+function parseToml(lines: string[], firstLine: number): Result<FrontmatterData, string> {
+  const data: FrontmatterData = {};
+  let table = data;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const lineNumber = firstLine + index;
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const header = line.match(TOML_TABLE_PATTERN);
+    if (header) {
+      table = data;
+      for (const key of header[1].split('.').map(part => unquoteKey(part.trim()))) {
+        if (!isPlainObject(table[key])) {
+          table[key] = {};
+        }
+        table = table[key] as FrontmatterData;
+      }
+      continue;
+    }
+
+    const entry = line.match(TOML_ENTRY_PATTERN);
+    if (!entry) {
+      return Err(`Expected key = value (line ${lineNumber})`);
+    }
+    const value = parseYaml(entry[2]);
+    if (!value.ok) {
+      return Err(`Invalid value for ${unquoteKey(entry[1])} (line ${lineNumber})`);
+    }
+    table[unquoteKey(entry[1])] = value.value;
+  }
+
+  return Ok(data);
+}
+
+/**
+ * Parse the lines of a frontmatter block
+ * @param lines The lines of the document up to the closing delimiter, starting with the opening delimiter
+ * @param type The frontmatter syntax
+ */
+export function parseFrontmatterBlock(
+  lines: string[],
+  type: FrontmatterType
+): Result<FrontmatterData, FrontmatterError> {
+  if (type === 'toml') {
+    const parsed = parseToml(lines.slice(1), 2);
+    return parsed.ok ? parsed : Err({ code: 'INVALID_FRONTMATTER', message: parsed.error });
+  }
+
+  // The opening delimiter is a YAML document marker, so line numbers match the document
+  const parsed = parseYaml(lines.join('\n'));
+  if (!parsed.ok) {
+    return Err({ code: 'INVALID_FRONTMATTER', message: parsed.error.message });
+  }
+  if (parsed.value === null) {
+    return Ok({});
+  }
+  if (!isPlainObject(parsed.value)) {
+    return Err({ code: 'INVALID_FRONTMATTER', message: 'Frontmatter must be a mapping of fields' });
+  }
+  return Ok(parsed.value);
+}
+
+/**
+ * Merge frontmatter fields into existing fields
+ * Existing values take precedence: objects are merged key by key, arrays are combined
+ * without duplicates, and other values are only added where the key is missing.
+ */
+export function mergeFrontmatter(target: FrontmatterData, source: FrontmatterData): FrontmatterData {
+  const merged: FrontmatterData = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    const existing = merged[key];
+    if (!(key in merged)) {
+      merged[key] = value;
+    } else if (isPlainObject(existing) && isPlainObject(value)) {
+      merged[key] = mergeFrontmatter(existing, value);
+    } else if (Array.isArray(existing) && Array.isArray(value)) {
+      const seen = new Set(existing.map(item => JSON.stringify(item)));
+      merged[key] = [...existing, ...value.filter(item => !seen.has(JSON.stringify(item)))];
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Format frontmatter fields as a YAML frontmatter block
+ */
+export function formatFrontmatter(data: FrontmatterData): string {
+  return Object.keys(data).length > 0 ? `---\n${stringifyYaml(data)}\n---` : '---\n---';
+}
+
+/**
+ * Reads the frontmatter block of a document line by line
+ */
+export class FrontmatterReader {
+  private state: 'start' | 'inside' | 'done' = 'start';
+  private type: FrontmatterType = 'yaml';
+  private lines: string[] = [];
+
+  /**
+   * Read the next line of the document
+   * @returns 'frontmatter' for lines of the block, 'end' for its closing delimiter and 'content' otherwise
+   */
+  read(line: string): 'frontmatter' | 'end' | 'content' {
+    const trimmed = line.trim();
+
+    switch (this.state) {
+      case 'start':
+        for (const [type, delimiter] of Object.entries(DELIMITERS) as [FrontmatterType, string][]) {
+          if (trimmed === delimiter) {
+            this.type = type;
+            this.lines.push(line);
+            this.state = 'inside';
+            return 'frontmatter';
+          }
+        }
+        this.state = 'done';
+        return 'content';
+
+      case 'inside':
+        if (trimmed === DELIMITERS[this.type]) {
+          this.state = 'done';
+          return 'end';
+        }
+        this.lines.push(line);
+        return 'frontmatter';
+
+      case 'done':
+        return 'content';
+    }
+  }
+
+  /**
+   * Parse the block once its closing delimiter has been read
+   */
+  parse(): Result<FrontmatterData, FrontmatterError> {
+    return parseFrontmatterBlock(this.lines, this.type);
+  }
+
+  /**
+   * Reset state to read a new document
+   */
+  reset(): void {
+    this.state = 'start';
+    this.type = 'yaml';
+    this.lines = [];
+  }
+}
+
+/**
+ * Parse the frontmatter of a document
+ * @returns The frontmatter fields, or undefined if the document has no complete frontmatter block
+ */
+export function parseFrontmatter(content: string): Result<FrontmatterData | undefined, FrontmatterError> {
+  const reader = new FrontmatterReader();
+  for (const line of content.split(/\r?\n/)) {
+    const kind = reader.read(line);
+    if (kind === 'end') {
+      return reader.parse();
+    }
+    if (kind === 'content') {
+      break;
+    }
+  }
+  return Ok(undefined);
+}
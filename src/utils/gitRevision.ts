@@ -0,0 +1,128 @@
+/**
+ * Read files as they existed at a git revision
+ * Looks objects up in the local repository through the git binary; nothing is fetched from remotes.
+ */
+
+import { execFile, execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Result, Ok, Err } from './result';
+
+/**
+ * Revision names accepted in references: branch and tag names, object ids and
+ * ancestry suffixes (e.g., "v1.2.0", "release/2.0", "HEAD~3", "abc123^")
+ * Options (leading dash) and ranges ("a..b") are rejected.
+ */
+const REVISION_PATTERN = /^(?!-)(?!.*\.\.)[\w.~^/-]+$/;
+
+/**
+ * Repository and commit a revision reference was resolved to
+ */
+export interface GitRevisionContext {
+  /**
+   * Top-level directory of the repository
+   */
+  repository: string;
+
+  /**
+   * Full object id of the commit
+   */
+  commit: string;
+}
+
+/**
+ * Error opening a revision
+ */
+export interface GitRevisionError {
+  code: 'GIT_ERROR' | 'UNKNOWN_REVISION';
+  message: string;
+}
+
+/**
+ * Run git synchronously
+ * @returns The output, or null if git is missing or the command fails
+ */
+function runGit(args: string[], cwd: string): string | null {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve symlinks in the existing part of a path, which may not exist in the working tree
+ */
+function toRealPath(filePath: string): string {
+  const parent = path.dirname(filePath);
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return parent === filePath ? filePath : path.join(toRealPath(parent), path.basename(filePath));
+  }
+}
+
+/**
+ * Check if a revision name is safe to pass to git
+ */
+export function isValidRevision(revision: string): boolean {
+  return REVISION_PATTERN.test(revision);
+}
+
+/**
+ * Find the repository containing a directory and resolve a revision to a commit
+ * @param revision The revision name (e.g., "v1.2.0" or "HEAD~3")
+ * @param directory A directory inside the repository
+ */
+export function openRevision(revision: string, directory: string): Result<GitRevisionContext, GitRevisionError> {
+  if (!isValidRevision(revision)) {
+    return Err({ code: 'UNKNOWN_REVISION', message: `Invalid git revision: ${revision}` });
+  }
+
+  const repository = runGit(['rev-parse', '--show-toplevel'], directory)?.trim();
+  if (!repository) {
+    return Err({ code: 'GIT_ERROR', message: `Not a git repository (or git is not installed): ${directory}` });
+  }
+
+  const commit = runGit(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`], repository)?.trim();
+  if (!commit) {
+    return Err({ code: 'UNKNOWN_REVISION', message: `Unknown git revision: ${revision}` });
+  }
+
+  return Ok({ repository: toRealPath(repository), commit });
+}
+
+/**
+ * Find the blob of a file at a commit
+ * @param context The opened revision
+ * @param absolutePath Working tree path of the file
+ * @returns The blob object id, or null if the file does not exist at that commit
+ */
+export function findBlob(context: GitRevisionContext, absolutePath: string): string | null {
+  const relativePath = path.relative(context.repository, toRealPath(absolutePath)).split(path.sep).join('/');
+  if (!relativePath || relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+    return null;
+  }
+
+  // Output: "<mode> <type> <object id>\t<path>"
+  const output = runGit(['ls-tree', '-z', context.commit, '--', relativePath], context.repository);
+  const entry = output?.match(/^\d+ blob ([0-9a-f]+)\t/);
+  return entry ? entry[1] : null;
+}
+
+/**
+ * Read the raw content of a blob
+ * @param objectId The blob object id
+ * @param repository Top-level directory of the repository
+ * @param maxSize Maximum blob size in bytes
+ */
+export function readBlob(objectId: string, repository: string, maxSize: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['cat-file', 'blob', objectId],
+      { cwd: repository, encoding: 'buffer', maxBuffer: maxSize },
+      (error, stdout) => (error ? reject(error) : resolve(stdout))
+    );
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * Glob and directory expansion for transclusion references
+ * Expands ![[chapters/*.md]] and ![[chapters/]] into the matching files,
+ * which are then resolved one by one like ordinary references.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectFrontmatter } from './contentProcessing';
+
+/**
+ * Order of the files matched by a glob or directory reference
+ * - name: natural sort by path (chapter-2 before chapter-10)
+ * - order: numeric frontmatter `order:` key, files without one last by name
+ * - mtime: oldest modification time first
+ */
+export type GlobSort = 'name' | 'order' | 'mtime';
+
+/**
+ * Options for expanding a glob pattern
+ */
+export interface GlobExpandOptions {
+  /**
+   * Extensions of the files included by directory references (e.g., ['.md'])
+   */
+  extensions: string[];
+
+  /**
+   * Only keep files matching one of these globs
+   */
+  include?: string[];
+
+  /**
+   * Drop files matching one of these globs
+   */
+  exclude?: string[];
+
+  /**
+   * Names of directories that are not searched (e.g., ['node_modules']); hidden directories never are
+   */
+  skipDirectories?: string[];
+}
+
+/**
+ * File matched by a glob along with the data used for sorting
+ */
+export interface GlobMatch {
+  /**
+   * The matched path, relative to the expansion directory
+   */
+  path: string;
+
+  /**
+   * Frontmatter `order:` value, if any
+   */
+  order?: number;
+
+  /**
+   * Modification time in milliseconds
+   */
+  mtime?: number;
+}
+
+const GLOB_SORTS: readonly GlobSort[] = ['name', 'order', 'mtime'];
+
+/**
+ * Glob wildcards: * and ** match any characters, ? matches one character
+ */
+const GLOB_CHARACTERS = /[*?]/;
+
+/**
+ * Frontmatter order key in YAML (order: 2) or TOML (order = 2)
+ */
+const FRONTMATTER_ORDER_PATTERN = /^order\s*[:=]\s*["']?(-?\d+(?:\.\d+)?)["']?\s*$/;
+
+/**
+ * Check if a value is a supported glob sort order
+ */
+export function isGlobSort(value: string): value is GlobSort {
+  return (GLOB_SORTS as readonly string[]).includes(value);
+}
+
+/**
+ * Check if a reference path is a glob pattern or a directory (trailing slash)
+ */
+export function isGlobReference(reference: string): boolean {
+  return GLOB_CHARACTERS.test(reference) || /[/\\]$/.test(reference);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching forward-slash paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more directories, a bare "**" matches anything
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compare two strings in natural order, so "2" sorts before "10"
+ */
+export function naturalCompare(a: string, b: string): number {
+  const chunksA = a.match(/\d+|\D+/g) ?? [];
+  const chunksB = b.match(/\d+|\D+/g) ?? [];
+
+  for (let i = 0; i < Math.min(chunksA.length, chunksB.length); i++) {
+    const chunkA = chunksA[i];
+    const chunkB = chunksB[i];
+    if (chunkA === chunkB) {
+      continue;
+    }
+
+    if (/^\d/.test(chunkA) && /^\d/.test(chunkB)) {
+      // Compare numbers by length without leading zeros, then digit by digit
+      const digitsA = chunkA.replace(/^0+(?=\d)/, '');
+      const digitsB = chunkB.replace(/^0+(?=\d)/, '');
+      if (digitsA.length !== digitsB.length) {
+        return digitsA.length - digitsB.length;
+      }
+      if (digitsA !== digitsB) {
+        return digitsA < digitsB ? -1 : 1;
+      }
+      continue;
+    }
+
+    const lowerA = chunkA.toLowerCase();
+    const lowerB = chunkB.toLowerCase();
+    if (lowerA !== lowerB) {
+      return lowerA < lowerB ? -1 : 1;
+    }
+  }
+
+  if (chunksA.length !== chunksB.length) {
+    return chunksA.length - chunksB.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Check if a path matches any of the globs
+ * Globs without a slash are matched against the file name only.
+ */
+export function matchesAnyGlob(filePath: string, globs: string[]): boolean {
+  return globs.some(glob => globToRegExp(glob).test(glob.includes('/') ? filePath : path.posix.basename(filePath)));
+}
+
+/**
+ * Parse a comma-separated list of globs (e.g., "draft-*,notes/**")
+ */
+export function parseGlobList(value: string | undefined): string[] {
+  return value ? value.split(',').map(glob => glob.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Turn \n and \t escapes in a separator into newlines and tabs
+ */
+export function unescapeSeparator(value: string): string {
+  return value.replace(/\\([nt\\])/g, (_match, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : '\\'));
+}
+
+/**
+ * List files below a directory as forward-slash paths relative to it
+ */
+function listFiles(root: string, recursive: boolean, skipDirectories: string[], relativeDir = ''): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(root, relativeDir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    // Hidden files and directories are never matched
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (recursive && !skipDirectories.includes(entry.name)) {
+        files.push(...listFiles(root, recursive, skipDirectories, relativePath));
+      }
+    } else if (entry.isFile() || (entry.isSymbolicLink() && isFile(path.join(root, relativePath)))) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Check if a path is a regular file, following symlinks
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Expand a glob or directory reference into matching files
+ * @param pattern The reference path (e.g., "chapters/*.md" or "chapters/")
+ * @param directory Directory the pattern is relative to
+ * @param options Extension and include/exclude filters
+ * @returns Matching paths relative to the directory, in natural sort order
+ */
+export function expandGlob(pattern: string, directory: string, options: GlobExpandOptions): string[] {
+  const normalized = pattern.replace(/\\/g, '/');
+  const isDirectory = normalized.endsWith('/');
+  const segments = (isDirectory ? `${normalized}*` : normalized).split('/');
+
+  // Walk from the deepest directory without wildcards
+  const wildcardIndex = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+  if (wildcardIndex === -1) {
+    return [];
+  }
+  const prefix = segments.slice(0, wildcardIndex).join('/');
+  const rest = segments.slice(wildcardIndex).join('/');
+  const matcher = globToRegExp(rest);
+  const include = options.include ?? [];
+  const exclude = options.exclude ?? [];
+  const extensions = options.extensions.map(ext => (ext.startsWith('.') ? ext : `.${ext}`));
+
+  return listFiles(path.resolve(directory, prefix), rest.includes('/'), options.skipDirectories ?? [])
+    .filter(file => matcher.test(file))
+    .filter(file => !isDirectory || extensions.includes(path.extname(file)))
+    .filter(file => include.length === 0 || matchesAnyGlob(file, include))
+    .filter(file => !matchesAnyGlob(file, exclude))
+    .map(file => (prefix ? `${prefix}/${file}` : file))
+    .sort(naturalCompare);
+}
+
+/**
+ * Read the numeric `order:` key from frontmatter
+ * @returns The order, or undefined if the content has no order key
+ */
+export function getFrontmatterOrder(content: string): number | undefined {
+  const frontmatter = detectFrontmatter(content);
+  if (!frontmatter.hasFrontmatter) {
+    return undefined;
+  }
+
+  const lines = content.split(/\r?\n/).slice(1, frontmatter.endLine);
+  for (const line of lines) {
+    const match = line.trim().match(FRONTMATTER_ORDER_PATTERN);
+    if (match) {
+      return parseFloat(match[1]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Sort glob matches
+ * Name order is natural; ties in order and mtime sorting fall back to name order.
+ */
+export function sortGlobMatches<T extends GlobMatch>(matches: T[], sort: GlobSort): T[] {
+  const byName = (a: T, b: T): number => naturalCompare(a.path, b.path);
+
+  switch (sort) {
+    case 'order':
+      return [...matches].sort((a, b) => {
+        if (a.order === undefined || b.order === undefined) {
+          return a.order === b.order ? byName(a, b) : a.order === undefined ? 1 : -1;
+        }
+        return a.order - b.order || byName(a, b);
+      });
+
+    case 'mtime':
+      return [...matches].sort((a, b) => (a.mtime ?? 0) - (b.mtime ?? 0) || byName(a, b));
+
+    default:
+      return [...matches].sort(byName);
+  }
+}
@@ -2,71 +2,466 @@
  * Extract content for a specific heading from markdown content
  */
 
+import { CodeFenceTracker } from './codeFenceTracker';
+import { createHeadingSlugs } from './headingSlug';
+
 /**
- * Extract content starting from a specific heading
- * @param content The full markdown content
- * @param headingText The heading text to find (without # prefix)
- * @returns The content from the heading until the next same or higher level heading
+ * Warning raised while selecting a heading section
  */
-export function extractHeadingContent(content: string, headingText: string): string | null {
-  if (!headingText) {
-    return content;
+export interface HeadingWarning {
+  code: 'AMBIGUOUS_HEADING';
+  message: string;
+}
+
+/**
+ * Heading section selected from markdown content
+ */
+export interface HeadingSelection {
+  /**
+   * The section content, including the heading line
+   */
+  content: string;
+
+  /**
+   * Set when an unqualified heading matched more than one section
+   */
+  warning?: HeadingWarning;
+}
+
+/**
+ * Heading found in markdown content
+ */
+export interface MarkdownHeading {
+  /**
+   * How the heading is written: # ATX, Setext underline or HTML <h1>-<h6>
+   */
+  kind: 'atx' | 'setext' | 'html';
+
+  /**
+   * First line of the heading (0-indexed)
+   */
+  line: number;
+
+  /**
+   * Last line of the heading: the Setext underline or the line with the closing HTML tag
+   */
+  endLine: number;
+
+  /**
+   * Heading level (1-6)
+   */
+  level: number;
+
+  /**
+   * Heading text without markers, closing hashes or HTML tags
+   */
+  text: string;
+
+  /**
+   * The id attribute of an HTML heading, or an explicit {#id} heading attribute
+   */
+  id?: string;
+
+  /**
+   * GitHub-compatible anchor slug, unique within the document
+   */
+  slug: string;
+}
+
+/**
+ * Heading before slugs are assigned
+ */
+type ParsedHeading = Omit<MarkdownHeading, 'slug'>;
+
+/**
+ * Pattern for a trailing occurrence index (e.g., "Examples[2]")
+ */
+const OCCURRENCE_INDEX_PATTERN = /^(.*?)\s*\[(\d+)\]$/;
+
+/**
+ * ATX heading with an optional closing sequence (e.g., "## Title ##")
+ */
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Setext underline: === for level 1, --- for level 2
+ */
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+
+/**
+ * Thematic break (---, ***, ___), a single-line block
+ */
+const THEMATIC_BREAK_PATTERN = /^ {0,3}(?:([-*_])[ \t]*){3,}$/;
+
+/**
+ * Trailing heading attributes with an explicit id (e.g., "Title {#custom-id}")
+ */
+const HEADING_ATTRIBUTES_PATTERN = /\s*\{#([^\s}]+)[^}]*\}$/;
+
+/**
+ * Opening tag of an HTML heading
+ */
+const HTML_HEADING_OPEN_PATTERN = /^ {0,3}<h([1-6])(\s[^>]*)?>/i;
+
+/**
+ * Lines that start a block other than a paragraph
+ */
+const NON_PARAGRAPH_PATTERN = /^\s*(?:[-*+>|<]|\d+[.)]\s|#{1,6}(?:\s|$)|`{3,}|~{3,})/;
+
+/**
+ * Check if a line can be part of a paragraph, and so the text of a Setext heading
+ */
+export function isParagraphLine(line: string): boolean {
+  return line.trim() !== '' && !NON_PARAGRAPH_PATTERN.test(line);
+}
+
+/**
+ * Get the number of leading frontmatter lines (YAML --- or TOML +++)
+ */
+export function getFrontmatterLineCount(lines: string[]): number {
+  const delimiter = lines[0]?.trim();
+  if (delimiter !== '---' && delimiter !== '+++') {
+    return 0;
+  }
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === delimiter) {
+      return i + 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Split an explicit {#id} attribute from Markdown heading text
+ */
+function parseHeadingText(text: string): Pick<MarkdownHeading, 'text' | 'id'> {
+  const attributes = text.match(HEADING_ATTRIBUTES_PATTERN);
+  if (!attributes) {
+    return { text };
   }
+  return { text: text.substring(0, attributes.index).trim(), id: attributes[1] };
+}
+
+/**
+ * Parse an HTML heading starting at a line
+ */
+function parseHtmlHeading(lines: string[], index: number): ParsedHeading | null {
+  const open = lines[index].match(HTML_HEADING_OPEN_PATTERN);
+  if (!open) {
+    return null;
+  }
+
+  const closeTag = new RegExp(`</h${open[1]}\\s*>`, 'i');
+  let endLine = index;
+  while (endLine < lines.length && !closeTag.test(lines[endLine])) {
+    // Headings do not span blank lines
+    if (endLine > index && lines[endLine].trim() === '') {
+      return null;
+    }
+    endLine++;
+  }
+  if (endLine === lines.length) {
+    return null;
+  }
+
+  const html = lines.slice(index, endLine + 1).join(' ');
+  const inner = html.substring(html.indexOf(open[0]) + open[0].length).replace(/<\/h[1-6]\s*>[\s\S]*$/i, '');
+  const id = open[2]?.match(/\bid\s*=\s*["']([^"']*)["']/i);
+
+  return {
+    kind: 'html',
+    line: index,
+    endLine,
+    level: parseInt(open[1], 10),
+    text: inner.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim(),
+    ...(id && { id: id[1] })
+  };
+}
+
+/**
+ * Find all headings in markdown content
+ * Recognises ATX headings (with optional closing hashes), Setext headings and
+ * HTML <h1>-<h6> elements. Code blocks and leading frontmatter are skipped.
+ * @param lines The content split into lines
+ * @returns Headings in document order
+ */
+export function parseHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: ParsedHeading[] = [];
+  const fence = new CodeFenceTracker();
+  let paragraphStart = -1;
+  // Set inside lists, quotes and tables, whose lines do not start paragraphs until a blank line
+  let inOtherBlock = false;
+
+  for (let i = getFrontmatterLineCount(lines); i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence.update(line)) {
+      paragraphStart = -1;
+      inOtherBlock = false;
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING_PATTERN);
+    if (atx) {
+      headings.push({ kind: 'atx', line: i, endLine: i, level: atx[1].length, ...parseHeadingText((atx[2] ?? '').trim()) });
+      paragraphStart = -1;
+      inOtherBlock = false;
+      continue;
+    }
+
+    const underline = line.match(SETEXT_UNDERLINE_PATTERN);
+    if (underline && paragraphStart !== -1) {
+      headings.push({
+        kind: 'setext',
+        line: paragraphStart,
+        endLine: i,
+        level: underline[1][0] === '=' ? 1 : 2,
+        ...parseHeadingText(lines.slice(paragraphStart, i).map(l => l.trim()).join(' '))
+      });
+      paragraphStart = -1;
+      inOtherBlock = false;
+      continue;
+    }
+
+    const html = parseHtmlHeading(lines, i);
+    if (html) {
+      headings.push(html);
+      i = html.endLine;
+      paragraphStart = -1;
+      inOtherBlock = false;
+      continue;
+    }
+
+    if (!isParagraphLine(line)) {
+      paragraphStart = -1;
+      inOtherBlock = line.trim() !== '' && !THEMATIC_BREAK_PATTERN.test(line);
+    } else if (paragraphStart === -1 && !inOtherBlock) {
+      paragraphStart = i;
+    }
+  }
+
+  const slugs = createHeadingSlugs(headings.map(heading => heading.text));
+  return headings.map((heading, index) => ({ ...heading, slug: slugs[index] }));
+}
+
+/**
+ * Check if a heading matches a normalized (lowercase) selector by text or id
+ */
+function matchesHeading(heading: MarkdownHeading, normalizedText: string): boolean {
+  return heading.text.toLowerCase() === normalizedText
+    || (heading.id !== undefined && heading.id.toLowerCase() === normalizedText);
+}
+
+/**
+ * Check if a heading matches a normalized selector by text, id or GitHub slug
+ */
+function matchesHeadingOrSlug(heading: MarkdownHeading, normalizedText: string): boolean {
+  return matchesHeading(heading, normalizedText) || heading.slug === normalizedText;
+}
+
+/**
+ * Find headings matching a normalized selector by text or id, falling back to GitHub slugs
+ */
+function findMatchingHeadings(headings: MarkdownHeading[], normalizedText: string): MarkdownHeading[] {
+  const matches = headings.filter(h => matchesHeading(h, normalizedText));
+  return matches.length > 0 ? matches : headings.filter(h => h.slug === normalizedText);
+}
+
+/**
+ * Get the enclosing headings of a heading, nearest first
+ */
+function getAncestors(headings: MarkdownHeading[], index: number): MarkdownHeading[] {
+  const ancestors: MarkdownHeading[] = [];
+  let level = headings[index].level;
   
-  const lines = content.split('\n');
-  const normalizedHeading = headingText.trim().toLowerCase();
+  for (let i = index - 1; i >= 0 && level > 1; i--) {
+    if (headings[i].level < level) {
+      ancestors.push(headings[i]);
+      level = headings[i].level;
+    }
+  }
   
-  let startIndex = -1;
-  let headingLevel = 0;
+  return ancestors;
+}
+
+/**
+ * Find headings matching a heading path such as "Installation/Examples"
+ * Parent segments must appear among the heading's ancestors in order, but levels may be skipped.
+ */
+function findHeadingPath(headings: MarkdownHeading[], segments: string[]): MarkdownHeading[] {
+  const target = segments[segments.length - 1];
+  const parents = segments.slice(0, -1).reverse();
   
-  // Find the heading
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+  return headings.filter((heading, index) => {
+    if (!matchesHeadingOrSlug(heading, target)) {
+      return false;
+    }
     
-    if (headingMatch) {
-      const level = headingMatch[1].length;
-      const text = headingMatch[2].trim().toLowerCase();
-      
-      if (text === normalizedHeading) {
-        startIndex = i;
-        headingLevel = level;
-        break;
+    let parentIndex = 0;
+    for (const ancestor of getAncestors(headings, index)) {
+      if (parentIndex < parents.length && matchesHeadingOrSlug(ancestor, parents[parentIndex])) {
+        parentIndex++;
       }
     }
+    return parentIndex === parents.length;
+  });
+}
+
+/**
+ * Get the lines of a heading section, without trailing empty lines
+ */
+function getSectionContent(lines: string[], headings: MarkdownHeading[], heading: MarkdownHeading): string {
+  // The section ends at the next heading of the same or higher level
+  const next = headings.find(h => h.line > heading.endLine && h.level <= heading.level);
+  const extractedLines = lines.slice(heading.line, next ? next.line : lines.length);
+  
+  // Remove trailing empty lines
+  while (extractedLines.length > 0 && extractedLines[extractedLines.length - 1].trim() === '') {
+    extractedLines.pop();
   }
   
-  // Heading not found
-  if (startIndex === -1) {
-    return null;
+  return extractedLines.join('\n');
+}
+
+/**
+ * Select a heading section using a heading selector
+ *
+ * Selectors may be a plain heading ("Examples"), a heading path ("Installation/Examples")
+ * or carry a 1-indexed occurrence index ("Examples[2]", "Installation/Examples[1]").
+ * Headings also match by explicit id and by GitHub anchor slug ("getting-started-with-v2").
+ * A heading whose literal text matches the selector always takes precedence.
+ * @param content The full markdown content
+ * @param selector The heading selector (without # prefix)
+ * @returns The selected section, or null if no heading matches
+ */
+export function selectHeadingContent(content: string, selector: string): HeadingSelection | null {
+  if (!selector) {
+    return { content };
   }
   
-  // Find the end of this section (next heading of same or higher level)
-  let endIndex = lines.length;
+  const lines = content.split('\n');
+  const headings = parseHeadings(lines);
+  const normalizedSelector = selector.trim().toLowerCase();
   
-  for (let i = startIndex + 1; i < lines.length; i++) {
-    const line = lines[i];
-    const headingMatch = line.match(/^(#{1,6})\s+/);
+  let matches = findMatchingHeadings(headings, normalizedSelector);
+  let qualified = false;
+  
+  if (matches.length === 0) {
+    const indexMatch = normalizedSelector.match(OCCURRENCE_INDEX_PATTERN);
+    const pathText = indexMatch ? indexMatch[1] : normalizedSelector;
+    const segments = pathText.split('/').map(segment => segment.trim()).filter(Boolean);
     
-    if (headingMatch) {
-      const level = headingMatch[1].length;
-      // Stop at same level or higher (fewer #)
-      if (level <= headingLevel) {
-        endIndex = i;
-        break;
-      }
+    if (segments.length === 0) {
+      return null;
+    }
+    
+    matches = findHeadingPath(headings, segments);
+    qualified = segments.length > 1;
+    
+    if (indexMatch) {
+      const occurrence = matches[parseInt(indexMatch[2], 10) - 1];
+      matches = occurrence ? [occurrence] : [];
+      qualified = true;
     }
   }
   
-  // Extract the content (include the heading line itself)
-  const extractedLines = lines.slice(startIndex, endIndex);
+  // Heading not found
+  if (matches.length === 0) {
+    return null;
+  }
   
-  // Remove trailing empty lines
-  while (extractedLines.length > 0 && extractedLines[extractedLines.length - 1].trim() === '') {
-    extractedLines.pop();
+  const selected = matches[0];
+  const result: HeadingSelection = {
+    content: getSectionContent(lines, headings, selected)
+  };
+  
+  if (!qualified && matches.length > 1) {
+    const heading = selector.trim();
+    const parent = getAncestors(headings, headings.indexOf(selected))[0];
+    const pathHint = parent ? `"${parent.text}/${heading}" or ` : '';
+    result.warning = {
+      code: 'AMBIGUOUS_HEADING',
+      message: `Heading "${heading}" matches ${matches.length} sections, using the first; use ${pathHint}"${heading}[2]" to pick one`
+    };
   }
   
-  return extractedLines.join('\n');
+  return result;
+}
+
+/**
+ * Extract content starting from a specific heading
+ * @param content The full markdown content
+ * @param headingText The heading text or heading selector to find (without # prefix)
+ * @returns The content from the heading until the next same or higher level heading
+ */
+export function extractHeadingContent(content: string, headingText: string): string | null {
+  const selection = selectHeadingContent(content, headingText);
+  return selection ? selection.content : null;
+}
+
+/**
+ * Check whether an unqualified heading matches more than one section
+ * @param content The full markdown content
+ * @param headingText The heading text or heading selector (without # prefix)
+ * @returns An AMBIGUOUS_HEADING warning, or null if the heading is unique, qualified or missing
+ */
+export function checkHeadingAmbiguity(content: string, headingText: string): HeadingWarning | null {
+  return selectHeadingContent(content, headingText)?.warning ?? null;
+}
+
+/**
+ * Result of extracting several heading sections at once
+ */
+export interface MultipleHeadingResult {
+  /**
+   * The found sections joined with the separator, in the order requested
+   */
+  content: string;
+
+  /**
+   * Headings that were not found in the content
+   */
+  missing: string[];
+
+  /**
+   * Warnings for headings that matched more than one section
+   */
+  warnings: HeadingWarning[];
+}
+
+/**
+ * Extract several heading sections and join them in the order listed
+ * @param content The full markdown content
+ * @param headings The heading texts to find (without # prefix)
+ * @param separator Text placed between sections (default: blank line)
+ * @returns The joined sections and any headings that were not found
+ */
+export function extractMultipleHeadings(
+  content: string,
+  headings: string[],
+  separator = '\n\n'
+): MultipleHeadingResult {
+  const sections: string[] = [];
+  const missing: string[] = [];
+  const warnings: HeadingWarning[] = [];
+
+  for (const heading of headings) {
+    const selection = selectHeadingContent(content, heading);
+    if (selection === null) {
+      missing.push(heading);
+    } else {
+      sections.push(selection.content);
+      if (selection.warning) {
+        warnings.push(selection.warning);
+      }
+    }
+  }
+
+  return {
+    content: sections.join(separator),
+    missing,
+    warnings
+  };
 }
 
 /**
@@ -100,52 +495,32 @@ export function extractHeadingRange(content: string, startHeading: string, endHe
   }
   
   const lines = content.split('\n');
+  const headings = parseHeadings(lines);
   const normalizedStart = startHeading ? startHeading.trim().toLowerCase() : '';
   const normalizedEnd = endHeading ? endHeading.trim().toLowerCase() : '';
   
-  let startIndex = -1;
+  let startIndex = 0;
+  let startEndLine = -1;
   let endIndex = lines.length;
   
   // If startHeading is empty, start from beginning
-  if (!normalizedStart) {
-    startIndex = 0;
-  } else {
-    // Find the start heading
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-      
-      if (headingMatch) {
-        // const level = headingMatch[1].length; // Not used currently
-        const text = headingMatch[2].trim().toLowerCase();
-        
-        if (text === normalizedStart) {
-          startIndex = i;
-          break;
-        }
-      }
-    }
+  if (normalizedStart) {
+    const start = findMatchingHeadings(headings, normalizedStart)[0];
     
     // Start heading not found
-    if (startIndex === -1) {
+    if (!start) {
       return null;
     }
+    startIndex = start.line;
+    startEndLine = start.endLine;
   }
   
   // If endHeading is specified, find it
   if (normalizedEnd) {
-    for (let i = startIndex + 1; i < lines.length; i++) {
-      const line = lines[i];
-      const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-      
-      if (headingMatch) {
-        const text = headingMatch[2].trim().toLowerCase();
-        
-        if (text === normalizedEnd) {
-          endIndex = i;
-          break;
-        }
-      }
+    const following = headings.filter(h => h.line > Math.max(startIndex, startEndLine));
+    const end = findMatchingHeadings(following, normalizedEnd)[0];
+    if (end) {
+      endIndex = end.line;
     }
   }
   
@@ -158,4 +533,147 @@ export function extractHeadingRange(content: string, startHeading: string, endHe
   }
   
   return extractedLines.join('\n');
-}
\ No newline at end of file
+}
+
+/**
+ * Location of a block carrying a ^block-id marker
+ */
+export interface BlockLocation {
+  /**
+   * The block id without the ^ prefix
+   */
+  id: string;
+
+  /**
+   * First line of the block (0-indexed)
+   */
+  startLine: number;
+
+  /**
+   * Last line of the block (0-indexed, inclusive)
+   */
+  endLine: number;
+}
+
+/**
+ * Pattern for a block id marker at the end of a line (e.g., "text ^abc123")
+ */
+const TRAILING_BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Pattern for a block id marker on its own line, used after tables and quotes
+ */
+const STANDALONE_BLOCK_ID_PATTERN = /^\s*\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Pattern for list item lines, capturing the indentation
+ */
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Check if a line is a block boundary (blank or ATX heading)
+ */
+function isBlockBoundary(line: string): boolean {
+  return line.trim() === '' || /^#{1,6}\s+/.test(line);
+}
+
+/**
+ * Index every ^block-id marker in markdown content
+ * Paragraphs and list items carry the marker at the end of their last line;
+ * tables and blockquotes carry it on its own line after the block.
+ * Markers inside code blocks are part of the code.
+ * @param content The full markdown content
+ * @returns Block locations in document order
+ */
+export function indexBlocks(content: string): BlockLocation[] {
+  const lines = content.split('\n');
+  const blocks: BlockLocation[] = [];
+  const fence = new CodeFenceTracker();
+  const isCode = lines.map(line => fence.update(line));
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (isCode[i]) {
+      continue;
+    }
+
+    const standalone = line.match(STANDALONE_BLOCK_ID_PATTERN);
+    if (standalone) {
+      // The marker belongs to the previous block, skipping blank lines
+      let endLine = i - 1;
+      while (endLine >= 0 && lines[endLine].trim() === '') {
+        endLine--;
+      }
+      if (endLine < 0) {
+        continue;
+      }
+      let startLine = endLine;
+      while (startLine > 0 && !isBlockBoundary(lines[startLine - 1])) {
+        startLine--;
+      }
+      blocks.push({ id: standalone[1], startLine, endLine });
+      continue;
+    }
+
+    const trailing = line.match(TRAILING_BLOCK_ID_PATTERN);
+    if (!trailing) {
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      // A list item block includes its more deeply indented children
+      const indent = listItem[1].length;
+      let endLine = i;
+      for (let j = i + 1; j < lines.length; j++) {
+        if (lines[j].trim() === '') {
+          continue;
+        }
+        const lineIndent = lines[j].length - lines[j].trimStart().length;
+        if (lineIndent <= indent) {
+          break;
+        }
+        endLine = j;
+      }
+      blocks.push({ id: trailing[1], startLine: i, endLine });
+      continue;
+    }
+
+    // Paragraph: walk back to the previous blank line, heading or code block
+    let startLine = i;
+    while (startLine > 0 && !isBlockBoundary(lines[startLine - 1]) && !isCode[startLine - 1]) {
+      startLine--;
+    }
+    blocks.push({ id: trailing[1], startLine, endLine: i });
+  }
+
+  return blocks;
+}
+
+/**
+ * List all block ids defined in markdown content
+ */
+export function extractBlockIds(content: string): string[] {
+  return indexBlocks(content).map(block => block.id);
+}
+
+/**
+ * Extract the paragraph, list item or table carrying a ^block-id marker
+ * @param content The full markdown content
+ * @param blockId The block id to find (with or without ^ prefix)
+ * @returns The block content with block id markers removed, or null if not found
+ */
+export function extractBlockContent(content: string, blockId: string): string | null {
+  const id = blockId.trim().replace(/^\^/, '');
+  const block = indexBlocks(content).find(b => b.id === id);
+
+  if (!block) {
+    return null;
+  }
+
+  return content
+    .split('\n')
+    .slice(block.startLine, block.endLine + 1)
+    .map(line => line.replace(TRAILING_BLOCK_ID_PATTERN, ''))
+    .join('\n');
+}
@@ -0,0 +1,179 @@
+/**
+ * Heading level shifting for transcluded content
+ * Rewrites ATX (# Title) and Setext (Title / =====) headings so that
+ * embedded documents fit into the outline of the including document.
+ */
+
+import { CodeFenceTracker } from './codeFenceTracker';
+import { parseHeadings, isParagraphLine, MarkdownHeading } from './headingExtractor';
+
+/**
+ * Offset applied to heading levels: a number of levels or 'auto'
+ */
+export type HeadingOffset = number | 'auto';
+
+/**
+ * Result of shifting headings
+ */
+export interface HeadingShiftResult {
+  /**
+   * Content with shifted headings
+   */
+  content: string;
+
+  /**
+   * Number of headings clamped to level 1 or 6
+   */
+  clamped: number;
+}
+
+const MIN_HEADING_LEVEL = 1;
+const MAX_HEADING_LEVEL = 6;
+
+/**
+ * ATX heading: up to 3 spaces of indentation, 1-6 hashes, then whitespace or end of line
+ */
+const ATX_HEADING_PATTERN = /^( {0,3})(#{1,6})(?=\s|$)/;
+
+/**
+ * Setext underline: === for level 1, --- for level 2
+ */
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)\s*$/;
+
+/**
+ * Parse a heading offset value such as "+2", "-1", "0" or "auto"
+ * @param value The offset text
+ * @returns The offset, or null if the value is invalid
+ */
+export function parseHeadingOffset(value: string): HeadingOffset | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'auto') {
+    return 'auto';
+  }
+  if (!/^[+-]?\d+$/.test(trimmed)) {
+    return null;
+  }
+  return parseInt(trimmed, 10);
+}
+
+/**
+ * Find ATX and Setext headings, outside frontmatter and code blocks
+ */
+function findShiftableHeadings(lines: string[]): MarkdownHeading[] {
+  return parseHeadings(lines).filter(heading => heading.kind !== 'html');
+}
+
+/**
+ * Get the smallest heading level used in content
+ * @returns The level, or 0 if the content has no headings
+ */
+export function getMinHeadingLevel(content: string): number {
+  const levels = findShiftableHeadings(content.split('\n')).map(heading => heading.level);
+  return levels.length > 0 ? Math.min(...levels) : 0;
+}
+
+/**
+ * Resolve a heading offset to a number of levels
+ * In auto mode the top-level headings of the content become children of the enclosing heading.
+ * @param offset The configured offset
+ * @param content The content to shift
+ * @param enclosingLevel Level of the heading enclosing the reference (0 if none)
+ */
+export function resolveHeadingOffset(
+  offset: HeadingOffset,
+  content: string,
+  enclosingLevel: number
+): number {
+  if (offset !== 'auto') {
+    return offset;
+  }
+  const minLevel = getMinHeadingLevel(content);
+  if (enclosingLevel === 0 || minLevel === 0) {
+    return 0;
+  }
+  return enclosingLevel + 1 - minLevel;
+}
+
+/**
+ * Shift the level of all headings in content
+ * Headings are clamped to levels 1-6. Setext headings shifted beyond level 2 become ATX headings.
+ * @param content The content to rewrite
+ * @param offset Number of levels to add (negative values promote headings)
+ */
+export function shiftHeadings(content: string, offset: number): HeadingShiftResult {
+  if (offset === 0) {
+    return { content, clamped: 0 };
+  }
+
+  const lines = content.split('\n');
+  const removedLines = new Set<number>();
+  let clamped = 0;
+
+  for (const heading of findShiftableHeadings(lines)) {
+    const target = heading.level + offset;
+    const newLevel = Math.min(MAX_HEADING_LEVEL, Math.max(MIN_HEADING_LEVEL, target));
+    if (newLevel !== target) {
+      clamped++;
+    }
+
+    if (heading.kind === 'atx') {
+      lines[heading.line] = lines[heading.line].replace(ATX_HEADING_PATTERN, (_match, indent: string) => indent + '#'.repeat(newLevel));
+    } else if (newLevel <= 2) {
+      lines[heading.endLine] = lines[heading.endLine].replace(/[=-]/g, newLevel === 1 ? '=' : '-');
+    } else {
+      lines[heading.line] = `${'#'.repeat(newLevel)} ${heading.text}`;
+      for (let i = heading.line + 1; i <= heading.endLine; i++) {
+        removedLines.add(i);
+      }
+    }
+  }
+
+  return {
+    content: lines.filter((_line, index) => !removedLines.has(index)).join('\n'),
+    clamped
+  };
+}
+
+/**
+ * Tracks the level of the most recent heading while reading a document line by line
+ */
+export class HeadingLevelTracker {
+  private readonly fence = new CodeFenceTracker();
+  private previousLine = '';
+  private currentLevel = 0;
+
+  /**
+   * Level of the heading enclosing the next line (0 if none)
+   */
+  get level(): number {
+    return this.currentLevel;
+  }
+
+  /**
+   * Update the tracker with the next line of the document
+   */
+  update(line: string): void {
+    if (this.fence.update(line)) {
+      this.previousLine = '';
+      return;
+    }
+
+    const atx = line.match(ATX_HEADING_PATTERN);
+    const underline = line.match(SETEXT_UNDERLINE_PATTERN);
+    if (atx) {
+      this.currentLevel = atx[2].length;
+    } else if (underline && isParagraphLine(this.previousLine)) {
+      this.currentLevel = underline[1][0] === '=' ? 1 : 2;
+    }
+    this.previousLine = atx ? '' : line;
+  }
+
+  /**
+   * Forget all tracked state
+   */
+  reset(): void {
+    this.fence.reset();
+    this.previousLine = '';
+    this.currentLevel = 0;
+  }
+}
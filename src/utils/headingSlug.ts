@@ -0,0 +1,70 @@
+/**
+ * GitHub-compatible heading slugs
+ * Produces the same anchors GitHub generates for rendered Markdown headings,
+ * so `#getting-started-with-v2` can select `## Getting Started with v2!`.
+ */
+
+/**
+ * Inline links and images: [text](url) and ![alt](url)
+ */
+const INLINE_LINK_PATTERN = /!?\[([^\]]*)\]\([^)]*\)/g;
+
+/**
+ * HTML tags, which are not part of the rendered heading text
+ */
+const HTML_TAG_PATTERN = /<[^>]*>/g;
+
+/**
+ * Characters GitHub drops from slugs: everything except letters, marks, numbers,
+ * connector punctuation (e.g., underscores), spaces and hyphens
+ */
+const SLUG_REMOVED_PATTERN = /[^\p{L}\p{M}\p{N}\p{Pc} -]/gu;
+
+/**
+ * Convert heading text to a GitHub anchor slug
+ * Text is lowercased, punctuation is removed and each space becomes a hyphen.
+ * @param text The heading text without # markers
+ * @returns The slug (e.g., "getting-started-with-v2")
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .replace(INLINE_LINK_PATTERN, '$1')
+    .replace(HTML_TAG_PATTERN, '')
+    .trim()
+    .toLowerCase()
+    .replace(SLUG_REMOVED_PATTERN, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * Create slugs for the headings of a document
+ * Repeated slugs get "-1", "-2", ... suffixes in document order, as on GitHub.
+ * @param texts Heading texts in document order
+ * @returns One unique slug per heading
+ */
+export function createHeadingSlugs(texts: string[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return texts.map(text => {
+    const base = slugifyHeading(text);
+    let slug = base;
+    let count = occurrences.get(base) ?? 0;
+
+    while (occurrences.has(slug)) {
+      count++;
+      slug = `${base}-${count}`;
+    }
+
+    occurrences.set(base, count);
+    occurrences.set(slug, 0);
+    return slug;
+  });
+}
+
+/**
+ * Check if a selector looks like a slug rather than heading text
+ * @param selector The heading selector (without # prefix)
+ */
+export function isHeadingSlug(selector: string): boolean {
+  return selector.includes('-') && slugifyHeading(selector) === selector;
+}
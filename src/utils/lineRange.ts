@@ -0,0 +1,105 @@
+import type { LineRange } from '../types';
+import { Result, Ok, Err } from './result';
+
+/**
+ * Line range selection utilities
+ * Handles the #L10-L40 family of transclusion anchors
+ */
+
+/**
+ * Line range extraction error
+ */
+export interface LineRangeError {
+  code: 'INVALID_LINE_RANGE' | 'LINE_RANGE_OUT_OF_BOUNDS';
+  message: string;
+}
+
+/**
+ * Pattern for line range anchors: L7, L10-, L10-40, L10-L40
+ */
+const LINE_RANGE_PATTERN = /^L(\d+)(?:(-)(?:L?(\d+))?)?$/;
+
+/**
+ * Check if an anchor is a line range selector
+ */
+export function isLineRangeSpec(spec: string): boolean {
+  return LINE_RANGE_PATTERN.test(spec.trim());
+}
+
+/**
+ * Parse a line range anchor
+ * @param spec The anchor text (e.g., "L10-L40")
+ * @returns The parsed range, or null if the anchor is not a line range
+ */
+export function parseLineRange(spec: string): LineRange | null {
+  const match = spec.trim().match(LINE_RANGE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const start = parseInt(match[1], 10);
+
+  // Single line: L7
+  if (!match[2]) {
+    return { start, end: start };
+  }
+
+  // Open-ended range: L10-
+  if (match[3] === undefined) {
+    return { start };
+  }
+
+  return { start, end: parseInt(match[3], 10) };
+}
+
+/**
+ * Format a line range for display in messages
+ */
+export function formatLineRange(range: LineRange): string {
+  if (range.end === undefined) {
+    return `L${range.start}-`;
+  }
+  if (range.end === range.start) {
+    return `L${range.start}`;
+  }
+  return `L${range.start}-L${range.end}`;
+}
+
+/**
+ * Extract a range of lines from content
+ * Line numbers are 1-indexed and the end line is inclusive
+ * @param content The content to extract from
+ * @param range The line range to extract
+ * @returns The selected lines with original indentation preserved
+ */
+export function extractLineRange(
+  content: string,
+  range: LineRange
+): Result<string, LineRangeError> {
+  const { start, end } = range;
+
+  if (start < 1 || (end !== undefined && end < start)) {
+    return Err({
+      code: 'INVALID_LINE_RANGE',
+      message: end !== undefined && end < start
+        ? `Invalid line range ${formatLineRange(range)}: start line (${start}) > end line (${end})`
+        : `Invalid line range ${formatLineRange(range)}: line numbers start at 1`
+    });
+  }
+
+  const lines = content.split(/\r?\n/);
+  // A trailing newline does not start another line
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const lastLine = end ?? start;
+  if (lastLine > lines.length) {
+    return Err({
+      code: 'LINE_RANGE_OUT_OF_BOUNDS',
+      message: `Line range ${formatLineRange(range)} exceeds file length (${lines.length} lines)`
+    });
+  }
+
+  return Ok(lines.slice(start - 1, end ?? lines.length).join('\n'));
+}
@@ -0,0 +1,187 @@
+/**
+ * Rewrite relative links in transcluded content
+ * Links in a child file are relative to the child's directory; once the content is
+ * embedded in the root document they must be rebased to the root output directory.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { CodeFenceTracker } from './codeFenceTracker';
+
+/**
+ * How rewritten link targets are emitted
+ * - relative: relative to the root output directory (e.g., docs/api/img/flow.png)
+ * - root-relative: relative to the base path with a leading slash (e.g., /docs/api/img/flow.png)
+ * - absolute: a full URL, from linkBaseUrl or a file:// URL
+ */
+export type LinkMode = 'relative' | 'absolute' | 'root-relative';
+
+/**
+ * Options for rewriting links
+ */
+export interface LinkRewriteOptions {
+  /**
+   * Directory of the file the content was read from
+   */
+  sourceDir: string;
+
+  /**
+   * Directory of the root output file
+   */
+  targetDir: string;
+
+  /**
+   * Root directory for root-relative and absolute links (the base path)
+   */
+  rootDir: string;
+
+  /**
+   * Output mode for rewritten links (default: relative)
+   */
+  mode?: LinkMode;
+
+  /**
+   * URL that rootDir is served from, used by absolute mode
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Inline link or image: [text](url "title") or ![alt](<url>)
+ */
+const INLINE_LINK_PATTERN = /(!?\[[^\]]*\]\(\s*)(<[^>]*>|[^\s)]+)/g;
+
+/**
+ * Reference-style link definition: [id]: url "title"
+ */
+const LINK_DEFINITION_PATTERN = /^( {0,3}\[[^\]]+\]:\s*)(<[^>]*>|\S+)/;
+
+/**
+ * Raw HTML src and href attributes
+ */
+const HTML_ATTRIBUTE_PATTERN = /(\s(?:src|href)\s*=\s*)(["'])(.*?)\2/gi;
+
+/**
+ * Inline code spans, which are never rewritten
+ */
+const INLINE_CODE_PATTERN = /(`+)[\s\S]*?\1/g;
+
+/**
+ * Targets that are not relative file paths: URLs with a scheme, protocol-relative
+ * and absolute paths, fragments, and unresolved template variables
+ */
+const NON_RELATIVE_TARGET_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/|#|\{\{|~)/i;
+
+/**
+ * Check if a link target is a relative path that needs rebasing
+ */
+export function isRelativeLinkTarget(target: string): boolean {
+  return target !== '' && !NON_RELATIVE_TARGET_PATTERN.test(target);
+}
+
+/**
+ * Convert a native path to URL path separators
+ */
+function toUrlPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Rebase a single link target
+ * @param target The link target as written in the source file
+ * @param options Rewrite options
+ * @returns The rebased target, or the original target if it is not relative
+ */
+export function rebaseLinkTarget(target: string, options: LinkRewriteOptions): string {
+  if (!isRelativeLinkTarget(target)) {
+    return target;
+  }
+
+  // Keep the query string and fragment untouched
+  const suffixIndex = target.search(/[?#]/);
+  const linkPath = suffixIndex === -1 ? target : target.substring(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? '' : target.substring(suffixIndex);
+  if (!linkPath) {
+    return target;
+  }
+
+  const absoluteTarget = path.resolve(options.sourceDir, linkPath);
+  const keepTrailingSlash = linkPath.endsWith('/') ? '/' : '';
+
+  switch (options.mode ?? 'relative') {
+    case 'root-relative':
+      return `/${toUrlPath(path.relative(options.rootDir, absoluteTarget))}${keepTrailingSlash}${suffix}`;
+
+    case 'absolute': {
+      if (options.baseUrl) {
+        const relativeToRoot = toUrlPath(path.relative(options.rootDir, absoluteTarget));
+        return `${options.baseUrl.replace(/\/+$/, '')}/${relativeToRoot}${keepTrailingSlash}${suffix}`;
+      }
+      return `${pathToFileURL(absoluteTarget).href}${keepTrailingSlash}${suffix}`;
+    }
+
+    default: {
+      const relative = toUrlPath(path.relative(options.targetDir, absoluteTarget)) || '.';
+      return `${relative}${keepTrailingSlash}${suffix}`;
+    }
+  }
+}
+
+/**
+ * Rebase a target that may be wrapped in angle brackets
+ */
+function rebaseWrappedTarget(target: string, options: LinkRewriteOptions): string {
+  if (target.startsWith('<') && target.endsWith('>')) {
+    return `<${rebaseLinkTarget(target.slice(1, -1), options)}>`;
+  }
+  return rebaseLinkTarget(target, options);
+}
+
+/**
+ * Rewrite links in a line of text outside inline code
+ */
+function rewriteText(text: string, options: LinkRewriteOptions): string {
+  return text
+    .replace(LINK_DEFINITION_PATTERN, (_match, prefix: string, target: string) =>
+      prefix + rebaseWrappedTarget(target, options))
+    .replace(INLINE_LINK_PATTERN, (_match, prefix: string, target: string) =>
+      prefix + rebaseWrappedTarget(target, options))
+    .replace(HTML_ATTRIBUTE_PATTERN, (_match, prefix: string, quote: string, target: string) =>
+      `${prefix}${quote}${rebaseLinkTarget(target, options)}${quote}`);
+}
+
+/**
+ * Rewrite a line, leaving inline code spans untouched
+ */
+function rewriteLine(line: string, options: LinkRewriteOptions): string {
+  let output = '';
+  let cursor = 0;
+
+  for (const match of line.matchAll(INLINE_CODE_PATTERN)) {
+    const start = match.index ?? 0;
+    output += rewriteText(line.slice(cursor, start), options) + match[0];
+    cursor = start + match[0].length;
+  }
+
+  return output + rewriteText(line.slice(cursor), options);
+}
+
+/**
+ * Rebase relative links, images, link definitions and HTML src/href attributes
+ * Fenced code blocks and inline code are left unchanged.
+ * @param content The transcluded content
+ * @param options Rewrite options
+ * @returns Content with rebased links
+ */
+export function rewriteLinks(content: string, options: LinkRewriteOptions): string {
+  const mode = options.mode ?? 'relative';
+  if (mode === 'relative' && path.resolve(options.sourceDir) === path.resolve(options.targetDir)) {
+    return content;
+  }
+
+  const fence = new CodeFenceTracker();
+  return content
+    .split('\n')
+    .map(line => (fence.update(line) ? line : rewriteLine(line, options)))
+    .join('\n');
+}
@@ -2,6 +2,10 @@
  * Parser utility functions for tokenization and text processing
  */
 
+import type { LineRange, TransclusionTarget } from '../types';
+import { parseLineRange } from './lineRange';
+import { isRemoteReference } from './remoteFetcher';
+
 /**
  * Token types found during parsing
  */
@@ -14,8 +18,52 @@ export interface Token {
   path?: string;
   heading?: string;
   headingEnd?: string; // For heading range extraction
+  lineRange?: LineRange; // For line range selection
+  blockId?: string; // For block references (#^block-id)
+  region?: string; // For named regions (#region=name)
+  headings?: string[]; // For multiple heading extraction (#A,B,C)
+  parameters?: Record<string, string>; // For reference parameters (|key=value)
+  alternatives?: TransclusionTarget[]; // For fallback targets (a.md || b.md)
+  optional?: boolean; // For optional includes (maybe.md?)
+  revision?: string; // For git revisions (file.md@v1.2.0)
 }
 
+/**
+ * Anchor prefix selecting a named region (e.g., "region=setup")
+ */
+const REGION_ANCHOR_PATTERN = /^region=/;
+
+/**
+ * Pattern for a heading occurrence index (e.g., the "[2]" in "#Examples[2]")
+ */
+const HEADING_INDEX_SUFFIX = /^\[\d+\]/;
+
+/**
+ * Pattern for reference parameter keys (e.g., the "shift" in "|shift=+2")
+ */
+const PARAMETER_KEY_PATTERN = /^[A-Za-z][\w-]*$/;
+
+/**
+ * Single pipe introducing reference parameters, as opposed to the "||" alternative separator
+ */
+const PARAMETER_SEPARATOR = /(?<!\|)\|(?!\|)/;
+
+/**
+ * Separator between alternative targets (e.g., "local.md || defaults.md")
+ */
+const ALTERNATIVE_SEPARATOR = /\s*\|\|\s*/;
+
+/**
+ * Marker after a path for an optional include (e.g., "maybe.md?")
+ */
+const OPTIONAL_MARKER = '?';
+
+/**
+ * Git revision after a path (e.g., "CHANGELOG.md@v1.2.0" or "api.md@HEAD~3")
+ * An "@" at the start of the path or of a folder is part of the path (e.g., "@shared/a.md").
+ */
+const REVISION_SUFFIX_PATTERN = /^(.*[^/@\s])@([\w.~^/-]+)$/;
+
 /**
  * Character mask to track regions that should be ignored
  */
@@ -104,6 +152,113 @@ export function maskHtmlComments(text: string, mask: CharacterMask): void {
   }
 }
 
+/**
+ * Parse reference parameters separated by pipes (e.g., "shift=+2|lang=ts")
+ * @returns The parameters, or undefined unless every entry is a key=value pair
+ */
+export function parseReferenceParameters(text: string): Record<string, string> | undefined {
+  const parameters: Record<string, string> = {};
+  
+  for (const entry of text.split('|')) {
+    const equalsIndex = entry.indexOf('=');
+    const key = entry.substring(0, equalsIndex).trim();
+    if (equalsIndex === -1 || !PARAMETER_KEY_PATTERN.test(key)) {
+      return undefined;
+    }
+    parameters[key] = entry.substring(equalsIndex + 1).trim();
+  }
+  
+  return parameters;
+}
+
+/**
+ * Parse one target of a reference: a path followed by an optional anchor
+ * @param text The target text (e.g., "file.md#Setup", "maybe.md?" or "CHANGELOG.md@v1.2.0")
+ * @returns The target and whether it is marked optional, or null if the path is empty
+ */
+export function parseReferenceTarget(text: string): { target: TransclusionTarget; optional: boolean } | null {
+  // Check for heading separator
+  const headingIndex = text.indexOf('#');
+  let path: string;
+  let heading: string | undefined;
+  let headingEnd: string | undefined;
+  let lineRange: LineRange | undefined;
+  let blockId: string | undefined;
+  let region: string | undefined;
+  let headings: string[] | undefined;
+  
+  if (headingIndex !== -1) {
+    path = text.substring(0, headingIndex).trim();
+    let headingPart = text.substring(headingIndex + 1).trim();
+    
+    // Check for a trailing line range (#L10-L40 or #heading#L10-L40)
+    const lineRangeIndex = headingPart.lastIndexOf('#');
+    const lineRangeSpec = headingPart.substring(lineRangeIndex + 1);
+    const parsedRange = parseLineRange(lineRangeSpec);
+    if (parsedRange) {
+      lineRange = parsedRange;
+      headingPart = lineRangeIndex === -1 ? '' : headingPart.substring(0, lineRangeIndex).trim();
+    }
+    
+    // Check for range syntax (colon separator)
+    const colonIndex = headingPart.indexOf(':');
+    if (colonIndex !== -1) {
+      const startHeading = headingPart.substring(0, colonIndex).trim();
+      heading = startHeading || undefined; // Don't set empty string as heading
+      headingEnd = headingPart.substring(colonIndex + 1).trim();
+    }
+    // Check for named region (region=name)
+    else if (REGION_ANCHOR_PATTERN.test(headingPart)) {
+      region = headingPart.replace(REGION_ANCHOR_PATTERN, '').trim() || undefined;
+    }
+    // Check for block reference (caret prefix)
+    else if (headingPart.startsWith('^')) {
+      blockId = headingPart.substring(1).trim() || undefined;
+    } else {
+      heading = headingPart;
+      
+      // Check for a list of headings (comma separator)
+      const headingList = headingPart.split(',').map(h => h.trim()).filter(Boolean);
+      if (headingList.length > 1) {
+        headings = headingList;
+      }
+    }
+  } else {
+    path = text.trim();
+  }
+  
+  // Check for the optional marker after the path
+  const optional = path.endsWith(OPTIONAL_MARKER);
+  if (optional) {
+    path = path.slice(0, -OPTIONAL_MARKER.length).trim();
+  }
+  
+  // Check for a git revision after the path (an "@" in a URL is part of the URL)
+  const revisionMatch = isRemoteReference(path) ? null : path.match(REVISION_SUFFIX_PATTERN);
+  const revision = revisionMatch?.[2];
+  if (revisionMatch) {
+    path = revisionMatch[1];
+  }
+  
+  if (!path) {
+    return null;
+  }
+  
+  return {
+    target: {
+      path,
+      ...(revision && { revision }),
+      ...(heading && { heading }),
+      ...(headingEnd !== undefined && { headingEnd }),
+      ...(lineRange && { lineRange }),
+      ...(blockId && { blockId }),
+      ...(region && { region }),
+      ...(headings && { headings })
+    },
+    optional
+  };
+}
+
 /**
  * Find transclusion tokens in text
  */
@@ -122,7 +277,11 @@ export function findTransclusionTokens(text: string): Token[] {
     let endPattern = -1;
     
     while (i < text.length - 1 && bracketCount > 0) {
-      if (text[i] === '[' && text[i + 1] === '[') {
+      const occurrenceIndex = text[i] === '[' ? text.slice(i).match(HEADING_INDEX_SUFFIX) : null;
+      if (occurrenceIndex) {
+        // Skip heading occurrence indexes like [2] so "#Examples[2]]]" stays intact
+        i += occurrenceIndex[0].length;
+      } else if (text[i] === '[' && text[i + 1] === '[') {
         bracketCount++;
         i += 2;
       } else if (text[i] === ']' && text[i + 1] === ']') {
@@ -143,41 +302,30 @@ export function findTransclusionTokens(text: string): Token[] {
     }
     
     // Extract the content between ![[ and ]]
-    const content = text.substring(startPattern + 3, endPattern);
+    const inner = text.substring(startPattern + 3, endPattern);
     
-    // Check for heading separator
-    const headingIndex = content.indexOf('#');
-    let path: string;
-    let heading: string | undefined;
-    let headingEnd: string | undefined;
+    // Split off reference parameters (e.g., ![[file#heading|shift=+2]]), which come after any anchor
+    const pipeIndex = inner.search(PARAMETER_SEPARATOR);
+    const parameters = pipeIndex === -1 || inner.includes('#', pipeIndex)
+      ? undefined
+      : parseReferenceParameters(inner.substring(pipeIndex + 1));
+    const content = parameters ? inner.substring(0, pipeIndex) : inner;
     
-    if (headingIndex !== -1) {
-      path = content.substring(0, headingIndex).trim();
-      const headingPart = content.substring(headingIndex + 1).trim();
-      
-      // Check for range syntax (colon separator)
-      const colonIndex = headingPart.indexOf(':');
-      if (colonIndex !== -1) {
-        const startHeading = headingPart.substring(0, colonIndex).trim();
-        heading = startHeading || undefined; // Don't set empty string as heading
-        headingEnd = headingPart.substring(colonIndex + 1).trim();
-      } else {
-        heading = headingPart;
-      }
-    } else {
-      path = content.trim();
-    }
+    // Split alternative targets (e.g., ![[local.md || defaults.md]]), skipping references with an empty target
+    const targets = content.split(ALTERNATIVE_SEPARATOR).map(parseReferenceTarget);
+    const [primary, ...alternatives] = targets;
     
-    // Skip empty paths
-    if (path) {
+    if (primary && alternatives.every(Boolean)) {
+      const optional = targets.some(target => target?.optional);
       tokens.push({
         type: 'transclusion',
         value: text.substring(startPattern, endPattern + 2),
         startIndex: startPattern,
         endIndex: endPattern + 2,
-        path,
-        ...(heading && { heading }),
-        ...(headingEnd !== undefined && { headingEnd })
+        ...primary.target,
+        ...(parameters && { parameters }),
+        ...(alternatives.length > 0 && { alternatives: alternatives.map(alternative => alternative!.target) }),
+        ...(optional && { optional })
       });
     }
     
@@ -197,6 +345,14 @@ export function createReferenceFromToken(token: Token): {
   endIndex: number;
   heading?: string;
   headingEnd?: string;
+  lineRange?: LineRange;
+  blockId?: string;
+  region?: string;
+  headings?: string[];
+  parameters?: Record<string, string>;
+  alternatives?: TransclusionTarget[];
+  optional?: boolean;
+  revision?: string;
 } | null {
   if (token.type !== 'transclusion' || !token.path) {
     return null;
@@ -208,6 +364,14 @@ export function createReferenceFromToken(token: Token): {
     startIndex: token.startIndex,
     endIndex: token.endIndex,
     ...(token.heading && { heading: token.heading }),
-    ...(token.headingEnd !== undefined && { headingEnd: token.headingEnd })
+    ...(token.headingEnd !== undefined && { headingEnd: token.headingEnd }),
+    ...(token.lineRange && { lineRange: token.lineRange }),
+    ...(token.blockId && { blockId: token.blockId }),
+    ...(token.region && { region: token.region }),
+    ...(token.headings && { headings: token.headings }),
+    ...(token.parameters && { parameters: token.parameters }),
+    ...(token.alternatives && { alternatives: token.alternatives }),
+    ...(token.optional && { optional: token.optional }),
+    ...(token.revision && { revision: token.revision })
   };
 }
\ No newline at end of file
@@ -1,13 +1,22 @@
 import * as path from 'path';
 import * as fs from 'fs';
-import { validatePath, isWithinBasePath, SecurityErrorCode } from '../security';
+import {
+  validatePath,
+  isWithinAllowedRoots,
+  isAllowedBySymlinkPolicy,
+  checkTargetPolicy,
+  getRealPath,
+  SecurityErrorCode,
+  SymlinkPolicy,
+  TargetPolicy
+} from '../security';
 import { Result, Ok, Err } from './result';
 
 /**
  * Error types for path resolution
  */
 export interface PathResolutionError {
-  code: 'INVALID_PATH' | 'OUTSIDE_BASE' | 'NOT_FOUND' | 'VARIABLE_ERROR';
+  code: 'INVALID_PATH' | 'OUTSIDE_BASE' | 'SYMLINK_NOT_ALLOWED' | 'POLICY_VIOLATION' | 'NOT_FOUND' | 'VARIABLE_ERROR';
   message: string;
   path: string;
   errorCode?: number;
@@ -61,14 +70,18 @@ export function validateReferencePath(
 }
 
 /**
- * Check if resolved path is within base directory
+ * Check if resolved path is within base directory or one of the allowed roots,
+ * and that symlinks on the way are allowed by the symlink policy
  */
 export function validateWithinBase(
   absolutePath: string,
   basePath: string,
-  relativePath: string
+  relativePath: string,
+  allowedRoots: string[] = [],
+  symlinkPolicy?: SymlinkPolicy,
+  realPaths?: Map<string, string>
 ): Result<void, PathResolutionError> {
-  if (!isWithinBasePath(absolutePath, basePath)) {
+  if (!isWithinAllowedRoots(absolutePath, basePath, allowedRoots)) {
     return Err({
       code: 'OUTSIDE_BASE',
       message: `Path resolves outside base directory: ${relativePath}`,
@@ -76,6 +89,46 @@ export function validateWithinBase(
       errorCode: SecurityErrorCode.OUTSIDE_BASE
     });
   }
+  if (!isAllowedBySymlinkPolicy(absolutePath, basePath, allowedRoots, symlinkPolicy, realPaths)) {
+    return Err({
+      code: 'SYMLINK_NOT_ALLOWED',
+      message: symlinkPolicy === 'deny'
+        ? `Symbolic links are not allowed: ${relativePath}`
+        : `Symbolic link resolves outside base directory: ${relativePath}`,
+      path: relativePath,
+      errorCode: SecurityErrorCode.SYMLINK_NOT_ALLOWED
+    });
+  }
+  return Ok(undefined);
+}
+
+/**
+ * Check if resolved path may be transcluded according to the allow and deny globs
+ * Symlinks are checked both where they are and where they point, relative to the real base directory.
+ */
+export function validateTargetPolicy(
+  absolutePath: string,
+  basePath: string,
+  relativePath: string,
+  policy: TargetPolicy,
+  realPaths?: Map<string, string>
+): Result<void, PathResolutionError> {
+  let verdict = checkTargetPolicy(absolutePath, basePath, policy);
+  const hasGlobs = (policy.allow ?? []).length > 0 || (policy.deny ?? []).length > 0;
+  const realPath = verdict.allowed && hasGlobs ? getRealPath(absolutePath, realPaths) : null;
+  if (realPath !== null && realPath !== path.resolve(absolutePath)) {
+    verdict = checkTargetPolicy(realPath, getRealPath(basePath, realPaths) ?? basePath, policy);
+  }
+  if (!verdict.allowed) {
+    return Err({
+      code: 'POLICY_VIOLATION',
+      message: verdict.deniedBy !== undefined
+        ? `Path matches deny pattern "${verdict.deniedBy}": ${relativePath}`
+        : `Path matches no allow pattern (${(policy.allow ?? []).join(', ')}): ${relativePath}`,
+      path: relativePath,
+      errorCode: SecurityErrorCode.POLICY_VIOLATION
+    });
+  }
   return Ok(undefined);
 }
 
@@ -109,6 +162,30 @@ export function findExistingFile(
   return null;
 }
 
+/**
+ * Match a reference against path aliases (e.g., "@shared/legal/disclaimer.md")
+ * @param reference The reference path
+ * @param aliases Alias names mapped to root directories, relative to the base path
+ * @param basePath Base directory for relative alias roots
+ * @returns The matched alias, its root and the path below it, or null if no alias matches
+ */
+export function resolveAlias(
+  reference: string,
+  aliases: Record<string, string>,
+  basePath: string
+): { alias: string; root: string; path: string } | null {
+  for (const [alias, root] of Object.entries(aliases)) {
+    if (reference === alias || reference.startsWith(`${alias}/`) || reference.startsWith(`${alias}\\`)) {
+      return {
+        alias,
+        root: path.resolve(basePath, root),
+        path: reference.substring(alias.length + 1)
+      };
+    }
+  }
+  return null;
+}
+
 /**
  * Normalize a file path (resolve . and .. segments)
  */
@@ -0,0 +1,172 @@
+/**
+ * Extract named regions marked with region/endregion comments
+ *
+ * Supported markers:
+ *   <!-- region: name -->      <!-- endregion -->
+ *   <!-- #region name -->      <!-- #endregion -->
+ *   // #region name            // #endregion
+ *   #region name               #endregion
+ *
+ * Line comment markers also accept the --, ; and block comment prefixes.
+ * A bare # must be followed directly by "region" so Markdown headings never match.
+ */
+
+import { Result, Ok, Err } from './result';
+
+/**
+ * Region extraction error
+ */
+export interface RegionError {
+  code: 'REGION_NOT_FOUND' | 'UNCLOSED_REGION';
+  message: string;
+}
+
+/**
+ * Location of a named region
+ */
+export interface RegionLocation {
+  /**
+   * Region name
+   */
+  name: string;
+
+  /**
+   * Line of the start marker (0-indexed)
+   */
+  startLine: number;
+
+  /**
+   * Line of the end marker (0-indexed), or undefined if the region is never closed
+   */
+  endLine?: number;
+}
+
+/**
+ * Start marker in an HTML comment or a line comment
+ */
+const REGION_START_PATTERN = /^\s*(?:<!--\s*#?region(?::\s*|\s+)(.+?)\s*-->|(?:(?:\/\/|\/\*|--|;)\s*#?|#)region(?::\s*|\s+)(.+?)\s*(?:\*\/)?)\s*$/;
+
+/**
+ * End marker in an HTML comment or a line comment, with an optional region name
+ */
+const REGION_END_PATTERN = /^\s*(?:<!--\s*#?endregion(?:(?::\s*|\s+)(.*?))?\s*-->|(?:(?:\/\/|\/\*|--|;)\s*#?|#)endregion(?:(?::\s*|\s+)(.*?))?\s*(?:\*\/)?)\s*$/;
+
+/**
+ * Get the region name if a line is a start marker
+ */
+function matchRegionStart(line: string): string | null {
+  const match = line.match(REGION_START_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return (match[1] ?? match[2]).trim();
+}
+
+/**
+ * Get the closed region name (or empty string) if a line is an end marker
+ */
+function matchRegionEnd(line: string): string | null {
+  const match = line.match(REGION_END_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return (match[1] ?? match[2] ?? '').trim();
+}
+
+/**
+ * Check if a line is a region start or end marker
+ */
+export function isRegionMarker(line: string): boolean {
+  return matchRegionStart(line) !== null || matchRegionEnd(line) !== null;
+}
+
+/**
+ * Index all regions in content, supporting nested regions
+ * @param content The content to scan
+ * @returns Region locations ordered by start line
+ */
+export function indexRegions(content: string): RegionLocation[] {
+  const lines = content.split('\n');
+  const regions: RegionLocation[] = [];
+  const open: RegionLocation[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const startName = matchRegionStart(lines[i]);
+    if (startName !== null) {
+      const region: RegionLocation = { name: startName, startLine: i };
+      regions.push(region);
+      open.push(region);
+      continue;
+    }
+
+    const endName = matchRegionEnd(lines[i]);
+    if (endName === null || open.length === 0) {
+      continue;
+    }
+
+    // A named end marker closes the innermost region with that name
+    let index = open.length - 1;
+    if (endName) {
+      const named = open.map(r => r.name).lastIndexOf(endName);
+      if (named !== -1) {
+        index = named;
+      }
+    }
+    open[index].endLine = i;
+    open.splice(index, 1);
+  }
+
+  return regions;
+}
+
+/**
+ * List the names of all regions in content
+ */
+export function extractRegionNames(content: string): string[] {
+  return indexRegions(content).map(region => region.name);
+}
+
+/**
+ * Extract the content of a named region
+ * Marker lines, including those of nested regions, are stripped from the output.
+ * @param content The full file content
+ * @param name The region name
+ * @returns The region content or an error if the region is missing or unclosed
+ */
+export function extractRegionContent(
+  content: string,
+  name: string
+): Result<string, RegionError> {
+  const regionName = name.trim();
+  const region = indexRegions(content).find(r => r.name === regionName);
+
+  if (!region) {
+    return Err({
+      code: 'REGION_NOT_FOUND',
+      message: `Region "${regionName}" not found`
+    });
+  }
+
+  if (region.endLine === undefined) {
+    return Err({
+      code: 'UNCLOSED_REGION',
+      message: `Region "${regionName}" starting at line ${region.startLine + 1} is never closed`
+    });
+  }
+
+  const extractedLines = content
+    .split('\n')
+    .slice(region.startLine + 1, region.endLine)
+    .map(line => line.replace(/\r$/, ''))
+    .filter(line => !isRegionMarker(line));
+
+  // Remove blank lines around the region body, keeping indentation
+  while (extractedLines.length > 0 && extractedLines[0].trim() === '') {
+    extractedLines.shift();
+  }
+  while (extractedLines.length > 0 && extractedLines[extractedLines.length - 1].trim() === '') {
+    extractedLines.pop();
+  }
+
+  return Ok(extractedLines.join('\n'));
+}
@@ -0,0 +1,217 @@
+/**
+ * Remote transclusion: fetching `![[https://example.org/terms.md]]` from allowed hosts
+ * Fetched files are kept in a content-addressed cache on disk, so documents can be rebuilt offline.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import type { TransclusionOptions, RemoteFetcher } from '../types';
+
+/**
+ * Default timeout for fetching a remote reference in milliseconds
+ */
+export const DEFAULT_FETCH_TIMEOUT = 10000;
+
+/**
+ * Maximum number of redirects followed by the HTTP fetcher
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Maximum size of a fetched file (same limit as buffered file reading)
+ */
+const MAX_REMOTE_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Remote references use the http or https scheme
+ */
+const REMOTE_REFERENCE_PATTERN = /^https?:\/\//i;
+
+/**
+ * Options used to fetch remote references
+ */
+export type RemoteFetchOptions = Pick<
+  TransclusionOptions,
+  'cache' | 'allowedHosts' | 'fetcher' | 'fetchTimeout' | 'remoteCacheDir' | 'offline'
+>;
+
+/**
+ * Check if a reference is a remote URL
+ */
+export function isRemoteReference(reference: string): boolean {
+  return REMOTE_REFERENCE_PATTERN.test(reference);
+}
+
+/**
+ * Check if a URL's host is on the allowlist
+ * Entries match the hostname, the host with port ("localhost:8080") or subdomains ("*.example.org").
+ */
+export function isHostAllowed(url: URL, allowedHosts: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  const host = url.host.toLowerCase();
+
+  return allowedHosts.some(entry => {
+    const allowed = entry.trim().toLowerCase();
+    if (allowed.startsWith('*.')) {
+      return hostname.endsWith(allowed.substring(1));
+    }
+    return allowed === hostname || allowed === host;
+  });
+}
+
+/**
+ * Send a GET request and buffer the response
+ */
+function httpGet(
+  url: URL,
+  timeout: number
+): Promise<{ statusCode: number; location?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, { timeout }, response => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_REMOTE_FILE_SIZE) {
+          request.destroy(new Error(`Remote file too large (max ${MAX_REMOTE_FILE_SIZE} bytes): ${url.href}`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({
+        statusCode: response.statusCode ?? 0,
+        location: response.headers.location,
+        body: Buffer.concat(chunks).toString('utf8')
+      }));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${timeout}ms fetching ${url.href}`)));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Create a fetcher using Node's http and https clients
+ * Redirects are followed only to allowed hosts.
+ * @param allowedHosts Hosts redirects may lead to (default: any host)
+ */
+export function createHttpFetcher(allowedHosts?: string[]): RemoteFetcher {
+  return {
+    async fetch(url: string, { timeout }: { timeout: number }): Promise<string> {
+      let current = new URL(url);
+
+      for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+        const response = await httpGet(current, timeout);
+
+        if (response.statusCode >= 300 && response.statusCode < 400 && response.location) {
+          current = new URL(response.location, current);
+          if (!isRemoteReference(current.href) || (allowedHosts && !isHostAllowed(current, allowedHosts))) {
+            throw new Error(`Redirect to a host that is not allowed: ${current.href}`);
+          }
+          continue;
+        }
+
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+          throw new Error(`HTTP ${response.statusCode} fetching ${current.href}`);
+        }
+        return response.body;
+      }
+
+      throw new Error(`Too many redirects fetching ${url}`);
+    }
+  };
+}
+
+/**
+ * Reject a fetch that takes longer than the timeout, whatever the fetcher does
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, url: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms fetching ${url}`)), timeout);
+  });
+  return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * SHA-256 hash of a value as hex
+ */
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Read a URL's content from the remote cache
+ * Content is stored under objects/<content hash>; urls/<url hash> holds the content hash.
+ * @returns The content, or undefined if the URL is not cached or the entry is corrupt
+ */
+export async function readRemoteCache(cacheDir: string, url: string): Promise<string | undefined> {
+  try {
+    const contentHash = (await fs.readFile(path.join(cacheDir, 'urls', sha256(url)), 'utf8')).trim();
+    const content = await fs.readFile(path.join(cacheDir, 'objects', contentHash), 'utf8');
+    return sha256(content) === contentHash ? content : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store a URL's content in the remote cache
+ */
+export async function writeRemoteCache(cacheDir: string, url: string, content: string): Promise<void> {
+  const contentHash = sha256(content);
+  await fs.mkdir(path.join(cacheDir, 'objects'), { recursive: true });
+  await fs.mkdir(path.join(cacheDir, 'urls'), { recursive: true });
+  await fs.writeFile(path.join(cacheDir, 'objects', contentHash), content);
+  await fs.writeFile(path.join(cacheDir, 'urls', sha256(url)), contentHash);
+}
+
+/**
+ * Fetch the content of a remote reference
+ * The remote cache is used in offline mode and when fetching fails.
+ * @param url The URL, whose host must already be allowed
+ * @param options Fetcher, timeout and cache options
+ * @returns The content
+ * @throws Error if the content can neither be fetched nor read from the remote cache
+ */
+export async function fetchRemote(url: string, options: RemoteFetchOptions): Promise<string> {
+  const cached = options.cache?.get(url);
+  if (cached) {
+    return cached.content;
+  }
+
+  const { remoteCacheDir, offline } = options;
+  let content: string | undefined;
+
+  if (offline) {
+    content = remoteCacheDir ? await readRemoteCache(remoteCacheDir, url) : undefined;
+    if (content === undefined) {
+      throw new Error(`Not in the remote cache (offline): ${url}`);
+    }
+  } else {
+    const timeout = options.fetchTimeout ?? DEFAULT_FETCH_TIMEOUT;
+    const fetcher = options.fetcher ?? createHttpFetcher(options.allowedHosts);
+    let fetched = false;
+    try {
+      content = await withTimeout(fetcher.fetch(url, { timeout }), timeout, url);
+      fetched = true;
+    } catch (error) {
+      content = remoteCacheDir ? await readRemoteCache(remoteCacheDir, url) : undefined;
+      if (content === undefined) {
+        throw error;
+      }
+    }
+    if (fetched && remoteCacheDir) {
+      await writeRemoteCache(remoteCacheDir, url, content);
+    }
+  }
+
+  options.cache?.set(url, content);
+  return content;
+}
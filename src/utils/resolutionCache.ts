@@ -0,0 +1,47 @@
+/**
+ * Caches for resolving references during one transclusion run
+ */
+
+import { buildVaultIndex, VaultIndex } from './vaultIndex';
+
+/**
+ * File system lookups reused while the references of a document are resolved
+ * A new cache is created for each transclude() call and each stream, so changes
+ * to the file system between runs are always seen.
+ */
+export class ResolutionCache {
+  /**
+   * Real paths of existing files by resolved path
+   * Paths that do not exist are never cached, since they may be created
+   * (e.g., as a symlink) while the run is in progress.
+   */
+  readonly realPaths = new Map<string, string>();
+
+  /**
+   * Vault indexes by case sensitivity and base path, built on the first vault lookup
+   */
+  private vaultIndexes = new Map<string, VaultIndex>();
+
+  /**
+   * Get the vault index of a base path, indexing it on first use
+   * @param basePath Directory to index
+   * @param ignoreCase Whether lookups ignore case
+   */
+  getVaultIndex(basePath: string, ignoreCase: boolean): VaultIndex {
+    const key = `${ignoreCase ? 'i' : 's'}:${basePath}`;
+    let index = this.vaultIndexes.get(key);
+    if (!index) {
+      index = buildVaultIndex(basePath, ignoreCase);
+      this.vaultIndexes.set(key, index);
+    }
+    return index;
+  }
+
+  /**
+   * Forget everything cached
+   */
+  clear(): void {
+    this.realPaths.clear();
+    this.vaultIndexes.clear();
+  }
+}
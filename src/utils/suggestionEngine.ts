@@ -5,10 +5,13 @@
  * and contextual analysis. Follows SRP, DI, and KISS principles.
  */
 
+import { extractBlockIds as indexBlockIds, parseHeadings } from './headingExtractor';
+import { isHeadingSlug } from './headingSlug';
+
 export interface Suggestion {
   readonly text: string;
   readonly confidence: number; // 0-100
-  readonly type: 'file' | 'heading' | 'variable' | 'path';
+  readonly type: 'file' | 'heading' | 'block' | 'variable' | 'path';
   readonly reason?: string;
 }
 
@@ -17,6 +20,7 @@ export interface SuggestionContext {
   readonly basePath?: string;
   readonly availableFiles?: string[];
   readonly availableHeadings?: string[];
+  readonly availableBlocks?: string[];
   readonly availableVariables?: Record<string, string>;
   readonly parentFile?: string;
 }
@@ -45,6 +49,8 @@ export interface FileSystemProvider {
  */
 export interface HeadingProvider {
   extractHeadings(content: string): string[];
+  extractHeadingSlugs?(content: string): string[];
+  extractBlockIds?(content: string): string[];
 }
 
 /**
@@ -77,9 +83,10 @@ export class SuggestionEngine {
 
   /**
    * Generate suggestions for heading not found errors
+   * Targets written as anchors (e.g., "getting-started") are also matched against heading slugs.
    */
   async suggestHeadings(target: string, filePath: string, context: SuggestionContext): Promise<Suggestion[]> {
-    const headings = context.availableHeadings || await this.getHeadingsFromFile(filePath);
+    const headings = context.availableHeadings || await this.getHeadingsFromFile(filePath, isHeadingSlug(target));
     const matches = this.fuzzyMatcher.match(target, headings);
     
     return matches
@@ -93,6 +100,24 @@ export class SuggestionEngine {
       }));
   }
 
+  /**
+   * Generate suggestions for block reference not found errors
+   */
+  async suggestBlocks(target: string, filePath: string, context: SuggestionContext): Promise<Suggestion[]> {
+    const blockIds = context.availableBlocks || await this.getBlockIdsFromFile(filePath);
+    const matches = this.fuzzyMatcher.match(target.replace(/^\^/, ''), blockIds);
+    
+    return matches
+      .filter(match => match.score >= 0.4) // Block ids are short, use heading threshold
+      .slice(0, 3)
+      .map(match => ({
+        text: `^${match.text}`,
+        confidence: Math.round(match.score * 100),
+        type: 'block' as const,
+        reason: match.score > 0.6 ? 'Similar block id' : 'Possible block match'
+      }));
+  }
+
   /**
    * Generate suggestions for undefined variable errors
    */
@@ -153,10 +178,26 @@ export class SuggestionEngine {
     return this.fileSystem.getMarkdownFiles(basePath);
   }
 
-  private async getHeadingsFromFile(filePath: string): Promise<string[]> {
+  private async getHeadingsFromFile(filePath: string, includeSlugs = false): Promise<string[]> {
+    try {
+      const content = await this.fileSystem.readFile(filePath);
+      const headings = this.headingProvider.extractHeadings(content);
+      if (!includeSlugs || !this.headingProvider.extractHeadingSlugs) {
+        return headings;
+      }
+      return [...new Set([...headings, ...this.headingProvider.extractHeadingSlugs(content)])];
+    } catch {
+      return [];
+    }
+  }
+
+  private async getBlockIdsFromFile(filePath: string): Promise<string[]> {
+    if (!this.headingProvider.extractBlockIds) {
+      return [];
+    }
     try {
       const content = await this.fileSystem.readFile(filePath);
-      return this.headingProvider.extractHeadings(content);
+      return this.headingProvider.extractBlockIds(content);
     } catch {
       return [];
     }
@@ -301,14 +342,18 @@ export class NodeFileSystemProvider implements FileSystemProvider {
  */
 export class MarkdownHeadingProvider implements HeadingProvider {
   extractHeadings(content: string): string[] {
-    const headingRegex = /^#{1,6}\s+(.+)$/gm;
-    const headings: string[] = [];
-    let match;
-    
-    while ((match = headingRegex.exec(content)) !== null) {
-      headings.push(match[1].trim());
-    }
-    
-    return headings;
+    return parseHeadings(content.split('\n'))
+      .map(heading => heading.text)
+      .filter(text => text !== '');
+  }
+
+  extractHeadingSlugs(content: string): string[] {
+    return parseHeadings(content.split('\n'))
+      .map(heading => heading.slug)
+      .filter(slug => slug !== '');
+  }
+
+  extractBlockIds(content: string): string[] {
+    return indexBlockIds(content);
   }
 }
\ No newline at end of file
@@ -3,12 +3,14 @@
  * Handles {{variable}} replacement in streamed content
  */
 
+import type { TemplateValue } from '../types';
+
 /**
  * Template variables map
  * Values can be static values or functions that return values
  */
 export interface TemplateVariables {
-  [key: string]: string | number | boolean | null | undefined | Date | (() => string | number | boolean | null | undefined | Date);
+  [key: string]: TemplateValue | (() => TemplateValue);
 }
 
 /**
@@ -29,6 +31,35 @@ export interface TemplateOptions {
  */
 const DEFAULT_VARIABLE_PATTERN = /\{\{([a-zA-Z_][a-zA-Z0-9_.-]*)\}\}/g;
 
+/**
+ * Look up a variable, following dotted paths into nested objects and arrays
+ * A variable named with dots (e.g., "app.name") takes precedence over a path into "app".
+ * @returns The value wrapped in an object, or undefined if the variable does not exist
+ */
+export function lookupVariable(
+  variables: TemplateVariables,
+  name: string
+): { value: TemplateValue | (() => TemplateValue) } | undefined {
+  if (Object.prototype.hasOwnProperty.call(variables, name)) {
+    return { value: variables[name] };
+  }
+
+  const [head, ...segments] = name.split('.');
+  if (segments.length === 0 || !Object.prototype.hasOwnProperty.call(variables, head)) {
+    return undefined;
+  }
+
+  let value = variables[head];
+  for (const segment of segments) {
+    if (typeof value !== 'object' || value === null || value instanceof Date ||
+        !Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = (value as Record<string, TemplateValue>)[segment];
+  }
+  return { value };
+}
+
 /**
  * Substitute template variables in content
  * @param content The content to process
@@ -49,9 +80,10 @@ export function substituteTemplateVariables(
   variablePattern.lastIndex = 0;
 
   return content.replace(variablePattern, (match, variableName) => {
-    // Check if variable exists
-    if (variableName in variables) {
-      let value = variables[variableName];
+    // Check if variable exists, directly or as a path into nested data
+    const variable = lookupVariable(variables, variableName);
+    if (variable) {
+      let value = variable.value;
       
       // If value is a function, call it to get the actual value
       if (typeof value === 'function') {
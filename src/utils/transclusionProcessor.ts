@@ -1,14 +1,40 @@
 import type {
   TransclusionToken,
+  TransclusionTarget,
   FileResolution,
   TransclusionOptions,
   TransclusionError
 } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
 import { parseTransclusionReferences } from '../parser';
-import { resolvePath } from '../resolver';
-import { readFile } from '../fileReader';
+import { resolvePath, substituteVariables } from '../resolver';
+import { resolveAlias } from './pathResolution';
+import { SecurityErrorCode } from '../security';
+import { isRemoteReference, isHostAllowed, fetchRemote } from './remoteFetcher';
+import { readFile, readGitBlob } from '../fileReader';
 import { trimForTransclusion } from './contentProcessing';
-import { extractHeadingContent, extractHeadingRange } from './headingExtractor';
+import {
+  extractHeadingContent,
+  checkHeadingAmbiguity,
+  extractHeadingRange,
+  extractBlockContent,
+  extractMultipleHeadings
+} from './headingExtractor';
+import { extractLineRange } from './lineRange';
+import { isMarkdownFile, getCodeLanguage, getFileName, wrapInCodeFence } from './codeLanguages';
+import { getTableDelimiter, parseTableOptions, renderTable } from './csvTable';
+import { extractRegionContent } from './regionExtractor';
+import { FrontmatterData, parseFrontmatter } from './frontmatter';
+import {
+  isGlobReference,
+  isGlobSort,
+  expandGlob,
+  parseGlobList,
+  getFrontmatterOrder,
+  sortGlobMatches
+} from './globExpander';
+import { Result, Ok, Err } from './result';
 
 /**
  * Reference with its resolved path information
@@ -16,6 +42,15 @@ import { extractHeadingContent, extractHeadingRange } from './headingExtractor';
 export interface ResolvedReference {
   ref: TransclusionToken;
   resolved: FileResolution;
+  /**
+   * Index of the target that was used for references with alternatives or optional references
+   * (0 for the primary target, -1 if none of the files exist)
+   */
+  alternativeIndex?: number;
+  /**
+   * Files matched by a glob or directory reference, each resolved on its own
+   */
+  matches?: ResolvedReference[];
 }
 
 /**
@@ -26,6 +61,259 @@ export interface ProcessedReference {
   resolved: FileResolution;
   content?: string;
   error?: TransclusionError;
+  /**
+   * Errors for parts of the reference that could not be included
+   * (e.g., missing headings in a multiple heading reference)
+   */
+  errors?: TransclusionError[];
+  /**
+   * Non-fatal warnings (e.g., an ambiguous heading)
+   */
+  warnings?: TransclusionError[];
+  /**
+   * Files read for a glob or directory reference, in sort order
+   */
+  parts?: ProcessedReference[];
+  /**
+   * Frontmatter fields of a Markdown file, visible to its content as {{page.*}}
+   */
+  frontmatter?: FrontmatterData;
+}
+
+/**
+ * Content selected from a file along with errors for missing selectors
+ */
+export interface SelectedContent {
+  /**
+   * Selected content, undefined when none of the requested headings were found
+   */
+  content?: string;
+  errors: TransclusionError[];
+  warnings: TransclusionError[];
+}
+
+/**
+ * Replace the path and selectors of a reference with those of an alternative target
+ */
+function withTarget(ref: TransclusionToken, target: TransclusionTarget): TransclusionToken {
+  const {
+    path: _path,
+    revision: _revision,
+    heading: _heading,
+    headingEnd: _headingEnd,
+    lineRange: _lineRange,
+    blockId: _blockId,
+    region: _region,
+    headings: _headings,
+    ...rest
+  } = ref;
+  return { ...rest, ...target };
+}
+
+/**
+ * Default extensions of the files included by directory references
+ */
+const DEFAULT_DIRECTORY_EXTENSIONS = ['.md', '.markdown'];
+
+/**
+ * Expand a glob or directory target and resolve every matching file
+ * The parent file's directory is searched first, then the base path, as in resolvePath.
+ */
+function resolveGlobTarget(
+  ref: TransclusionToken,
+  target: TransclusionTarget,
+  options: TransclusionOptions,
+  parentPath?: string
+): { resolved: FileResolution; matches?: ResolvedReference[] } {
+  const basePath = options.basePath || process.cwd();
+  let pattern: string;
+  try {
+    pattern = substituteVariables(target.path, options.variables, options.strict);
+  } catch (error) {
+    return {
+      resolved: {
+        absolutePath: '',
+        exists: false,
+        originalReference: target.path,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+  
+  const expandOptions = {
+    extensions: options.extensions ?? DEFAULT_DIRECTORY_EXTENSIONS,
+    include: parseGlobList(ref.parameters?.include),
+    exclude: parseGlobList(ref.parameters?.exclude)
+  };
+  // Aliased patterns are expanded below their alias root only
+  const alias = resolveAlias(pattern, options.aliases ?? {}, basePath);
+  const parentDirectory = parentPath ? path.dirname(parentPath) : undefined;
+  const searchDirectories = alias
+    ? [alias.root]
+    : [
+      ...(parentDirectory ? [parentDirectory] : []),
+      basePath,
+      ...(options.searchPaths ?? []).map(searchPath => path.resolve(basePath, searchPath))
+    ];
+  
+  for (const directory of searchDirectories) {
+    // Every match goes through resolvePath so security checks apply to each file;
+    // the file containing the reference is never included in itself
+    const matches = expandGlob(alias ? alias.path : pattern, directory, expandOptions)
+      .map(file => (alias ? `${alias.alias}/${file}` : file))
+      .map(file => ({
+        ref: { ...withTarget(ref, target), path: file },
+        resolved: resolvePath(file, {
+          basePath,
+          extensions: [],
+          strict: options.strict,
+          parentPath: directory === parentDirectory ? parentPath : undefined,
+          aliases: options.aliases,
+          searchPaths: options.searchPaths,
+          revision: target.revision,
+          symlinkPolicy: options.symlinkPolicy,
+          allow: options.allow,
+          deny: options.deny,
+          resolutionCache: options.resolutionCache
+        })
+      }))
+      .filter(match => !parentPath || match.resolved.absolutePath !== path.resolve(parentPath))
+      // Files excluded by the allow and deny globs are left out of the expansion
+      .filter(match => match.resolved.errorCode !== SecurityErrorCode.POLICY_VIOLATION);
+    if (matches.length === 0) {
+      continue;
+    }
+    
+    return {
+      resolved: { absolutePath: path.resolve(directory), exists: true, originalReference: target.path },
+      matches
+    };
+  }
+  
+  return {
+    resolved: {
+      absolutePath: path.resolve(basePath, pattern),
+      exists: false,
+      originalReference: target.path,
+      error: `No files match: ${pattern}`
+    }
+  };
+}
+
+/**
+ * Resolve a remote reference, or a reference relative to a remote file
+ * Remote references exist if their host is allowed; fetching happens when the content is read.
+ */
+function resolveRemoteTarget(
+  reference: string,
+  options: TransclusionOptions,
+  parentPath?: string
+): FileResolution {
+  let url: URL;
+  try {
+    url = new URL(substituteVariables(reference, options.variables, options.strict), parentPath);
+  } catch (error) {
+    return {
+      absolutePath: '',
+      exists: false,
+      originalReference: reference,
+      error: error instanceof TypeError ? `Invalid URL: ${reference}` : (error as Error).message,
+      code: 'INVALID_URL'
+    };
+  }
+  
+  if (!isRemoteReference(url.href) || !isHostAllowed(url, options.allowedHosts ?? [])) {
+    return {
+      absolutePath: url.href,
+      exists: false,
+      originalReference: reference,
+      error: `Host not allowed for remote transclusion: ${url.host}`,
+      code: 'HOST_NOT_ALLOWED'
+    };
+  }
+  
+  return { absolutePath: url.href, exists: true, originalReference: reference, remote: true };
+}
+
+/**
+ * Resolve a reference, trying its alternative targets in order until a file exists
+ * Glob and directory targets exist when they match at least one file.
+ * @param ref The parsed reference
+ * @param options Transclusion options (basePath defaults to process.cwd() if not specified)
+ * @param parentPath Parent file path for relative resolution
+ */
+export function resolveReference(
+  ref: TransclusionToken,
+  options: TransclusionOptions,
+  parentPath?: string
+): ResolvedReference {
+  const resolveFile = (target: TransclusionTarget): Omit<ResolvedReference, 'ref'> => {
+    // References in remote files are relative to the remote file's URL
+    if (isRemoteReference(target.path) || (parentPath && isRemoteReference(parentPath))) {
+      return { resolved: resolveRemoteTarget(target.path, options, parentPath) };
+    }
+    if (isGlobReference(target.path)) {
+      return resolveGlobTarget(ref, target, options, parentPath);
+    }
+    return {
+      resolved: resolvePath(target.path, {
+        // Provide default basePath as process.cwd() since resolvePath requires it
+        basePath: options.basePath || process.cwd(),
+        extensions: options.extensions,
+        variables: options.variables,
+        strict: options.strict,
+        parentPath,
+        resolution: options.resolution,
+        caseInsensitive: options.caseInsensitive,
+        aliases: options.aliases,
+        searchPaths: options.searchPaths,
+        revision: target.revision,
+        symlinkPolicy: options.symlinkPolicy,
+        allow: options.allow,
+        deny: options.deny,
+        resolutionCache: options.resolutionCache
+      })
+    };
+  };
+  
+  const resolveTarget = (target: TransclusionTarget): Omit<ResolvedReference, 'ref'> => {
+    if (!target.revision) {
+      return resolveFile(target);
+    }
+    
+    // A file whose name contains "@" (e.g., "photo@2x.md") is read as written when it exists,
+    // and only otherwise from a git revision
+    const literal = resolveFile({ ...target, path: `${target.path}@${target.revision}`, revision: undefined });
+    if (literal.resolved.exists) {
+      return literal;
+    }
+    const atRevision = resolveFile(target);
+    const code = atRevision.resolved.code;
+    if (code !== 'UNKNOWN_REVISION' && code !== 'GIT_ERROR') {
+      return atRevision;
+    }
+    // When the revision does not open, the "@" is only read as a revision if the file before it exists
+    return resolveFile({ ...target, revision: undefined }).resolved.exists ? atRevision : literal;
+  };
+  
+  const primary = resolveTarget(ref);
+  if (!ref.alternatives && !ref.optional) {
+    return { ref, ...primary };
+  }
+  if (primary.resolved.exists) {
+    return { ref, ...primary, alternativeIndex: 0 };
+  }
+  
+  const alternatives = ref.alternatives ?? [];
+  for (let i = 0; i < alternatives.length; i++) {
+    const alternative = resolveTarget(alternatives[i]);
+    if (alternative.resolved.exists) {
+      return { ref: withTarget(ref, alternatives[i]), ...alternative, alternativeIndex: i + 1 };
+    }
+  }
+  
+  // None of the targets exist: report the primary target
+  return { ref, ...primary, alternativeIndex: -1 };
 }
 
 /**
@@ -41,17 +329,232 @@ export function parseAndResolveRefs(
 ): ResolvedReference[] {
   const refs = parseTransclusionReferences(line);
   
-  return refs.map(ref => ({
-    ref,
-    resolved: resolvePath(ref.path, { 
-      // Provide default basePath as process.cwd() since resolvePath requires it
-      basePath: options.basePath || process.cwd(),
-      extensions: options.extensions,
-      variables: options.variables,
-      strict: options.strict,
-      parentPath 
-    })
+  return refs.map(ref => resolveReference(ref, options, parentPath));
+}
+
+/**
+ * Apply the region, block, heading, heading range and line range selectors of a reference to file content
+ * @param content The full file content
+ * @param ref The reference carrying the selectors
+ * @param absolutePath Path of the file, used in error messages
+ * @param options Transclusion options (headingSeparator joins multiple headings)
+ * @returns The selected content with errors for missing headings, or a transclusion error
+ */
+export function selectReferenceContent(
+  content: string,
+  ref: TransclusionToken,
+  absolutePath: string,
+  options: TransclusionOptions = {}
+): Result<SelectedContent, TransclusionError> {
+  let selected = content;
+  const errors: TransclusionError[] = [];
+  const warnings: TransclusionError[] = [];
+  
+  // Extract a region, block, specific heading or heading range if requested
+  if (ref.region) {
+    const regionContent = extractRegionContent(selected, ref.region);
+    if (!regionContent.ok) {
+      return Err({
+        message: `${regionContent.error.message} in ${absolutePath}`,
+        path: absolutePath,
+        code: regionContent.error.code
+      });
+    }
+    selected = regionContent.value;
+  } else if (ref.blockId) {
+    const blockContent = extractBlockContent(selected, ref.blockId);
+    if (blockContent === null) {
+      return Err({
+        message: `Block "^${ref.blockId}" not found in ${absolutePath}`,
+        path: absolutePath,
+        code: 'BLOCK_NOT_FOUND'
+      });
+    }
+    selected = blockContent;
+  } else if (ref.headingEnd !== undefined) {
+    const rangeContent = extractHeadingRange(selected, ref.heading || '', ref.headingEnd);
+    if (rangeContent === null) {
+      return Err({
+        message: `Start heading "${ref.heading || '(beginning)'}" not found in ${absolutePath}`,
+        path: absolutePath,
+        code: 'HEADING_NOT_FOUND'
+      });
+    }
+    selected = rangeContent;
+  } else if (ref.headings && extractHeadingContent(selected, ref.heading || '') === null) {
+    // Each missing heading is reported on its own; found sections are still included
+    const multiple = extractMultipleHeadings(selected, ref.headings, options.headingSeparator);
+    for (const heading of multiple.missing) {
+      errors.push({
+        message: `Heading "${heading}" not found in ${absolutePath}`,
+        path: absolutePath,
+        code: 'HEADING_NOT_FOUND'
+      });
+    }
+    for (const warning of multiple.warnings) {
+      warnings.push({
+        message: `${warning.message} in ${absolutePath}`,
+        path: absolutePath,
+        code: warning.code
+      });
+    }
+    if (multiple.missing.length === ref.headings.length) {
+      return Ok({ errors, warnings });
+    }
+    selected = multiple.content;
+  } else if (ref.heading) {
+    const headingContent = extractHeadingContent(selected, ref.heading);
+    if (headingContent === null) {
+      return Err({
+        message: `Heading "${ref.heading}" not found in ${absolutePath}`,
+        path: absolutePath,
+        code: 'HEADING_NOT_FOUND'
+      });
+    }
+    const ambiguity = checkHeadingAmbiguity(selected, ref.heading);
+    if (ambiguity) {
+      warnings.push({
+        message: `${ambiguity.message} in ${absolutePath}`,
+        path: absolutePath,
+        code: ambiguity.code
+      });
+    }
+    selected = headingContent;
+  }
+  
+  // Line ranges apply to the selected section, or the whole file
+  if (ref.lineRange) {
+    const lineContent = extractLineRange(selected, ref.lineRange);
+    if (!lineContent.ok) {
+      return Err({
+        message: `${lineContent.error.message} in ${absolutePath}`,
+        path: absolutePath,
+        code: lineContent.error.code
+      });
+    }
+    selected = lineContent.value;
+  }
+  
+  return Ok({ content: selected, errors, warnings });
+}
+
+/**
+ * Read the files matched by a glob or directory reference and sort them
+ * The sort order comes from the `sort` parameter or the globSort option (default: name).
+ */
+async function readGlobMatches(
+  ref: TransclusionToken,
+  resolved: FileResolution,
+  matches: ResolvedReference[],
+  options: TransclusionOptions
+): Promise<ProcessedReference> {
+  const sort = ref.parameters?.sort ?? options.globSort ?? 'name';
+  if (!isGlobSort(sort)) {
+    return {
+      ref,
+      resolved,
+      error: {
+        message: `Invalid sort order "${sort}" for ${ref.path}: expected name, order or mtime`,
+        path: ref.path,
+        code: 'INVALID_GLOB_SORT'
+      }
+    };
+  }
+  
+  const parts = await readResolvedRefs(matches, options);
+  const sortable = await Promise.all(parts.map(async part => {
+    const { absolutePath, exists } = part.resolved;
+    let order: number | undefined;
+    let mtime: number | undefined;
+    try {
+      if (exists && sort === 'order') {
+        order = getFrontmatterOrder(await readFile(absolutePath, options.cache));
+      } else if (exists && sort === 'mtime') {
+        mtime = fs.statSync(absolutePath).mtimeMs;
+      }
+    } catch {
+      // Unreadable files keep their name order
+    }
+    return { path: part.ref.path, order, mtime, part };
   }));
+  
+  return { ref, resolved, parts: sortGlobMatches(sortable, sort).map(match => match.part) };
+}
+
+/**
+ * Wrap the content of a source file in a fenced code block
+ * The language comes from the `lang` parameter, the file name or the file extension; Markdown files
+ * and files of unknown type without a `lang` parameter are returned unchanged. A `lang` parameter
+ * of a Markdown file is left to template variables.
+ */
+function embedCode(
+  content: string,
+  ref: TransclusionToken,
+  filePath: string,
+  options: TransclusionOptions
+): string {
+  // Files without an extension are Markdown unless a language is given (e.g., "![[run|lang=bash]]")
+  const explicitLanguage = ref.parameters?.lang;
+  const markdown = isMarkdownFile(filePath, options.extensions) &&
+    (explicitLanguage === undefined || path.extname(getFileName(filePath)) !== '');
+  if (options.embedCode === false || markdown) {
+    return content;
+  }
+  
+  const language = explicitLanguage ?? getCodeLanguage(filePath);
+  return language === undefined ? content : wrapInCodeFence(content, language, ref.parameters?.title);
+}
+
+/**
+ * Render the content of a CSV or TSV file as a Markdown table
+ * Table options come from the reference parameters; a `lang` parameter embeds the raw file as code instead.
+ * @returns The table, the content of any other file unchanged, or an error for invalid data or options
+ */
+function renderDataTable(
+  content: string,
+  ref: TransclusionToken,
+  filePath: string
+): Result<string, TransclusionError> {
+  const delimiter = getTableDelimiter(filePath);
+  if (delimiter === undefined || ref.parameters?.lang !== undefined) {
+    return Ok(content);
+  }
+  
+  const tableOptions = parseTableOptions(ref.parameters);
+  const table = tableOptions.ok ? renderTable(content, delimiter, tableOptions.value) : tableOptions;
+  if (!table.ok) {
+    return Err({
+      message: `${table.error.message} in ${filePath}`,
+      path: filePath,
+      code: table.error.code
+    });
+  }
+  return table;
+}
+
+/**
+ * Parse the frontmatter of a Markdown file
+ * @returns The frontmatter fields (undefined for other files and files without frontmatter),
+ * or a warning for invalid frontmatter
+ */
+function readFrontmatter(
+  content: string,
+  filePath: string,
+  options: TransclusionOptions
+): Result<FrontmatterData | undefined, TransclusionError> {
+  if (!isMarkdownFile(filePath, options.extensions)) {
+    return Ok(undefined);
+  }
+  
+  const frontmatter = parseFrontmatter(content);
+  if (!frontmatter.ok) {
+    return Err({
+      message: `Invalid frontmatter in ${filePath}: ${frontmatter.error.message}`,
+      path: filePath,
+      code: frontmatter.error.code
+    });
+  }
+  return frontmatter;
 }
 
 /**
@@ -63,52 +566,56 @@ export async function readResolvedRefs(
 ): Promise<ProcessedReference[]> {
   const results: ProcessedReference[] = [];
   
-  for (const { ref, resolved } of resolvedRefs) {
-    if (resolved.exists) {
+  for (const { ref, resolved, matches } of resolvedRefs) {
+    if (matches) {
+      results.push(await readGlobMatches(ref, resolved, matches, options));
+    } else if (resolved.exists) {
       try {
-        let content = await readFile(resolved.absolutePath, options.cache);
+        const content = resolved.remote
+          ? await fetchRemote(resolved.absolutePath, options)
+          : resolved.revision
+            ? await readGitBlob(resolved.revision.objectId, resolved.revision.repository, options.cache)
+            : await readFile(resolved.absolutePath, options.cache);
+        const selected = selectReferenceContent(content, ref, resolved.absolutePath, options);
         
-        // Extract specific heading or heading range if requested
-        if (ref.heading || ref.headingEnd !== undefined) {
-          // Check if this is a range extraction
-          if (ref.headingEnd !== undefined) {
-            const rangeContent = extractHeadingRange(content, ref.heading || '', ref.headingEnd);
-            if (rangeContent === null) {
-              results.push({
-                ref,
-                resolved,
-                error: {
-                  message: `Start heading "${ref.heading || '(beginning)'}" not found in ${resolved.absolutePath}`,
-                  path: resolved.absolutePath,
-                  code: 'HEADING_NOT_FOUND'
-                }
-              });
-              continue;
-            }
-            content = rangeContent;
-          } else if (ref.heading) {
-            // Single heading extraction
-            const headingContent = extractHeadingContent(content, ref.heading);
-            if (headingContent === null) {
-              results.push({
-                ref,
-                resolved,
-                error: {
-                  message: `Heading "${ref.heading}" not found in ${resolved.absolutePath}`,
-                  path: resolved.absolutePath,
-                  code: 'HEADING_NOT_FOUND'
-                }
-              });
-              continue;
-            }
-            content = headingContent;
-          }
+        if (!selected.ok) {
+          results.push({ ref, resolved, error: selected.error });
+          continue;
+        }
+        
+        const { content: selectedContent, errors, warnings } = selected.value;
+        if (selectedContent === undefined) {
+          results.push({
+            ref,
+            resolved,
+            error: errors[0],
+            errors: errors.slice(1),
+            ...(warnings.length > 0 && { warnings })
+          });
+          continue;
+        }
+        
+        // Line ranges and regions are returned verbatim to preserve indentation
+        const text = ref.lineRange || ref.region ? selectedContent : trimForTransclusion(selectedContent);
+        const rendered = renderDataTable(text, ref, resolved.absolutePath);
+        if (!rendered.ok) {
+          results.push({ ref, resolved, error: rendered.error });
+          continue;
+        }
+        
+        // Frontmatter is read from the whole file, so it is available to any selected part
+        const frontmatter = readFrontmatter(content, resolved.absolutePath, options);
+        if (!frontmatter.ok) {
+          warnings.push(frontmatter.error);
         }
         
         results.push({
           ref,
           resolved,
-          content: trimForTransclusion(content)
+          content: embedCode(rendered.value, ref, resolved.absolutePath, options),
+          ...(errors.length > 0 && { errors }),
+          ...(warnings.length > 0 && { warnings }),
+          ...(frontmatter.ok && frontmatter.value && { frontmatter: frontmatter.value })
         });
       } catch (err) {
         results.push({
@@ -117,18 +624,24 @@ export async function readResolvedRefs(
           error: {
             message: (err as Error).message,
             path: resolved.absolutePath,
-            code: 'READ_ERROR'
+            code: resolved.remote ? 'FETCH_ERROR' : 'READ_ERROR'
           }
         });
       }
+    } else if (ref.optional && resolved.errorCode === undefined && resolved.code === undefined) {
+      // Optional references produce nothing when missing, but security and ambiguity errors are still reported
+      results.push({ ref, resolved, content: '' });
     } else {
+      const tried = ref.alternatives ? [ref, ...ref.alternatives].map(target => target.path) : [];
       results.push({
         ref,
         resolved,
         error: {
-          message: resolved.error ?? 'File not found',
+          message: tried.length > 0
+            ? `None of the alternatives exist: ${tried.join(', ')}`
+            : resolved.error ?? 'File not found',
           path: ref.path,
-          code: 'FILE_NOT_FOUND'
+          code: resolved.code ?? 'FILE_NOT_FOUND'
         }
       });
     }
@@ -178,7 +691,15 @@ export function composeLineOutput(
  * Extract all errors from processed references
  */
 export function extractErrors(processedRefs: ProcessedReference[]): TransclusionError[] {
-  return processedRefs
-    .filter(p => p.error !== undefined)
-    .map(p => p.error!);
-}
\ No newline at end of file
+  return processedRefs.flatMap(p => [
+    ...(p.error ? [p.error] : []),
+    ...(p.errors ?? [])
+  ]);
+}
+
+/**
+ * Extract all warnings from processed references
+ */
+export function extractWarnings(processedRefs: ProcessedReference[]): TransclusionError[] {
+  return processedRefs.flatMap(p => p.warnings ?? []);
+}
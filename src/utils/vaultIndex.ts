@@ -0,0 +1,75 @@
+/**
+ * Vault-style file lookup by basename
+ * Lets `![[Meeting Notes]]` find `notes/2024/Meeting Notes.md` anywhere under the base path,
+ * like the shortest-path links of Obsidian vaults.
+ */
+
+import * as path from 'path';
+import { expandGlob } from './globExpander';
+
+/**
+ * Files under a base path, grouped by basename
+ */
+export interface VaultIndex {
+  /**
+   * Base directory that was indexed
+   */
+  basePath: string;
+
+  /**
+   * Whether basenames were indexed case-insensitively
+   */
+  ignoreCase: boolean;
+
+  /**
+   * Relative forward-slash paths by basename (lowercased when ignoreCase is set)
+   */
+  files: Map<string, string[]>;
+}
+
+/**
+ * Directories of dependencies that are never part of a vault
+ */
+const SKIPPED_DIRECTORIES = ['node_modules', 'bower_components'];
+
+/**
+ * Normalize a path or basename for lookups
+ */
+function toKey(value: string, ignoreCase: boolean): string {
+  return ignoreCase ? value.toLowerCase() : value;
+}
+
+/**
+ * Index every file under the base path by basename
+ * Hidden files and directories (including .git) and dependency directories are skipped.
+ * @param basePath Directory to index
+ * @param ignoreCase Whether lookups ignore case
+ */
+export function buildVaultIndex(basePath: string, ignoreCase = false): VaultIndex {
+  const files = new Map<string, string[]>();
+
+  for (const file of expandGlob('**/*', basePath, { extensions: [], skipDirectories: SKIPPED_DIRECTORIES })) {
+    const key = toKey(path.posix.basename(file), ignoreCase);
+    files.set(key, [...(files.get(key) ?? []), file]);
+  }
+
+  return { basePath, ignoreCase, files };
+}
+
+/**
+ * Find the files a reference can point to
+ * A reference with folders (e.g., "2024/Meeting Notes.md") matches files whose path ends with it.
+ * @param index The vault index
+ * @param reference Reference path including its extension
+ * @returns Matching paths relative to the base path, in natural order
+ */
+export function findInVault(index: VaultIndex, reference: string): string[] {
+  const normalized = reference.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  const suffix = toKey(normalized, index.ignoreCase);
+  const candidates = index.files.get(toKey(path.posix.basename(normalized), index.ignoreCase)) ?? [];
+
+  return candidates.filter(file => {
+    const key = toKey(file, index.ignoreCase);
+    return key === suffix || key.endsWith(`/${suffix}`);
+  });
+}
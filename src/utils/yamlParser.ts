@@ -0,0 +1,538 @@
+/**
+ * YAML parsing for data files and frontmatter
+ * Supports the subset used for configuration data: block mappings and sequences, single-line
+ * flow collections, quoted and plain scalars, block scalars (| and >) and comments.
+ * Anchors, aliases, tags and multi-document streams are rejected.
+ */
+
+import { Result, Ok, Err } from './result';
+
+/**
+ * Value produced by parsing YAML
+ */
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * YAML parsing error
+ */
+export interface YamlError {
+  code: 'INVALID_YAML';
+  message: string;
+  line: number;
+}
+
+/**
+ * Line of the document with its indentation
+ */
+interface YamlLine {
+  number: number;
+  indent: number;
+  text: string;
+  raw: string;
+}
+
+/**
+ * Mapping entry: key, separator and value text (e.g., "version: 1.2")
+ */
+const PLAIN_KEY_PATTERN = /^([^\s'"[\]{},#&*!|>%@`-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)(.*)$/;
+const QUOTED_KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+|$)(.*)$/;
+
+/**
+ * Block scalar header: style, chomping and optional indentation indicator
+ */
+const BLOCK_SCALAR_PATTERN = /^([|>])([-+]?)(\d?)([-+]?)$/;
+
+/**
+ * Error thrown inside the parser and returned by parseYaml
+ */
+class YamlSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(message);
+  }
+}
+
+/**
+ * Remove a trailing comment outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.substring(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Resolve a plain scalar to null, a boolean, a number or a string
+ */
+function resolvePlainScalar(text: string, line: number): YamlValue {
+  if (/^[&*!]/.test(text)) {
+    throw new YamlSyntaxError(`Anchors, aliases and tags are not supported: ${text}`, line);
+  }
+  if (/^(null|Null|NULL|~)?$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?(\d+|\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Parse a double-quoted string body, handling escapes
+ */
+function unescapeDoubleQuoted(body: string, line: number): string {
+  const escapes: Record<string, string> = {
+    n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' '
+  };
+  return body.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g, (_match, escape: string) => {
+    if (escape.length > 1) {
+      return String.fromCharCode(parseInt(escape.substring(1), 16));
+    }
+    if (!(escape in escapes)) {
+      throw new YamlSyntaxError(`Invalid escape "\\${escape}"`, line);
+    }
+    return escapes[escape];
+  });
+}
+
+/**
+ * Parse a quoted scalar at the start of text
+ * @returns The value and the index after the closing quote
+ */
+function parseQuoted(text: string, start: number, line: number): { value: string; end: number } {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === '\'' && text[i + 1] === '\'') {
+        i++;
+        continue;
+      }
+      const body = text.substring(start + 1, i);
+      return {
+        value: quote === '"' ? unescapeDoubleQuoted(body, line) : body.replace(/''/g, '\''),
+        end: i + 1
+      };
+    }
+  }
+  throw new YamlSyntaxError('Unclosed quoted string', line);
+}
+
+/**
+ * Parse a single-line flow collection or scalar ("[a, b]", "{x: 1}", "'text'")
+ */
+function parseFlow(text: string, line: number): YamlValue {
+  let index = 0;
+
+  const skipSpace = (): void => {
+    while (index < text.length && /\s/.test(text[index])) {
+      index++;
+    }
+  };
+
+  const parseValue = (terminators: string): YamlValue => {
+    skipSpace();
+    const char = text[index];
+    if (char === '[') {
+      index++;
+      const items: YamlValue[] = [];
+      skipSpace();
+      while (text[index] !== ']') {
+        items.push(parseValue(',]'));
+        skipSpace();
+        if (text[index] === ',') {
+          index++;
+          skipSpace();
+        } else if (text[index] !== ']') {
+          throw new YamlSyntaxError('Expected "," or "]" in flow sequence', line);
+        }
+      }
+      index++;
+      return items;
+    }
+    if (char === '{') {
+      index++;
+      const mapping: Record<string, YamlValue> = {};
+      skipSpace();
+      while (text[index] !== '}') {
+        const key = parseValue(':,}');
+        skipSpace();
+        if (text[index] !== ':') {
+          throw new YamlSyntaxError('Expected ":" in flow mapping', line);
+        }
+        index++;
+        mapping[String(key)] = parseValue(',}');
+        skipSpace();
+        if (text[index] === ',') {
+          index++;
+          skipSpace();
+        } else if (text[index] !== '}') {
+          throw new YamlSyntaxError('Expected "," or "}" in flow mapping', line);
+        }
+      }
+      index++;
+      return mapping;
+    }
+    if (char === '"' || char === '\'') {
+      const quoted = parseQuoted(text, index, line);
+      index = quoted.end;
+      return quoted.value;
+    }
+    if (char === undefined) {
+      throw new YamlSyntaxError('Unexpected end of flow collection', line);
+    }
+
+    const start = index;
+    while (index < text.length && !terminators.includes(text[index])) {
+      index++;
+    }
+    return resolvePlainScalar(text.substring(start, index).trim(), line);
+  };
+
+  const value = parseValue('');
+  skipSpace();
+  if (index < text.length) {
+    throw new YamlSyntaxError(`Unexpected content after value: ${text.substring(index)}`, line);
+  }
+  return value;
+}
+
+/**
+ * Parse the value written after a key or sequence dash on the same line
+ */
+function parseInlineValue(text: string, line: number): YamlValue {
+  if (/^["'[{]/.test(text)) {
+    return parseFlow(text, line);
+  }
+  return resolvePlainScalar(text, line);
+}
+
+/**
+ * Block parser over the lines of a document
+ */
+class YamlBlockParser {
+  private lines: YamlLine[];
+  private position = 0;
+
+  constructor(lines: YamlLine[]) {
+    this.lines = lines;
+  }
+
+  /**
+   * Parse the whole document
+   */
+  parseDocument(): YamlValue {
+    const first = this.peek();
+    if (!first) {
+      return null;
+    }
+    const value = this.parseBlock(first.indent);
+    const rest = this.peek();
+    if (rest) {
+      throw new YamlSyntaxError(`Unexpected content: ${rest.text}`, rest.number);
+    }
+    return value;
+  }
+
+  /**
+   * Next line with content, skipping blank and comment lines
+   */
+  private peek(): YamlLine | undefined {
+    while (this.position < this.lines.length && this.lines[this.position].text === '') {
+      this.position++;
+    }
+    return this.lines[this.position];
+  }
+
+  /**
+   * Parse a mapping, sequence or scalar starting at the next line
+   */
+  private parseBlock(indent: number): YamlValue {
+    const line = this.peek()!;
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.parseSequence(indent);
+    }
+    if (PLAIN_KEY_PATTERN.test(line.text) || QUOTED_KEY_PATTERN.test(line.text)) {
+      return this.parseMapping(indent);
+    }
+    this.position++;
+    return parseInlineValue(line.text, line.number);
+  }
+
+  /**
+   * Parse the value of a key or sequence item whose text follows on the same line
+   * @param text Text after the key or dash, empty if the value is a nested block
+   * @param indent Indentation of the key or dash
+   */
+  private parseEntryValue(text: string, indent: number, line: YamlLine, allowSequence: boolean): YamlValue {
+    if (BLOCK_SCALAR_PATTERN.test(text)) {
+      return this.parseBlockScalar(text, indent);
+    }
+    if (text !== '') {
+      const value = parseInlineValue(text, line.number);
+      const next = this.peek();
+      if (next && next.indent > indent) {
+        throw new YamlSyntaxError('Unexpected indentation (multi-line plain scalars are not supported)', next.number);
+      }
+      return value;
+    }
+
+    const next = this.peek();
+    if (next && next.indent > indent) {
+      return this.parseBlock(next.indent);
+    }
+    // A sequence may start at the same indentation as its key
+    if (allowSequence && next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseMapping(indent: number): Record<string, YamlValue> {
+    const mapping: Record<string, YamlValue> = {};
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) {
+        throw new YamlSyntaxError('Unexpected indentation', line.number);
+      }
+      const match = line.text.match(QUOTED_KEY_PATTERN) ?? line.text.match(PLAIN_KEY_PATTERN);
+      if (!match) {
+        throw new YamlSyntaxError(`Expected a "key: value" entry: ${line.text}`, line.number);
+      }
+      const key = /^["']/.test(match[1]) ? parseQuoted(match[1], 0, line.number).value : match[1];
+      this.position++;
+      mapping[key] = this.parseEntryValue(match[2], indent, line, true);
+    }
+
+    return mapping;
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) {
+        throw new YamlSyntaxError('Unexpected indentation', line.number);
+      }
+      if (line.text !== '-' && !line.text.startsWith('- ')) {
+        break;
+      }
+
+      const rest = line.text.substring(1).trimStart();
+      const restIndent = indent + (line.text.length - rest.length);
+      if (rest.startsWith('- ') || rest === '-' || PLAIN_KEY_PATTERN.test(rest) || QUOTED_KEY_PATTERN.test(rest)) {
+        // Nested block starting on the dash line (e.g., "- name: Chrome"): reparse it at its own indentation
+        this.lines[this.position] = { ...line, indent: restIndent, text: rest };
+        items.push(this.parseBlock(restIndent));
+      } else {
+        this.position++;
+        items.push(this.parseEntryValue(rest, indent, line, false));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse a literal (|) or folded (>) block scalar
+   * @param header The block scalar header (e.g., "|-")
+   * @param indent Indentation of the key or dash owning the scalar
+   */
+  private parseBlockScalar(header: string, indent: number): string {
+    const [, style, chompBefore, indicator, chompAfter] = header.match(BLOCK_SCALAR_PATTERN)!;
+    const chomping = chompBefore || chompAfter;
+    const content: string[] = [];
+    let contentIndent = indicator ? indent + parseInt(indicator, 10) : undefined;
+
+    while (this.position < this.lines.length) {
+      const { raw } = this.lines[this.position];
+      const rawIndent = raw.length - raw.trimStart().length;
+      if (raw.trim() === '') {
+        content.push('');
+      } else {
+        contentIndent ??= rawIndent;
+        if (rawIndent < contentIndent || rawIndent <= indent) {
+          break;
+        }
+        content.push(raw.substring(contentIndent));
+      }
+      this.position++;
+    }
+
+    // Trailing blank lines are kept or dropped by the chomping indicator
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1] === '') {
+      content.pop();
+      trailing++;
+    }
+
+    let text = style === '|' ? content.join('\n') : this.fold(content);
+    if (chomping === '+') {
+      text += '\n'.repeat(trailing + 1);
+    } else if (chomping !== '-' && content.length > 0) {
+      text += '\n';
+    }
+    return text;
+  }
+
+  /**
+   * Fold lines of a folded block scalar: single line breaks become spaces
+   */
+  private fold(lines: string[]): string {
+    return lines.reduce((text, line, index) => {
+      const previous = lines[index - 1];
+      if (index === 0) {
+        return line;
+      }
+      if (line === '') {
+        return `${text}\n`;
+      }
+      if (previous === '') {
+        return text + line;
+      }
+      // More-indented lines keep their line breaks
+      return /^\s/.test(line) || /^\s/.test(previous) ? `${text}\n${line}` : `${text} ${line}`;
+    }, '');
+  }
+}
+
+/**
+ * Parse a YAML document
+ * @param text The YAML text
+ * @returns The parsed value (null for an empty document), or an error with its line number
+ */
+export function parseYaml(text: string): Result<YamlValue, YamlError> {
+  const lines: YamlLine[] = [];
+  const rawLines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (let index = 0; index < rawLines.length; index++) {
+    const raw = rawLines[index];
+    if (/^(---|\.\.\.)(\s|$)/.test(raw)) {
+      if (lines.some(line => line.text !== '') && raw.startsWith('---')) {
+        return Err({ code: 'INVALID_YAML', message: 'Multiple documents are not supported', line: index + 1 });
+      }
+      lines.push({ number: index + 1, indent: 0, text: '', raw: '' });
+      continue;
+    }
+    if (/^\s*\t/.test(raw) && raw.trim() !== '') {
+      return Err({ code: 'INVALID_YAML', message: 'Tabs are not allowed in indentation', line: index + 1 });
+    }
+    const content = raw.trimStart();
+    lines.push({
+      number: index + 1,
+      indent: raw.length - content.length,
+      text: stripComment(content),
+      raw
+    });
+  }
+
+  try {
+    return Ok(new YamlBlockParser(lines).parseDocument());
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      return Err({ code: 'INVALID_YAML', message: `${error.message} (line ${error.line})`, line: error.line });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check if a value is a mapping (not an array, date or null)
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Check if a value is a collection with at least one item
+ */
+function isNonEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : isMapping(value) && Object.keys(value).length > 0;
+}
+
+/**
+ * Format a scalar, quoting strings that would otherwise read back as another value
+ */
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const plain = value !== '' &&
+    value === value.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]|:\s|:$|\s#|[\n\r\t]/.test(value) &&
+    resolvePlainScalar(value, 0) === value;
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Format a value on the line of its key or sequence marker
+ */
+function formatInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  return isMapping(value) ? '{}' : formatScalar(value);
+}
+
+/**
+ * Format a value as block lines at the given indentation
+ */
+function formatBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap(item => {
+      if (!isNonEmptyCollection(item)) {
+        return [`${pad}- ${formatInline(item)}`];
+      }
+      const [first, ...rest] = formatBlock(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (isMapping(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length > 0) {
+      return entries.flatMap(([key, item]) => isNonEmptyCollection(item)
+        ? [`${pad}${formatScalar(key)}:`, ...formatBlock(item, indent + 2)]
+        : [`${pad}${formatScalar(key)}: ${formatInline(item)}`]);
+    }
+  }
+
+  return [`${pad}${formatInline(value)}`];
+}
+
+/**
+ * Format a value as a YAML document that parseYaml reads back
+ * Collections are written in block style, dates as ISO 8601 strings and undefined values are omitted.
+ * @param value The value to format
+ * @returns The YAML text, without a trailing newline
+ */
+export function stringifyYaml(value: unknown): string {
+  return formatBlock(value, 0).join('\n');
+}
@@ -29,6 +29,7 @@ describe('markdown-transclusion exports', () => {
     expect(typeof markdownTransclusion.readFile).toBe('function');
     expect(markdownTransclusion.readFileSync).toBeDefined();
     expect(typeof markdownTransclusion.readFileSync).toBe('function');
+    expect(typeof markdownTransclusion.readGitBlob).toBe('function');
     expect(markdownTransclusion.FileReaderError).toBeDefined();
     expect(markdownTransclusion.FileReaderErrorCode).toBeDefined();
 
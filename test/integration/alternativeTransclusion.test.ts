@@ -0,0 +1,75 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Alternative and Optional Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/alternative-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(path.join(testDir, 'defaults.md'), '# Defaults\nDefault settings.');
+    await fs.writeFile(path.join(testDir, 'overrides.md'), '# Overrides\nLocal settings.');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should use the first alternative that exists', async () => {
+    const result = await transclude('![[local-overrides.md || defaults.md]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('# Defaults\nDefault settings.');
+    expect(result.alternatives).toEqual([{
+      reference: '![[local-overrides.md || defaults.md]]',
+      index: 1,
+      path: 'defaults.md',
+      resolvedPath: path.join(testDir, 'defaults.md')
+    }]);
+  });
+  
+  it('should prefer the primary target when it exists', async () => {
+    const result = await transclude('![[overrides || defaults]]', { basePath: testDir });
+    
+    expect(result.content).toBe('# Overrides\nLocal settings.');
+    expect(result.alternatives![0].index).toBe(0);
+  });
+  
+  it('should apply the anchor of the alternative that was used', async () => {
+    const result = await transclude('![[missing#Nothing || defaults#Defaults]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('# Defaults\nDefault settings.');
+  });
+  
+  it('should report an error when no alternative exists', async () => {
+    const result = await transclude('![[a || b]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('FILE_NOT_FOUND');
+    expect(result.errors[0].message).toBe('None of the alternatives exist: a, b');
+    expect(result.alternatives).toEqual([{ reference: '![[a || b]]', index: -1 }]);
+  });
+  
+  it('should silently produce nothing for missing optional includes, even in strict mode', async () => {
+    const result = await transclude('Before ![[maybe.md?]] after', { basePath: testDir, strict: true });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Before  after');
+    expect(result.alternatives).toEqual([{ reference: '![[maybe.md?]]', index: -1 }]);
+  });
+  
+  it('should include optional files that exist', async () => {
+    const result = await transclude('![[defaults?]]', { basePath: testDir });
+    
+    expect(result.content).toBe('# Defaults\nDefault settings.');
+  });
+  
+  it('should make a chain optional with a marker on any target', async () => {
+    const result = await transclude('![[local || site?]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('');
+  });
+});
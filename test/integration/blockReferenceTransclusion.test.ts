@@ -0,0 +1,47 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Block Reference Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/block-reference-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'note.md'),
+      `# Meeting Notes
+
+We agreed to ship on Friday. ^decision
+
+- Write the changelog ^task-changelog
+- Tag the release`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should transclude a paragraph by block id', async () => {
+    const result = await transclude('Decision: ![[note#^decision]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Decision: We agreed to ship on Friday.');
+  });
+  
+  it('should transclude a list item by block id', async () => {
+    const result = await transclude('![[note#^task-changelog]]', { basePath: testDir });
+    
+    expect(result.content).toBe('- Write the changelog');
+  });
+  
+  it('should report missing block ids', async () => {
+    const result = await transclude('![[note#^decisoin]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('BLOCK_NOT_FOUND');
+    expect(result.errors[0].message).toContain('Block "^decisoin" not found');
+    expect(result.content).toContain('<!-- Error: Block "^decisoin" not found');
+  });
+});
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Code Embedding Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/code-embedding-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'src'), { recursive: true });
+    
+    await fs.writeFile(path.join(basePath, 'src/app.ts'), 'const app = createApp();\napp.listen(3000);\n');
+    await fs.writeFile(path.join(basePath, 'src/docs.ts'), 'const example = `\n```js\nrun();\n```\n`;');
+    await fs.writeFile(path.join(basePath, 'src/template.ts'), '// ![[notes.md]]\nexport {};');
+    await fs.writeFile(path.join(basePath, 'run'), '#!/bin/sh\nnpm start');
+    await fs.writeFile(path.join(basePath, 'Dockerfile'), 'FROM node:20');
+    await fs.writeFile(path.join(basePath, 'notes.md'), 'Notes');
+    await fs.writeFile(path.join(basePath, 'install.txt'), 'npm install');
+    await fs.writeFile(path.join(basePath, 'banner.html'), '<div class="banner">Beta</div>');
+    await fs.writeFile(path.join(basePath, 'config.yaml'), 'port: 3000');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+  
+  it('should wrap source files in a fence with the inferred language', async () => {
+    const result = await transclude('![[src/app.ts]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('```typescript\nconst app = createApp();\napp.listen(3000);\n```');
+  });
+  
+  it('should wrap line ranges of source files', async () => {
+    const result = await transclude('![[src/app.ts#L2]]', { basePath });
+    
+    expect(result.content).toBe('```typescript\napp.listen(3000);\n```');
+  });
+  
+  it('should use the lang and title parameters', async () => {
+    const result = await transclude('![[install.txt|lang=bash|title=install.sh]]', { basePath });
+    
+    expect(result.content).toBe('```bash title="install.sh"\nnpm install\n```');
+  });
+  
+  it('should wrap files without an extension that have a lang parameter or a known name', async () => {
+    const result = await transclude('![[run|lang=bash]]\n![[Dockerfile]]\n![[Dockerfile|lang=docker]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe(
+      '```bash\n#!/bin/sh\nnpm start\n```\n```dockerfile\nFROM node:20\n```\n```docker\nFROM node:20\n```'
+    );
+  });
+  
+  it('should leave other files without an extension unwrapped', async () => {
+    const result = await transclude('![[run]]', { basePath });
+    
+    expect(result.content).toBe('#!/bin/sh\nnpm start');
+  });
+  
+  it('should leave Markdown and unknown file types unwrapped', async () => {
+    const result = await transclude('![[notes.md]]\n![[install.txt]]', { basePath });
+    
+    expect(result.content).toBe('Notes\nnpm install');
+  });
+  
+  it('should leave markup and data files unwrapped unless a lang parameter is given', async () => {
+    const result = await transclude('![[banner.html]]\n![[config.yaml]]\n![[banner.html|lang=html]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe(
+      '<div class="banner">Beta</div>\nport: 3000\n```html\n<div class="banner">Beta</div>\n```'
+    );
+  });
+  
+  it('should lengthen the fence around content containing fences', async () => {
+    const result = await transclude('![[src/docs.ts]]', { basePath });
+    
+    expect(result.content).toBe('````typescript\nconst example = `\n```js\nrun();\n```\n`;\n````');
+  });
+  
+  it('should not expand references inside embedded code', async () => {
+    const result = await transclude('![[src/template.ts]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('```typescript\n// ![[notes.md]]\nexport {};\n```');
+  });
+  
+  it('should transclude source files verbatim when embedding is disabled', async () => {
+    const result = await transclude('![[src/app.ts]]', { basePath, embedCode: false });
+    
+    expect(result.content).toBe('const app = createApp();\napp.listen(3000);');
+  });
+});
@@ -0,0 +1,131 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { transclude } from '../../src/transclude';
+import { createTransclusionStream } from '../../src/stream';
+import type { TransclusionOptions, TransclusionError } from '../../src/types';
+
+describe('Conditional Content Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/conditional-content-integration-test');
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'data'), { recursive: true });
+
+    await fs.writeFile(path.join(basePath, 'internal-notes.md'), 'Internal notes');
+    await fs.writeFile(path.join(basePath, 'setup.md'), [
+      '---',
+      'platform: linux',
+      '---',
+      'Setup',
+      '<!-- if page.platform == "linux" and edition == "pro" -->',
+      'Pro on Linux',
+      '<!-- endif -->',
+      '<!-- if {{edition}} == "pro" -->',
+      'Edition {{edition}}',
+      '<!-- endif -->'
+    ].join('\n'));
+    await fs.writeFile(path.join(basePath, 'unclosed.md'), 'Start\n<!-- if beta -->\nBeta');
+    await fs.writeFile(path.join(basePath, 'data/product.yaml'), 'edition: enterprise');
+  });
+
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+
+  async function processChunks(chunks: string[], options: TransclusionOptions): Promise<{
+    output: string;
+    errors: TransclusionError[];
+  }> {
+    const stream = createTransclusionStream(options);
+    const errors: TransclusionError[] = [];
+    stream.on('transclusion-error', error => errors.push(error));
+    const output: string[] = [];
+    for await (const chunk of Readable.from(chunks).pipe(stream)) {
+      output.push(chunk.toString());
+    }
+    return { output: output.join(''), errors };
+  }
+
+  const document = [
+    '# Guide',
+    '<!-- if audience == "internal" -->',
+    'For staff',
+    '<!-- else -->',
+    'For everyone',
+    '<!-- endif -->',
+    '![[internal-notes|if=audience == "internal"]]',
+    'Done'
+  ].join('\n');
+
+  it('should keep the branches whose conditions hold', async () => {
+    const internal = await transclude(document, { basePath, variables: { audience: 'internal' } });
+    const external = await transclude(document, { basePath, templateVariables: { audience: 'public' } });
+
+    expect(internal.errors).toEqual([]);
+    expect(internal.content).toBe('# Guide\nFor staff\nInternal notes\nDone');
+    expect(external.content).toBe('# Guide\nFor everyone\n\nDone');
+  });
+
+  it('should not read files of references whose condition does not hold', async () => {
+    const result = await transclude('![[missing|if=audience == "internal"]]', { basePath });
+
+    expect(result.errors).toEqual([]);
+    expect(result.content).toBe('');
+    expect(result.processedFiles).toEqual([]);
+  });
+
+  it('should track blocks across stream chunks', async () => {
+    const chunks = ['# Gui', 'de\n<!-- if audi', 'ence == "internal" -->\nFor st', 'aff\n<!-- else -->\nFor everyone\n<!-- end', 'if -->\nDone'];
+
+    const result = await processChunks(chunks, { basePath, variables: { audience: 'internal' } });
+
+    expect(result).toEqual({ output: '# Guide\nFor staff\nDone', errors: [] });
+  });
+
+  it('should evaluate conditions in transcluded files against parameters and frontmatter', async () => {
+    const result = await transclude('![[setup|edition=pro]]', { basePath, stripFrontmatter: true });
+
+    expect(result.errors).toEqual([]);
+    expect(result.content).toBe('Setup\nPro on Linux\nEdition pro');
+  });
+
+  it('should evaluate conditions against data sources when streaming', async () => {
+    const result = await processChunks(
+      ['<!-- if product.edition == "enterprise" -->\nEnterprise\n<!-- endif -->'],
+      { basePath, dataSources: ['data'] }
+    );
+
+    expect(result.output).toBe('Enterprise');
+  });
+
+  it('should evaluate conditions against data sources in transclude()', async () => {
+    const document = '<!-- if product.edition == "enterprise" -->\nEnterprise\n<!-- endif -->\n![[internal-notes|if=product.edition]]';
+    
+    const result = await transclude(document, { basePath, dataSources: ['data'] });
+    
+    expect(result.errors).toEqual([]);
+    expect(result.content).toBe('Enterprise\nInternal notes');
+    
+    const missing = await transclude(document, { basePath, dataSources: ['missing.yaml'] });
+    expect(missing.errors).toEqual([
+      { message: 'Data source not found: missing.yaml', path: 'input', code: 'DATA_SOURCE_NOT_FOUND' }
+    ]);
+  });
+  
+  it('should report invalid conditions and unclosed blocks', async () => {
+    const invalid = await transclude('![[internal-notes|if=audience ==]]', { basePath });
+    const unclosed = await transclude('![[unclosed]]', { basePath, variables: { beta: 'true' } });
+    const streamed = await processChunks(['<!-- if beta -->\nBeta'], { basePath });
+
+    expect(invalid.content).toBe('<!-- Error: Expected a value at end of condition in condition "audience ==" -->');
+    expect(invalid.errors.map(error => error.code)).toEqual(['INVALID_CONDITION']);
+    expect(unclosed.content).toBe('Start\nBeta');
+    expect(unclosed.errors[0].message).toBe(
+      `<!-- if --> without a closing <!-- endif --> (line 2) in ${path.join(basePath, 'unclosed.md')}`
+    );
+    expect(streamed.output).toBe('');
+    expect(streamed.errors.map(error => error.message)).toEqual([
+      '<!-- if --> without a closing <!-- endif --> (line 1) in input'
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('CSV Table Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/csv-table-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'data'), { recursive: true });
+    
+    await fs.writeFile(path.join(basePath, 'data/browsers.csv'), [
+      'name,engine,version,notes',
+      'Chrome,Blink,120,"Flags: a|b"',
+      'Firefox,Gecko,121,',
+      'Safari,WebKit,17,"Needs ""prefix"""'
+    ].join('\n') + '\n');
+    await fs.writeFile(path.join(basePath, 'data/matrix.tsv'), 'feature\tsupported\nGrid\tyes\n');
+    await fs.writeFile(path.join(basePath, 'data/broken.csv'), 'a,b\n"unclosed\n');
+    await fs.mkdir(path.join(basePath, 'releases'));
+    await fs.writeFile(path.join(basePath, 'releases/a.csv'), 'v\n1\n2\n');
+    await fs.writeFile(path.join(basePath, 'releases/b.csv'), 'v\n3\n4\n');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+  
+  it('should render CSV files as escaped pipe tables', async () => {
+    const result = await transclude('# Browsers\n\n![[data/browsers.csv]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe([
+      '# Browsers',
+      '',
+      '| name | engine | version | notes |',
+      '| --- | --- | ---: | --- |',
+      '| Chrome | Blink | 120 | Flags: a\\|b |',
+      '| Firefox | Gecko | 121 |  |',
+      '| Safari | WebKit | 17 | Needs "prefix" |'
+    ].join('\n'));
+  });
+  
+  it('should render TSV files', async () => {
+    const result = await transclude('![[data/matrix.tsv]]', { basePath });
+    
+    expect(result.content).toBe('| feature | supported |\n| --- | --- |\n| Grid | yes |');
+  });
+  
+  it('should apply the table parameters', async () => {
+    const result = await transclude(
+      '![[data/browsers.csv|columns=name,version|rename=name:Browser|filter=engine!=Gecko|order-by=-version|align=left,right]]',
+      { basePath }
+    );
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe([
+      '| Browser | version |',
+      '| :--- | ---: |',
+      '| Chrome | 120 |',
+      '| Safari | 17 |'
+    ].join('\n'));
+  });
+  
+  it('should order glob matches with sort and table rows with order-by', async () => {
+    const result = await transclude('![[releases/*.csv|sort=mtime|order-by=-v]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toContain('| v |\n| ---: |\n| 2 |\n| 1 |');
+    expect(result.content).toContain('| v |\n| ---: |\n| 4 |\n| 3 |');
+  });
+  
+  it('should embed the raw file as code when lang is given', async () => {
+    const result = await transclude('![[data/matrix.tsv|lang=tsv]]', { basePath });
+    
+    expect(result.content).toBe('```tsv\nfeature\tsupported\nGrid\tyes\n```');
+  });
+  
+  it('should report invalid data and unknown columns', async () => {
+    const result = await transclude('![[data/broken.csv]]\n![[data/browsers.csv|order-by=release]]', { basePath });
+    
+    expect(result.errors.map(error => error.code)).toEqual(['INVALID_CSV', 'UNKNOWN_COLUMN']);
+    expect(result.errors[1].message).toBe(
+      `Unknown column "release": expected one of name, engine, version, notes in ${path.join(basePath, 'data/browsers.csv')}`
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { createTransclusionStream } from '../../src/stream';
+import { transclude } from '../../src/transclude';
+import type { TransclusionOptions, TransclusionError } from '../../src/types';
+
+describe('Data Sources Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/data-sources-integration-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'data'), { recursive: true });
+    
+    await fs.writeFile(path.join(basePath, 'data/product.yaml'), [
+      'name: Transclusion Kit',
+      'version: "2.1.0"',
+      'platforms:',
+      '  - linux',
+      '  - macos'
+    ].join('\n'));
+    await fs.writeFile(path.join(basePath, 'data/links.json'), '{"docs": {"url": "https://docs.example.org"}}');
+    await fs.writeFile(path.join(basePath, 'install.md'), 'Install {{product.name}} {{product.version}} from {{links.docs.url}}');
+    await fs.writeFile(path.join(basePath, 'invalid.yaml'), 'name: "unclosed');
+    await fs.mkdir(path.join(basePath, 'folders/archive.json'), { recursive: true });
+  });
+  
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+  
+  async function processString(input: string, options: TransclusionOptions, errors: TransclusionError[] = []): Promise<string> {
+    const stream = createTransclusionStream(options);
+    stream.on('transclusion-error', error => errors.push(error));
+    const chunks: string[] = [];
+    for await (const chunk of Readable.from([input]).pipe(stream)) {
+      chunks.push(chunk.toString());
+    }
+    return chunks.join('');
+  }
+  
+  it('should substitute namespaced data in the document and transcluded files', async () => {
+    const result = await processString(
+      '# {{product.name}}\n\nRuns on {{product.platforms.0}}.\n![[install]]',
+      { basePath, dataSources: ['data'] }
+    );
+    
+    expect(result).toBe(
+      '# Transclusion Kit\n\nRuns on linux.\nInstall Transclusion Kit 2.1.0 from https://docs.example.org'
+    );
+  });
+  
+  it('should let template variables override data', async () => {
+    const result = await processString('{{product.version}} {{product.name}}', {
+      basePath,
+      dataSources: ['data/product.yaml'],
+      templateVariables: { 'product.version': '3.0.0' }
+    });
+    
+    expect(result).toBe('3.0.0 Transclusion Kit');
+  });
+  
+  it('should report data sources that cannot be loaded and continue without them', async () => {
+    const errors: TransclusionError[] = [];
+    const result = await processString('{{product.name}} {{edition}}', {
+      basePath,
+      dataSources: ['invalid.yaml'],
+      templateVariables: { edition: 'community' }
+    }, errors);
+    
+    expect(result).toBe('{{product.name}} community');
+    expect(errors).toEqual([{
+      message: 'Invalid YAML in invalid.yaml: Unclosed quoted string (line 1)',
+      path: 'input',
+      code: 'INVALID_DATA'
+    }]);
+  });
+  
+  it('should report missing and unreadable data sources in transclude()', async () => {
+    const missing = await transclude('{{product.name}}', { basePath, dataSources: ['data/missing.json'] });
+    const unreadable = await transclude('{{product.name}}', { basePath, dataSources: ['folders'] });
+    
+    expect(missing.content).toBe('{{product.name}}');
+    expect(missing.errors).toEqual([
+      { message: 'Data source not found: data/missing.json', path: 'input', code: 'DATA_SOURCE_NOT_FOUND' }
+    ]);
+    expect(unreadable.errors).toHaveLength(1);
+    expect(unreadable.errors[0].code).toBe('READ_ERROR');
+    expect(unreadable.errors[0].message).toMatch(/^Failed to read data source folders\/archive\.json: EISDIR/);
+  });
+});
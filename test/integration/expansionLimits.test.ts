@@ -0,0 +1,76 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+import { TransclusionTransform } from '../../src/stream';
+
+describe('Expansion Limits Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/expansion-limits-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(basePath, { recursive: true });
+    
+    // lol3 expands to 10 x lol2 = 100 x lol1 = 1000 x lol0
+    await fs.writeFile(path.join(basePath, 'lol0.md'), 'lol');
+    for (let level = 1; level <= 3; level++) {
+      await fs.writeFile(path.join(basePath, `lol${level}.md`), Array(10).fill(`![[lol${level - 1}.md]]`).join('\n'));
+    }
+    await fs.writeFile(path.join(basePath, 'wide.md'), Array(20).fill('![[lol0.md]]').join(' '));
+  });
+  
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+  
+  it('should expand nested includes within the default limits', async () => {
+    const result = await transclude('![[lol3.md]]', { basePath });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content.split('\n')).toHaveLength(1000);
+  });
+  
+  it('should stop the expansion at the include limit and name the files causing it', async () => {
+    const result = await transclude('![[lol3.md]]', { basePath, maxIncludes: 500 });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('MAX_INCLUDES_EXCEEDED');
+    expect(result.errors[0].message).toBe(
+      'Maximum number of includes (500) exceeded including lol0.md from lol1.md; ' +
+      'most includes made by lol1.md (449), lol2.md (45), lol3.md (5)'
+    );
+    expect(result.content.split('\n').filter(line => line === 'lol')).toHaveLength(449);
+  });
+  
+  it('should stop the expansion at the size limit', async () => {
+    const result = await transclude('![[lol3.md]]', { basePath, maxIncludedBytes: 2000 });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('MAX_INCLUDED_BYTES_EXCEEDED');
+    expect(result.errors[0].message).toMatch(
+      /^Maximum included size \(2000 bytes\) exceeded including lol\d\.md from lol\d\.md; most bytes included from lol1\.md \(\d+ bytes\)/
+    );
+  });
+  
+  it('should limit the number of files included by a single file', async () => {
+    const result = await transclude('![[lol2.md]]\n![[wide.md]]', { basePath, maxFanOut: 15 });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('MAX_FAN_OUT_EXCEEDED');
+    expect(result.errors[0].message).toBe('Maximum fan-out (15) exceeded: wide.md includes more than 15 files');
+    expect(result.errors[0].path).toBe(path.join(basePath, 'wide.md'));
+  });
+  
+  it('should count includes across the lines of a stream', async () => {
+    const transform = new TransclusionTransform({ basePath, maxIncludes: 3 });
+    const output: string[] = [];
+    transform.on('data', chunk => output.push(chunk.toString()));
+    
+    for (let i = 0; i < 5; i++) {
+      transform.write('![[lol0.md]]\n');
+    }
+    await new Promise(resolve => transform.end(resolve));
+    
+    expect(transform.errors).toHaveLength(1);
+    expect(transform.errors[0].code).toBe('MAX_INCLUDES_EXCEEDED');
+    expect(output.join('').match(/^lol$/gm)).toHaveLength(3);
+  });
+});
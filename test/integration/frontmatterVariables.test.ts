@@ -0,0 +1,139 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { transclude } from '../../src/transclude';
+import { createTransclusionStream } from '../../src/stream';
+import type { TransclusionOptions } from '../../src/types';
+
+describe('Frontmatter Variables Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/frontmatter-variables-integration-test');
+
+  beforeAll(async () => {
+    await fs.mkdir(basePath, { recursive: true });
+
+    await fs.writeFile(path.join(basePath, 'chapter.md'), [
+      '---',
+      'title: Installation',
+      'tags: [setup]',
+      'author:',
+      '  name: Grace',
+      '---',
+      '',
+      '## {{page.title}} (in {{parent.title}})',
+      '',
+      '![[section]]'
+    ].join('\n'));
+    await fs.writeFile(path.join(basePath, 'section.md'), [
+      '+++',
+      'title = "Requirements"',
+      'tags = ["requirements"]',
+      '+++',
+      '{{page.title}} of {{parent.title}}; book {{book.title}}'
+    ].join('\n'));
+    await fs.writeFile(path.join(basePath, 'invalid.md'), '---\ntitle: "unclosed\n---\nBody');
+  });
+
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+
+  async function processString(input: string, options: TransclusionOptions): Promise<string> {
+    const stream = createTransclusionStream(options);
+    const chunks: string[] = [];
+    for await (const chunk of Readable.from([input]).pipe(stream)) {
+      chunks.push(chunk.toString());
+    }
+    return chunks.join('');
+  }
+
+  const book = [
+    '---',
+    'title: Handbook',
+    'tags: [guide]',
+    '---',
+    '# {{page.title}}',
+    '![[chapter]]'
+  ].join('\n');
+
+  it('should expose frontmatter of the same file as page and of the including file as parent', async () => {
+    const result = await transclude(book, { basePath, stripFrontmatter: true });
+
+    expect(result.errors).toEqual([]);
+    expect(result.content).toBe([
+      '---',
+      'title: Handbook',
+      'tags: [guide]',
+      '---',
+      '# Handbook',
+      '## Installation (in Handbook)',
+      '',
+      'Requirements of Installation; book {{book.title}}'
+    ].join('\n'));
+  });
+
+  it('should keep frontmatter of the input document in the output unless merged', async () => {
+    const result = await transclude('---\ntitle: Handbook\n---\n{{page.title}}', { basePath });
+    const stripped = await transclude('---\ntitle: Handbook\n---\n{{page.title}}', { basePath, stripFrontmatter: true });
+
+    expect(result.content).toBe('---\ntitle: Handbook\n---\nHandbook');
+    expect(stripped.content).toBe(result.content);
+  });
+
+  it('should merge frontmatter of transcluded files into the document frontmatter', async () => {
+    const result = await transclude(book, { basePath, mergeFrontmatter: true });
+
+    expect(result.content).toBe([
+      '---',
+      'title: Handbook',
+      'tags:',
+      '  - guide',
+      '  - setup',
+      '  - requirements',
+      'author:',
+      '  name: Grace',
+      '---',
+      '# Handbook',
+      '## Installation (in Handbook)',
+      '',
+      'Requirements of Installation; book {{book.title}}'
+    ].join('\n'));
+  });
+
+  it('should merge frontmatter when streaming', async () => {
+    const result = await processString(book, { basePath, mergeFrontmatter: true });
+
+    expect(result).toBe([
+      '---',
+      'title: Handbook',
+      'tags:',
+      '  - guide',
+      '  - setup',
+      '  - requirements',
+      'author:',
+      '  name: Grace',
+      '---',
+      '# Handbook',
+      '## Installation (in Handbook)',
+      '',
+      'Requirements of Installation; book {{book.title}}'
+    ].join('\n'));
+  });
+
+  it('should substitute page variables when streaming without stripping', async () => {
+    const result = await processString('---\ntitle: Handbook\n---\n# {{page.title}}', { basePath });
+
+    expect(result).toBe('---\ntitle: Handbook\n---\n# Handbook');
+  });
+
+  it('should warn about invalid frontmatter and include the file', async () => {
+    const result = await transclude('![[invalid]]', { basePath });
+
+    expect(result.content).toBe('---\ntitle: "unclosed\n---\nBody');
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_FRONTMATTER',
+        message: expect.stringContaining('Unclosed quoted string (line 2)')
+      })
+    ]);
+  });
+});
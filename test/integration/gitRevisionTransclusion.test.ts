@@ -0,0 +1,113 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { transclude } from '../../src/transclude';
+import { MemoryFileCache } from '../../src/fileCache';
+
+describe('Git Revision Transclusion Integration', () => {
+  let repository: string;
+  
+  const git = (...args: string[]): string => execFileSync(
+    'git',
+    ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args],
+    { cwd: repository, encoding: 'utf8' }
+  );
+  
+  beforeAll(() => {
+    repository = fs.mkdtempSync(path.join(os.tmpdir(), 'git-transclusion-'));
+    git('init', '-q');
+    
+    fs.writeFileSync(path.join(repository, 'CHANGELOG.md'), '# Changelog\n\n## 1.0.0\nFirst release');
+    fs.writeFileSync(path.join(repository, 'api.md'), '# API\n\n## Endpoints\nGET /v1/items\n\n## Auth\nNone');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Release 1.0.0');
+    git('tag', 'v1.0.0');
+    
+    fs.writeFileSync(path.join(repository, 'CHANGELOG.md'), '# Changelog\n\n## 2.0.0\nBreaking changes\n\n## 1.0.0\nFirst release');
+    fs.writeFileSync(path.join(repository, 'api.md'), '# API\n\n## Endpoints\nGET /v2/items\n\n## Auth\nTokens');
+    fs.writeFileSync(path.join(repository, 'new.md'), 'Added in 2.0.0');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Release 2.0.0');
+  });
+  
+  afterAll(() => {
+    fs.rmSync(repository, { recursive: true });
+  });
+  
+  it('should include a file as it existed at a tag', async () => {
+    const result = await transclude('![[CHANGELOG.md@v1.0.0]]', { basePath: repository });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('# Changelog\n\n## 1.0.0\nFirst release');
+  });
+  
+  it('should apply anchors and extensions to the file at the revision', async () => {
+    const result = await transclude('![[api@HEAD~1#Endpoints]]', { basePath: repository });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('## Endpoints\nGET /v1/items');
+  });
+  
+  it('should report unknown revisions', async () => {
+    const result = await transclude('![[CHANGELOG.md@v9.9.9]]', { basePath: repository });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('UNKNOWN_REVISION');
+    expect(result.errors[0].message).toBe('Unknown git revision: v9.9.9');
+  });
+  
+  it('should report files that do not exist at the revision', async () => {
+    const result = await transclude('![[new.md@v1.0.0]]', { basePath: repository });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('FILE_NOT_FOUND');
+    expect(result.errors[0].message).toBe('File not found at revision v1.0.0: new.md');
+  });
+  
+  it('should cache blobs by object id', async () => {
+    const cache = new MemoryFileCache();
+    await transclude('![[CHANGELOG.md@v1.0.0]]', { basePath: repository, cache });
+    
+    const objectId = git('rev-parse', 'v1.0.0:CHANGELOG.md').trim();
+    expect(cache.get(`git:${objectId}`)?.content).toBe('# Changelog\n\n## 1.0.0\nFirst release');
+  });
+  
+  it('should read files with "@" in their name as written', async () => {
+    const basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'at-sign-'));
+    fs.writeFileSync(path.join(basePath, 'photo@2x.md'), 'Photo');
+    fs.writeFileSync(path.join(basePath, 'team@company.md'), 'Team');
+    
+    try {
+      const result = await transclude('![[photo@2x.md]]\n![[team@company]]', { basePath });
+      
+      expect(result.errors).toHaveLength(0);
+      expect(result.content).toBe('Photo\nTeam');
+    } finally {
+      fs.rmSync(basePath, { recursive: true });
+    }
+  });
+  
+  it('should report files with "@" in their name as not found when the revision does not exist', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'at-sign-missing-'));
+    
+    try {
+      for (const basePath of [repository, outside]) {
+        const result = await transclude('![[missing@2x.md]]', { basePath });
+        
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].code).toBe('FILE_NOT_FOUND');
+        expect(result.errors[0].message).toContain('missing@2x.md');
+      }
+    } finally {
+      fs.rmSync(outside, { recursive: true });
+    }
+  });
+  
+  it('should leave out missing optional files with "@" in their name', async () => {
+    const result = await transclude('Before\n![[missing@2x.md?]]\nAfter', { basePath: repository, strict: true });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Before\n\nAfter');
+  });
+});
@@ -0,0 +1,91 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Glob and Directory Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/glob-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(testDir, 'chapters/appendix'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'ordered'), { recursive: true });
+    
+    await fs.writeFile(path.join(testDir, 'chapters/chapter-10.md'), '# Ten');
+    await fs.writeFile(path.join(testDir, 'chapters/chapter-2.md'), '# Two');
+    await fs.writeFile(path.join(testDir, 'chapters/draft.md'), '# Draft');
+    await fs.writeFile(path.join(testDir, 'chapters/notes.txt'), 'Notes');
+    await fs.writeFile(path.join(testDir, 'chapters/appendix/a.md'), '# Appendix');
+    await fs.writeFile(path.join(testDir, 'chapters/index.md'), 'Index\n![[*.md|exclude=draft.md]]');
+    await fs.writeFile(path.join(testDir, 'ordered/intro.md'), '---\norder: 2\n---\nIntro');
+    await fs.writeFile(path.join(testDir, 'ordered/setup.md'), '---\norder: 1\n---\nSetup');
+    await fs.writeFile(path.join(testDir, 'ordered/faq.md'), 'FAQ');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should include the Markdown files of a directory in natural order', async () => {
+    const result = await transclude('![[chapters/|exclude=index.md]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('# Two\n\n# Ten\n\n# Draft');
+    expect(result.processedFiles).toContain(path.join(testDir, 'chapters/chapter-10.md'));
+  });
+  
+  it('should expand recursive patterns with filters and separators', async () => {
+    const result = await transclude(
+      '![[chapters/**/*.md|include=chapter-*,a.md|separator=\\n---\\n]]',
+      { basePath: testDir }
+    );
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('# Appendix\n---\n# Two\n---\n# Ten');
+  });
+  
+  it('should sort by the frontmatter order key', async () => {
+    const result = await transclude('![[ordered/]]', {
+      basePath: testDir,
+      globSort: 'order',
+      globSeparator: ' | '
+    });
+    const content = result.content;
+    
+    expect(result.errors).toHaveLength(0);
+    expect(content.indexOf('Setup')).toBeLessThan(content.indexOf('Intro'));
+    expect(content.indexOf('Intro')).toBeLessThan(content.indexOf('FAQ'));
+    expect(content).toContain(' | FAQ');
+  });
+  
+  it('should resolve patterns relative to the including file and skip that file', async () => {
+    const result = await transclude('![[chapters/index.md]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Index\n# Two\n\n# Ten');
+  });
+  
+  it('should report patterns without matches and support alternatives', async () => {
+    const missing = await transclude('![[drafts/*.md]]', { basePath: testDir });
+    const fallback = await transclude('![[drafts/*.md || chapters/*.txt]]', { basePath: testDir });
+    
+    expect(missing.errors).toHaveLength(1);
+    expect(missing.errors[0].message).toBe('No files match: drafts/*.md');
+    expect(fallback.errors).toHaveLength(0);
+    expect(fallback.content).toBe('Notes');
+  });
+  
+  it('should reject unknown sort orders', async () => {
+    const result = await transclude('![[chapters/|sort=size]]', { basePath: testDir });
+    
+    expect(result.errors[0].code).toBe('INVALID_GLOB_SORT');
+  });
+  
+  it('should apply base path containment to every matched file', async () => {
+    const result = await transclude('![[../glob-test/chapters/*.txt]]', {
+      basePath: path.join(testDir, 'chapters/appendix')
+    });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.content).toContain('<!-- Error:');
+    expect(result.content).not.toContain('Notes');
+  });
+});
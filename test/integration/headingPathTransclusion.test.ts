@@ -0,0 +1,82 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { transclude } from '../../src/transclude';
+import { createTransclusionStream } from '../../src/stream';
+
+describe('Heading Path Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/heading-path-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'guide.md'),
+      `# Guide
+
+## Installation
+
+### Examples
+Install with npm.
+
+## Configuration
+
+### Examples
+Set options in config.json.`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should select a duplicate heading by its parent', async () => {
+    const result = await transclude('![[guide.md#Configuration/Examples]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.warnings).toHaveLength(0);
+    expect(result.content).toBe('### Examples\nSet options in config.json.');
+  });
+  
+  it('should select a duplicate heading by occurrence index', async () => {
+    const result = await transclude('Before ![[guide#Examples[2]]] after', { basePath: testDir });
+    
+    expect(result.content).toBe('Before ### Examples\nSet options in config.json. after');
+  });
+  
+  it('should warn about ambiguous headings and use the first match', async () => {
+    const result = await transclude('![[guide#Examples]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('### Examples\nInstall with npm.');
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0].code).toBe('AMBIGUOUS_HEADING');
+    expect(result.warnings![0].message).toContain('"Installation/Examples"');
+  });
+  
+  it('should report missing heading paths as heading not found', async () => {
+    const result = await transclude('![[guide#Usage/Examples]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('HEADING_NOT_FOUND');
+  });
+  
+  it('should emit warning events from the stream', async () => {
+    const stream = createTransclusionStream({ basePath: testDir });
+    const warnings: string[] = [];
+    stream.on('warning', (message: string) => warnings.push(message));
+    
+    const chunks: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      Readable.from(['![[guide#Examples]]\n'])
+        .pipe(stream)
+        .on('data', chunk => chunks.push(chunk.toString()))
+        .on('end', () => resolve())
+        .on('error', reject);
+    });
+    
+    expect(chunks.join('')).toContain('Install with npm.');
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('Heading "Examples" matches 2 sections');
+  });
+});
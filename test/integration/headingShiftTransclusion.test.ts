@@ -0,0 +1,99 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { transclude } from '../../src/transclude';
+import { createTransclusionStream } from '../../src/stream';
+
+describe('Heading Shift Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/heading-shift-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'ch1.md'),
+      `# Chapter 1
+
+Intro text.
+
+Details
+-------
+
+More text.`
+    );
+    
+    await fs.writeFile(
+      path.join(testDir, 'deep.md'),
+      `#### Four
+
+##### Five`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should leave headings unchanged by default', async () => {
+    const result = await transclude('![[ch1]]', { basePath: testDir });
+    
+    expect(result.content).toContain('# Chapter 1\n');
+    expect(result.content).toContain('Details\n-------');
+  });
+  
+  it('should apply the global heading offset', async () => {
+    const result = await transclude('![[ch1]]', { basePath: testDir, headingOffset: 1 });
+    
+    expect(result.content).toContain('## Chapter 1\n');
+    expect(result.content).toContain('### Details\n');
+  });
+  
+  it('should nest headings under the enclosing heading in auto mode', async () => {
+    const input = '# Book\n\n### Part\n\n![[ch1]]';
+    const result = await transclude(input, { basePath: testDir, headingOffset: 'auto' });
+    
+    expect(result.content).toContain('#### Chapter 1\n');
+    expect(result.content).toContain('##### Details\n');
+    expect(result.content.startsWith('# Book\n\n### Part')).toBe(true);
+  });
+  
+  it('should not read the frontmatter of the input as a heading in auto mode', async () => {
+    const input = '---\ntitle: x\n---\n![[ch1|shift=auto]]';
+    const result = await transclude(input, { basePath: testDir });
+    
+    expect(result.content).toContain('# Chapter 1\n');
+    expect(result.content).toContain('Details\n-------');
+    
+    const stream = createTransclusionStream({ basePath: testDir });
+    const output: string[] = [];
+    for await (const chunk of Readable.from([input]).pipe(stream)) {
+      output.push(chunk.toString());
+    }
+    expect(output.join('')).toContain('# Chapter 1\n');
+  });
+  
+  it('should let a reference override the global offset', async () => {
+    const input = '## Section\n![[ch1|shift=+2]]\n![[ch1|shift=auto]]';
+    const result = await transclude(input, { basePath: testDir, headingOffset: 0 });
+    const lines = result.content.split('\n');
+    
+    expect(lines.filter(line => line === '### Chapter 1')).toHaveLength(2);
+    expect(lines.filter(line => line === '#### Details')).toHaveLength(2);
+  });
+  
+  it('should clamp at level 6 with a warning', async () => {
+    const result = await transclude('![[deep|shift=+2]]', { basePath: testDir });
+    
+    expect(result.content).toBe('###### Four\n\n###### Five');
+    expect(result.errors).toHaveLength(0);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings![0].code).toBe('HEADING_LEVEL_CLAMPED');
+  });
+  
+  it('should warn about invalid shift parameters and include content unchanged', async () => {
+    const result = await transclude('![[deep|shift=lots]]', { basePath: testDir });
+    
+    expect(result.content).toBe('#### Four\n\n##### Five');
+    expect(result.warnings![0].code).toBe('INVALID_HEADING_SHIFT');
+  });
+});
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Heading Slug Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/heading-slug-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'guide.md'),
+      `# Guide
+
+## Getting Started with v2!
+Install the package.
+
+## Configuration {#config}
+Edit config.json.`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should transclude a section by its GitHub anchor', async () => {
+    const result = await transclude('![[guide.md#getting-started-with-v2]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('## Getting Started with v2!\nInstall the package.');
+  });
+  
+  it('should transclude a section by its custom id', async () => {
+    const result = await transclude('![[guide#config]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('## Configuration {#config}\nEdit config.json.');
+  });
+  
+  it('should report unknown anchors as heading not found', async () => {
+    const result = await transclude('![[guide#getting-started-with-v3]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('HEADING_NOT_FOUND');
+  });
+});
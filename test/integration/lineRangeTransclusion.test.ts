@@ -0,0 +1,74 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+import { MemoryFileCache } from '../../src/fileCache';
+
+describe('Line Range Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/line-range-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'example.md'),
+      `# Example
+
+## Setup
+Install the package.
+    npm install example
+Then configure it.
+
+## Usage
+Call the function.`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should transclude a closed line range', async () => {
+    const result = await transclude('![[example.md#L4-L5]]', {
+      basePath: testDir,
+      cache: new MemoryFileCache()
+    });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Install the package.\n    npm install example');
+  });
+  
+  it('should preserve indentation of the first selected line', async () => {
+    const result = await transclude('![[example#L5]]', { basePath: testDir });
+    
+    expect(result.content).toBe('    npm install example');
+  });
+  
+  it('should transclude an open-ended line range', async () => {
+    const result = await transclude('![[example#L8-]]', { basePath: testDir });
+    
+    expect(result.content).toBe('## Usage\nCall the function.');
+  });
+  
+  it('should apply line ranges relative to a heading section', async () => {
+    const result = await transclude('![[example#Setup#L2-3]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Install the package.\n    npm install example');
+  });
+  
+  it('should report out of bounds ranges', async () => {
+    const result = await transclude('![[example#L8-L20]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('LINE_RANGE_OUT_OF_BOUNDS');
+    expect(result.errors[0].message).toContain('exceeds file length (9 lines)');
+    expect(result.content).toContain('<!-- Error: Line range L8-L20 exceeds file length');
+  });
+  
+  it('should report inverted ranges', async () => {
+    const result = await transclude('![[example#L5-L2]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('INVALID_LINE_RANGE');
+  });
+});
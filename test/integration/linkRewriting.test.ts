@@ -0,0 +1,80 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude, transcludeFile } from '../../src/transclude';
+
+describe('Link Rewriting Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/link-rewrite-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(testDir, 'docs', 'api'), { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'docs', 'api', 'intro.md'),
+      `![diagram](img/flow.png)
+See [usage](../usage.md#start) or [site](https://example.com).
+
+![[details]]`
+    );
+    
+    await fs.writeFile(
+      path.join(testDir, 'docs', 'api', 'details.md'),
+      '<img src="img/detail.png">'
+    );
+    
+    await fs.writeFile(
+      path.join(testDir, 'README.md'),
+      '# Project\n\n![[docs/api/intro]]'
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should rebase links to the root output file', async () => {
+    const result = await transcludeFile(path.join(testDir, 'README.md'));
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toContain('![diagram](docs/api/img/flow.png)');
+    expect(result.content).toContain('[usage](docs/usage.md#start)');
+    expect(result.content).toContain('[site](https://example.com)');
+  });
+  
+  it('should rebase links in nested transclusions from their own directory', async () => {
+    const result = await transcludeFile(path.join(testDir, 'README.md'));
+    
+    expect(result.content).toContain('<img src="docs/api/img/detail.png">');
+  });
+  
+  it('should rebase relative to an explicit output path', async () => {
+    const result = await transclude('![[docs/api/intro]]', {
+      basePath: testDir,
+      outputPath: path.join(testDir, 'dist', 'README.md')
+    });
+    
+    expect(result.content).toContain('![diagram](../docs/api/img/flow.png)');
+  });
+  
+  it('should emit root-relative links', async () => {
+    const result = await transclude('![[docs/api/intro]]', { basePath: testDir, linkMode: 'root-relative' });
+    
+    expect(result.content).toContain('![diagram](/docs/api/img/flow.png)');
+  });
+  
+  it('should emit absolute links from a base URL', async () => {
+    const result = await transclude('![[docs/api/intro]]', {
+      basePath: testDir,
+      linkMode: 'absolute',
+      linkBaseUrl: 'https://docs.example.com'
+    });
+    
+    expect(result.content).toContain('![diagram](https://docs.example.com/docs/api/img/flow.png)');
+  });
+  
+  it('should keep links unchanged when rewriting is disabled', async () => {
+    const result = await transclude('![[docs/api/intro]]', { basePath: testDir, rewriteLinks: false });
+    
+    expect(result.content).toContain('![diagram](img/flow.png)');
+    expect(result.content).toContain('<img src="img/detail.png">');
+  });
+});
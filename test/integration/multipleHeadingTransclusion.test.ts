@@ -0,0 +1,86 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Multiple Heading Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/multiple-heading-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'api.md'),
+      `# API
+
+## Install
+Run npm install.
+
+## Configuration
+Set the options.
+
+## Usage
+Call run().
+
+## FAQ
+Ask away.`
+    );
+    
+    await fs.writeFile(
+      path.join(testDir, 'notes.md'),
+      `# Notes
+
+## Pros, Cons
+Both listed here.`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should include sections in the order listed', async () => {
+    const result = await transclude('![[api.md#FAQ,Install]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('## FAQ\nAsk away.\n\n## Install\nRun npm install.');
+  });
+  
+  it('should join sections with a configured separator', async () => {
+    const result = await transclude('![[api#Install,Usage]]', {
+      basePath: testDir,
+      headingSeparator: '\n\n---\n\n'
+    });
+    
+    expect(result.content).toBe('## Install\nRun npm install.\n\n---\n\n## Usage\nCall run().');
+  });
+  
+  it('should report each missing heading and keep the found sections', async () => {
+    const result = await transclude('![[api#Install,Setup,Usage,Support]]', { basePath: testDir });
+    
+    expect(result.content).toBe('## Install\nRun npm install.\n\n## Usage\nCall run().');
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors.map(e => e.code)).toEqual(['HEADING_NOT_FOUND', 'HEADING_NOT_FOUND']);
+    expect(result.errors[0].message).toContain('Heading "Setup" not found');
+    expect(result.errors[1].message).toContain('Heading "Support" not found');
+  });
+  
+  it('should render an error when no heading is found', async () => {
+    const result = await transclude('![[api#Setup,Support]]', { basePath: testDir });
+    
+    expect(result.content).toContain('<!-- Error: Heading "Setup" not found');
+    expect(result.errors).toHaveLength(2);
+  });
+  
+  it('should still match a single heading containing a comma', async () => {
+    const result = await transclude('![[notes#Pros, Cons]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('## Pros, Cons\nBoth listed here.');
+  });
+  
+  it('should combine with line ranges', async () => {
+    const result = await transclude('![[api#Install,Usage#L2-L4]]', { basePath: testDir });
+    
+    expect(result.content).toBe('Run npm install.\n\n## Usage');
+  });
+});
@@ -0,0 +1,86 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Readable } from 'stream';
+import { transclude } from '../../src/transclude';
+import { createTransclusionStream } from '../../src/stream';
+
+describe('Parameterized Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/parameterized-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(testDir, 'templates'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'en'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'fr'), { recursive: true });
+    
+    await fs.writeFile(path.join(testDir, 'templates/callout.md'), '> [!{{type}}] {{title}}');
+    await fs.writeFile(path.join(testDir, 'section.md'), '## {{title}}\n![[templates/callout.md]]');
+    await fs.writeFile(path.join(testDir, 'nested.md'), '![[templates/callout.md|title=Inner]]\n{{title}}');
+    await fs.writeFile(path.join(testDir, 'localized.md'), '![[{{lang}}/intro.md]]');
+    await fs.writeFile(path.join(testDir, 'en/intro.md'), 'Hello');
+    await fs.writeFile(path.join(testDir, 'fr/intro.md'), 'Bonjour');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should substitute parameters into the included content', async () => {
+    const result = await transclude('![[templates/callout.md|type=warning|title=Careful]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('> [!warning] Careful');
+  });
+  
+  it('should reuse one template with different values', async () => {
+    const input = '![[templates/callout|type=note|title=One]]\n![[templates/callout|type=tip|title=Two]]';
+    const result = await transclude(input, { basePath: testDir });
+    
+    expect(result.content).toBe('> [!note] One\n> [!tip] Two');
+  });
+  
+  it('should not leak parameters into sibling includes', async () => {
+    const result = await transclude('![[templates/callout|type=note|title=A]] ![[templates/callout]]', { basePath: testDir });
+    
+    expect(result.content).toBe('> [!note] A > [!{{type}}] {{title}}');
+  });
+  
+  it('should make parameters visible to descendants', async () => {
+    const result = await transclude('![[section|type=info|title=Setup]]', { basePath: testDir });
+    
+    expect(result.content).toBe('## Setup\n> [!info] Setup');
+  });
+  
+  it('should let inner parameters shadow outer ones only within the inner include', async () => {
+    const result = await transclude('![[nested|type=note|title=Outer]]', { basePath: testDir });
+    
+    expect(result.content).toBe('> [!note] Inner\nOuter');
+  });
+  
+  it('should make parameters visible to path variables, overriding global variables', async () => {
+    const result = await transclude('![[localized|lang=fr]]', {
+      basePath: testDir,
+      variables: { lang: 'en' }
+    });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Bonjour');
+  });
+  
+  it('should leave remaining variables to global template variables in streams', async () => {
+    const stream = createTransclusionStream({
+      basePath: testDir,
+      templateVariables: { type: 'global', title: 'Global' }
+    });
+    const chunks: string[] = [];
+    
+    await new Promise<void>((resolve, reject) => {
+      Readable.from(['![[templates/callout|title=Local]]'])
+        .pipe(stream)
+        .on('data', chunk => chunks.push(chunk.toString()))
+        .on('end', resolve)
+        .on('error', reject);
+    });
+    
+    expect(chunks.join('')).toBe('> [!global] Local');
+  });
+});
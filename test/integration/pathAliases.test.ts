@@ -0,0 +1,73 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Path Aliases and Search Paths Integration', () => {
+  const rootDir = path.join(__dirname, '../fixtures/alias-test');
+  const basePath = path.join(rootDir, 'site');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'docs'), { recursive: true });
+    await fs.mkdir(path.join(rootDir, 'packages/docs-shared/legal'), { recursive: true });
+    await fs.mkdir(path.join(rootDir, 'templates'), { recursive: true });
+    await fs.mkdir(path.join(rootDir, 'private'), { recursive: true });
+    
+    await fs.writeFile(path.join(rootDir, 'packages/docs-shared/legal/disclaimer.md'), 'Shared disclaimer');
+    await fs.writeFile(path.join(rootDir, 'packages/docs-shared/legal/terms.md'), 'Shared terms');
+    await fs.writeFile(path.join(rootDir, 'templates/footer.md'), 'Template footer');
+    await fs.writeFile(path.join(rootDir, 'private/secret.md'), 'Secret');
+    await fs.writeFile(path.join(basePath, 'footer.md'), 'Site footer');
+    await fs.writeFile(path.join(basePath, 'docs/page.md'), '![[@shared/legal/disclaimer]]');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(rootDir, { recursive: true });
+  });
+  
+  const options = {
+    basePath,
+    aliases: { '@shared': '../packages/docs-shared' },
+    searchPaths: ['../templates']
+  };
+  
+  it('should resolve aliased references below the alias root', async () => {
+    const result = await transclude('![[docs/page]]', options);
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Shared disclaimer');
+  });
+  
+  it('should expand globs below the alias root', async () => {
+    const result = await transclude('![[@shared/legal/*.md|separator=\\n]]', options);
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Shared disclaimer\nShared terms');
+  });
+  
+  it('should try search paths in order after the base path', async () => {
+    const fromBase = await transclude('![[footer]]', options);
+    const fromSearchPath = await transclude('![[footer]]', {
+      basePath: path.join(basePath, 'docs'),
+      searchPaths: ['../../templates']
+    });
+    
+    expect(fromBase.content).toBe('Site footer');
+    expect(fromSearchPath.content).toBe('Template footer');
+  });
+  
+  it('should keep files outside the base path and allowed roots unreachable', async () => {
+    const viaAlias = await transclude('![[@shared/../../private/secret]]', options);
+    const viaTraversal = await transclude('![[../private/secret]]', options);
+    
+    expect(viaAlias.content).not.toContain('Secret');
+    expect(viaTraversal.content).not.toContain('Secret');
+    expect(viaAlias.errors).toHaveLength(1);
+    expect(viaTraversal.errors).toHaveLength(1);
+  });
+  
+  it('should treat alias prefixes literally without configured aliases', async () => {
+    const result = await transclude('![[@shared/legal/disclaimer]]', { basePath });
+    
+    expect(result.errors[0].code).toBe('FILE_NOT_FOUND');
+  });
+});
@@ -0,0 +1,66 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Region Transclusion Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/region-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    
+    await fs.writeFile(
+      path.join(testDir, 'client.ts'),
+      `export function createClient() {
+  // #region setup
+  const client = new Client();
+  client.configure();
+  // #endregion
+  return client;
+}`
+    );
+    
+    await fs.writeFile(
+      path.join(testDir, 'guide.md'),
+      `# Guide
+
+<!-- region: install -->
+Run the installer.
+<!-- endregion -->
+
+<!-- region: broken -->
+Never closed.`
+    );
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should transclude a code region with indentation preserved', async () => {
+    const result = await transclude('![[client.ts#region=setup]]', { basePath: testDir });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('```typescript\n  const client = new Client();\n  client.configure();\n```');
+  });
+  
+  it('should compose regions with line ranges', async () => {
+    const result = await transclude('![[client.ts#region=setup#L2]]', { basePath: testDir });
+    
+    expect(result.content).toBe('```typescript\n  client.configure();\n```');
+  });
+  
+  it('should transclude a Markdown region', async () => {
+    const result = await transclude('![[guide#region=install]]', { basePath: testDir });
+    
+    expect(result.content).toBe('Run the installer.');
+  });
+  
+  it('should report missing and unclosed regions with distinct codes', async () => {
+    const missing = await transclude('![[guide#region=usage]]', { basePath: testDir });
+    const unclosed = await transclude('![[guide#region=broken]]', { basePath: testDir });
+    
+    expect(missing.errors[0].code).toBe('REGION_NOT_FOUND');
+    expect(unclosed.errors[0].code).toBe('UNCLOSED_REGION');
+    expect(unclosed.content).toContain('<!-- Error: Region "broken" starting at line 7 is never closed');
+  });
+});
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { transclude } from '../../src/transclude';
+
+describe('Remote Transclusion Integration', () => {
+  const files: Record<string, string> = {
+    '/shared/terms.md': '# Terms\n\n## Liability\nNone.\n\n## Contact\n![[footer.md]]',
+    '/shared/footer.md': 'Shared footer'
+  };
+  let server: http.Server;
+  let host: string;
+  let requests: string[];
+  let cacheDir: string;
+  
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      requests.push(request.url ?? '');
+      const content = files[request.url ?? ''];
+      response.writeHead(content === undefined ? 404 : 200);
+      response.end(content);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+  
+  beforeEach(() => {
+    requests = [];
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'remote-transclusion-'));
+  });
+  
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true });
+  });
+  
+  it('should include files from allowed hosts, resolving nested references against the URL', async () => {
+    const result = await transclude(`![[http://${host}/shared/terms.md]]`, { allowedHosts: [host] });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('# Terms\n\n## Liability\nNone.\n\n## Contact\nShared footer');
+    expect(result.processedFiles).toContain(`http://${host}/shared/footer.md`);
+  });
+  
+  it('should apply heading anchors to remote files', async () => {
+    const result = await transclude(`![[http://${host}/shared/terms.md#Liability]]`, { allowedHosts: [host] });
+    
+    expect(result.content).toBe('## Liability\nNone.');
+  });
+  
+  it('should reject hosts that are not allowed without fetching', async () => {
+    const result = await transclude(`![[http://${host}/shared/terms.md]]`, { allowedHosts: ['docs.example.org'] });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('HOST_NOT_ALLOWED');
+    expect(result.errors[0].message).toBe(`Host not allowed for remote transclusion: ${host}`);
+    expect(requests).toHaveLength(0);
+  });
+  
+  it('should report failed fetches', async () => {
+    const result = await transclude(`![[http://${host}/missing.md]]`, { allowedHosts: [host] });
+    
+    expect(result.errors[0].code).toBe('FETCH_ERROR');
+    expect(result.errors[0].message).toContain('HTTP 404');
+  });
+  
+  it('should rebuild offline from the remote cache', async () => {
+    const input = `![[http://${host}/shared/terms.md#Liability]]`;
+    await transclude(input, { allowedHosts: [host], remoteCacheDir: cacheDir });
+    requests = [];
+    
+    const result = await transclude(input, { allowedHosts: [host], remoteCacheDir: cacheDir, offline: true });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('## Liability\nNone.');
+    expect(requests).toHaveLength(0);
+  });
+});
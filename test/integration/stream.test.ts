@@ -72,6 +72,47 @@ describe('TransclusionStream Integration Tests', () => {
     });
   });
 
+  describe('Code blocks', () => {
+    it('should leave transclusions inside fenced code blocks unchanged', async () => {
+      const input = '```md\n![[simple]]\n```\n~~~\n![[simple]]\n~~~\n![[simple]]';
+      const result = await processString(input, {
+        basePath: fixturesPath,
+        cache
+      });
+      
+      expect(result).toBe('```md\n![[simple]]\n```\n~~~\n![[simple]]\n~~~\n# Simple File\n\nThis is a simple test file for transclusion.');
+    });
+
+    it('should keep a longer fence open across shorter nested fences', async () => {
+      const input = '````md\n```\n![[simple]]\n```\n````';
+      const result = await processString(input, {
+        basePath: fixturesPath,
+        cache
+      });
+      
+      expect(result).toBe(input);
+    });
+
+    it('should leave transclusions inside indented code blocks unchanged', async () => {
+      const input = 'Example:\n\n    ![[simple]]\n\nDone';
+      const result = await processString(input, {
+        basePath: fixturesPath,
+        cache
+      });
+      
+      expect(result).toBe(input);
+    });
+
+    it('should track fences split across chunks', async () => {
+      const readable = Readable.from(['```\n![[sim', 'ple]]\n``', '`\n![[simple]]']);
+      const stream = createTransclusionStream({ basePath: fixturesPath, cache });
+      
+      const result = await streamToString(readable.pipe(stream));
+      
+      expect(result).toMatch(/^```\n!\[\[simple\]\]\n```\n# Simple File/);
+    });
+  });
+
   describe('Recursive includes', () => {
     beforeAll(async () => {
       // Create test files for recursive transclusion
@@ -0,0 +1,67 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Target Policy Integration', () => {
+  const basePath = path.join(__dirname, '../fixtures/target-policy-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'docs/drafts'), { recursive: true });
+    await fs.mkdir(path.join(basePath, 'snippets'), { recursive: true });
+    await fs.mkdir(path.join(basePath, 'private'), { recursive: true });
+    
+    await fs.writeFile(path.join(basePath, 'docs/guide.md'), 'Guide\n![[snippets/install.md]]');
+    await fs.writeFile(path.join(basePath, 'docs/leaky.md'), '![[../private/notes.md]]');
+    await fs.writeFile(path.join(basePath, 'docs/api.secret.md'), 'API keys');
+    await fs.writeFile(path.join(basePath, 'docs/drafts/plan.md'), 'Draft plan');
+    await fs.writeFile(path.join(basePath, 'snippets/install.md'), 'npm install');
+    await fs.writeFile(path.join(basePath, 'private/notes.md'), 'Private notes');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+  
+  const options = {
+    basePath,
+    allow: ['docs/**', 'snippets/**'],
+    deny: ['**/drafts/**', '**/*.secret.md']
+  };
+  
+  it('should transclude allowed files', async () => {
+    const result = await transclude('![[docs/guide]]', options);
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Guide\nnpm install');
+  });
+  
+  it('should report denied files as policy violations without reading them', async () => {
+    const result = await transclude('![[docs/drafts/plan]] ![[docs/api.secret.md]]', options);
+    
+    expect(result.errors.map(error => error.code)).toEqual(['POLICY_VIOLATION', 'POLICY_VIOLATION']);
+    expect(result.errors[0].message).toBe('Path matches deny pattern "**/drafts/**": docs/drafts/plan.md');
+    expect(result.content).not.toContain('Draft plan');
+    expect(result.processedFiles).toHaveLength(0);
+  });
+  
+  it('should enforce the allow globs in nested files', async () => {
+    const result = await transclude('![[docs/leaky.md]]', options);
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toBe('Path matches no allow pattern (docs/**, snippets/**): ../private/notes.md');
+    expect(result.content).not.toContain('Private notes');
+  });
+  
+  it('should leave denied files out of glob expansions', async () => {
+    const result = await transclude('![[docs/**/*.md|separator=\\n]]', { ...options, deny: [...options.deny, 'leaky.md'] });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Guide\nnpm install');
+  });
+  
+  it('should still report optional references that are denied', async () => {
+    const result = await transclude('![[docs/drafts/plan.md?]]', options);
+    
+    expect(result.errors[0].code).toBe('POLICY_VIOLATION');
+  });
+});
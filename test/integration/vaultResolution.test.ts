@@ -0,0 +1,58 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { transclude } from '../../src/transclude';
+
+describe('Vault Resolution Integration', () => {
+  const testDir = path.join(__dirname, '../fixtures/vault-test');
+  
+  beforeAll(async () => {
+    await fs.mkdir(path.join(testDir, 'notes/2024'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'archive'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'projects'), { recursive: true });
+    
+    await fs.writeFile(path.join(testDir, 'notes/2024/Meeting Notes.md'), 'Agenda for 2024');
+    await fs.writeFile(path.join(testDir, 'notes/Daily.md'), 'Daily note');
+    await fs.writeFile(path.join(testDir, 'archive/Daily.md'), 'Archived daily note');
+    await fs.writeFile(path.join(testDir, 'projects/Roadmap.md'), 'Roadmap\n![[Meeting Notes]]');
+  });
+  
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true });
+  });
+  
+  it('should resolve a unique basename anywhere in the vault', async () => {
+    const result = await transclude('![[Roadmap]]', { basePath: testDir, resolution: 'vault' });
+    
+    expect(result.errors).toHaveLength(0);
+    expect(result.content).toBe('Roadmap\nAgenda for 2024');
+    expect(result.processedFiles).toContain(path.join(testDir, 'notes/2024/Meeting Notes.md'));
+  });
+  
+  it('should report ambiguous basenames with their candidates', async () => {
+    const result = await transclude('![[Daily]]', { basePath: testDir, resolution: 'vault' });
+    
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('AMBIGUOUS_REFERENCE');
+    expect(result.errors[0].message).toBe('Ambiguous reference: Daily matches archive/Daily.md, notes/Daily.md');
+  });
+  
+  it('should resolve ambiguous basenames qualified by a folder', async () => {
+    const result = await transclude('![[notes/Daily]]', { basePath: testDir, resolution: 'vault' });
+    
+    expect(result.content).toBe('Daily note');
+  });
+  
+  it('should match basenames case-insensitively when requested', async () => {
+    const sensitive = await transclude('![[meeting notes]]', { basePath: testDir, resolution: 'vault' });
+    const insensitive = await transclude('![[meeting notes]]', { basePath: testDir, resolution: 'vault', caseInsensitive: true });
+    
+    expect(sensitive.errors[0].code).toBe('FILE_NOT_FOUND');
+    expect(insensitive.content).toBe('Agenda for 2024');
+  });
+  
+  it('should report ambiguous optional references', async () => {
+    const result = await transclude('![[Daily?]]', { basePath: testDir, resolution: 'vault' });
+    
+    expect(result.errors[0].code).toBe('AMBIGUOUS_REFERENCE');
+  });
+});
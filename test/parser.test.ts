@@ -245,6 +245,12 @@ describe('hasOpenCodeFence', () => {
   it('should handle no code fences', () => {
     expect(hasOpenCodeFence('regular text')).toBe(false);
   });
+
+  it('should handle tilde fences and nested fences of different lengths', () => {
+    expect(hasOpenCodeFence('~~~\n```\ncode')).toBe(true);
+    expect(hasOpenCodeFence('````md\n```\ninner\n```\n````')).toBe(false);
+    expect(hasOpenCodeFence('````md\n```\ninner\n```')).toBe(true);
+  });
 });
 
 describe('maskCodeBlocks', () => {
@@ -268,6 +274,16 @@ describe('maskCodeBlocks', () => {
     expect(blocks[1]).toBe('```\nblock2\n```');
   });
 
+  it('should mask tilde, nested and indented code blocks', () => {
+    const content = '~~~\n![[a]]\n~~~\n\n````md\n```\n![[b]]\n```\n````\n\n    ![[c]]\n\n![[d]]';
+    const { masked, blocks } = maskCodeBlocks(content);
+    
+    expect(blocks).toEqual(['~~~\n![[a]]\n~~~', '````md\n```\n![[b]]\n```\n````', '    ![[c]]']);
+    expect(masked).toHaveLength(content.length);
+    expect(masked).not.toMatch(/!\[\[[abc]\]\]/);
+    expect(masked).toContain('![[d]]');
+  });
+
   it('should handle content with no code blocks', () => {
     const content = 'just regular text';
     const { masked, blocks } = maskCodeBlocks(content);
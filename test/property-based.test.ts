@@ -71,8 +71,9 @@ describe('Property-Based Tests', () => {
       fc.assert(
         fc.property(
           fc.tuple(
-            fc.string().filter(s => s.length > 0 && !s.includes('#') && !s.includes(']')),
-            fc.string().filter(s => s.length > 0 && !s.includes(']') && !s.includes(':'))
+            // '|' introduces reference parameters (e.g., |shift=+2), a trailing '?' marks optional includes
+            fc.string().filter(s => s.length > 0 && !s.includes('#') && !s.includes(']') && !s.includes('|') && !s.trim().endsWith('?')),
+            fc.string().filter(s => s.length > 0 && !s.includes(']') && !s.includes(':') && !s.includes('|'))
           ),
           ([filename, heading]) => {
             const input = `![[${filename}#${heading}]]`;
@@ -80,7 +81,8 @@ describe('Property-Based Tests', () => {
             const result = results.length > 0 ? results[0] : null;
             
             if (result) {
-              expect(result.path).toBe(filename.trim());
+              // A suffix such as "@v1.2.0" is read as a git revision; it is only used when no file has the full name
+              expect(result.revision ? `${result.path}@${result.revision}` : result.path).toBe(filename.trim());
               // Heading might be undefined if parsing fails
               if (result.heading) {
                 expect(result.heading).toBe(heading.trim());
@@ -97,9 +99,9 @@ describe('Property-Based Tests', () => {
       fc.assert(
         fc.property(
           fc.tuple(
-            fc.string().filter(s => s.length > 0 && !s.includes('#') && !s.includes(']')),
-            fc.string().filter(s => s.length > 0 && !s.includes(']') && !s.includes(':')),
-            fc.string().filter(s => !s.includes(']'))
+            fc.string().filter(s => s.length > 0 && !s.includes('#') && !s.includes(']') && !s.includes('|') && !s.trim().endsWith('?')),
+            fc.string().filter(s => s.length > 0 && !s.includes(']') && !s.includes(':') && !s.includes('|')),
+            fc.string().filter(s => !s.includes(']') && !s.includes('|'))
           ),
           ([filename, startHeading, endHeading]) => {
             const input = `![[${filename}#${startHeading}:${endHeading}]]`;
@@ -107,7 +109,7 @@ describe('Property-Based Tests', () => {
             const result = results.length > 0 ? results[0] : null;
             
             if (result) {
-              expect(result.path).toBe(filename.trim());
+              expect(result.revision ? `${result.path}@${result.revision}` : result.path).toBe(filename.trim());
               if (startHeading.trim()) {
                 expect(result.heading).toBe(startHeading.trim());
               }
@@ -1,5 +1,8 @@
 import { resolvePath, fileExists, getDirectory, joinPath, substituteVariables } from '../src/resolver';
 import { SecurityErrorCode } from '../src/security';
+import { ResolutionCache } from '../src/utils/resolutionCache';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 const fixturesDir = path.join(__dirname, 'fixtures');
@@ -107,6 +110,33 @@ describe('resolvePath', () => {
     });
   });
 
+  describe('vault resolution', () => {
+    it('should find a file by basename anywhere under the base path', () => {
+      const result = resolvePath('overview', { basePath: fixturesDir, resolution: 'vault' });
+      
+      expect(result.exists).toBe(true);
+      expect(result.absolutePath).toBe(path.join(fixturesDir, 'sections/intro/overview.md'));
+    });
+
+    it('should only look files up by basename in vault mode', () => {
+      const result = resolvePath('overview', { basePath: fixturesDir });
+      
+      expect(result.exists).toBe(false);
+    });
+
+    it('should prefer a file at the referenced path', () => {
+      const result = resolvePath('simple', { basePath: fixturesDir, resolution: 'vault' });
+      
+      expect(result.absolutePath).toBe(path.join(fixturesDir, 'simple.md'));
+    });
+
+    it('should not look up references that leave the directory', () => {
+      const result = resolvePath('../overview', { basePath: path.join(fixturesDir, 'sections'), resolution: 'vault' });
+      
+      expect(result.exists).toBe(false);
+    });
+  });
+
   describe('security integration', () => {
     it('should reject path traversal attempts that escape base directory', () => {
       const result = resolvePath('../../../etc/passwd', { basePath: fixturesDir });
@@ -143,6 +173,125 @@ describe('resolvePath', () => {
     });
   });
 
+  describe('target policy', () => {
+    it('should reject files excluded by the allow and deny globs', () => {
+      const denied = resolvePath('sections/intro/overview', { basePath: fixturesDir, deny: ['sections/**'] });
+      
+      expect(denied.exists).toBe(false);
+      expect(denied.errorCode).toBe(SecurityErrorCode.POLICY_VIOLATION);
+      expect(denied.code).toBe('POLICY_VIOLATION');
+      expect(denied.error).toBe('Path matches deny pattern "sections/**": sections/intro/overview.md');
+      
+      const notAllowed = resolvePath('simple', { basePath: fixturesDir, allow: ['sections/**'] });
+      expect(notAllowed.error).toBe('Path matches no allow pattern (sections/**): simple.md');
+    });
+    
+    it('should report missing files as not found', () => {
+      const result = resolvePath('missing', { basePath: fixturesDir, allow: ['sections/**'] });
+      
+      expect(result.errorCode).toBeUndefined();
+      expect(result.error).toBe('File not found: missing');
+    });
+    
+    it('should skip denied files in vault lookups', () => {
+      const result = resolvePath('overview', { basePath: fixturesDir, resolution: 'vault', deny: ['**/intro/**'] });
+      
+      expect(result.exists).toBe(false);
+      expect(result.code).toBe('POLICY_VIOLATION');
+      expect(resolvePath('overview', { basePath: fixturesDir, resolution: 'vault', allow: ['sections/**'] }).exists).toBe(true);
+    });
+  });
+  
+  describe('symlink policy', () => {
+    let root: string;
+    let basePath: string;
+    
+    beforeAll(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'resolver-symlinks-'));
+      basePath = path.join(root, 'docs');
+      fs.mkdirSync(path.join(root, 'outside'));
+      fs.mkdirSync(path.join(basePath, 'notes'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'outside', 'secret.md'), 'Secret');
+      fs.writeFileSync(path.join(basePath, 'notes', 'intro.md'), 'Intro');
+      fs.symlinkSync(path.join(root, 'outside'), path.join(basePath, 'linked'), 'dir');
+      fs.symlinkSync(path.join(root, 'outside', 'secret.md'), path.join(basePath, 'secret.md'));
+      fs.symlinkSync(path.join(basePath, 'notes'), path.join(basePath, 'chapters'), 'dir');
+    });
+    
+    afterAll(() => {
+      fs.rmSync(root, { recursive: true });
+    });
+    
+    it('should reject symlinked files and directories pointing outside the base directory by default', () => {
+      for (const reference of ['secret.md', 'linked/secret.md']) {
+        const result = resolvePath(reference, { basePath });
+        
+        expect(result.exists).toBe(false);
+        expect(result.errorCode).toBe(SecurityErrorCode.SYMLINK_NOT_ALLOWED);
+        expect(result.error).toBe(`Symbolic link resolves outside base directory: ${reference}`);
+      }
+    });
+    
+    it('should follow symlinks that stay within the base directory', () => {
+      const result = resolvePath('chapters/intro.md', { basePath });
+      
+      expect(result.exists).toBe(true);
+      expect(result.absolutePath).toBe(path.join(basePath, 'chapters', 'intro.md'));
+    });
+    
+    it('should follow every symlink with the follow policy', () => {
+      expect(resolvePath('linked/secret.md', { basePath, symlinkPolicy: 'follow' }).exists).toBe(true);
+    });
+    
+    it('should reject every symlink with the deny policy', () => {
+      const result = resolvePath('chapters/intro.md', { basePath, symlinkPolicy: 'deny' });
+      
+      expect(result.errorCode).toBe(SecurityErrorCode.SYMLINK_NOT_ALLOWED);
+      expect(result.error).toBe('Symbolic links are not allowed: chapters/intro.md');
+      expect(resolvePath('notes/intro.md', { basePath, symlinkPolicy: 'deny' }).exists).toBe(true);
+    });
+    
+    it('should accept symlink targets within allowed roots', () => {
+      const result = resolvePath('linked/secret.md', { basePath, searchPaths: ['../outside'] });
+      
+      expect(result.exists).toBe(true);
+    });
+    
+    it('should check files created as symlinks after a failed lookup', () => {
+      const resolutionCache = new ResolutionCache();
+      
+      expect(resolvePath('evil.md', { basePath, resolutionCache }).exists).toBe(false);
+      fs.symlinkSync(path.join(root, 'outside', 'secret.md'), path.join(basePath, 'evil.md'));
+      const result = resolvePath('evil.md', { basePath, resolutionCache });
+      
+      expect(result.exists).toBe(false);
+      expect(result.errorCode).toBe(SecurityErrorCode.SYMLINK_NOT_ALLOWED);
+    });
+    
+    it('should check the allow and deny globs against symlink targets', () => {
+      fs.mkdirSync(path.join(basePath, 'drafts'));
+      fs.writeFileSync(path.join(basePath, 'drafts', 'plan.md'), 'Plan');
+      fs.symlinkSync(path.join('..', 'drafts', 'plan.md'), path.join(basePath, 'notes', 'plan.md'));
+      
+      const denied = resolvePath('notes/plan.md', { basePath, deny: ['**/drafts/**'] });
+      const notAllowed = resolvePath('notes/plan.md', { basePath, allow: ['notes/**'] });
+      
+      expect(denied.exists).toBe(false);
+      expect(denied.errorCode).toBe(SecurityErrorCode.POLICY_VIOLATION);
+      expect(denied.error).toBe('Path matches deny pattern "**/drafts/**": notes/plan.md');
+      expect(notAllowed.error).toBe('Path matches no allow pattern (notes/**): notes/plan.md');
+      expect(resolvePath('plan', { basePath, resolution: 'vault', deny: ['drafts/**'] }).code).toBe('POLICY_VIOLATION');
+      expect(resolvePath('notes/plan.md', { basePath, allow: ['notes/**', 'drafts/**'] }).exists).toBe(true);
+    });
+    
+    it('should apply the policy to vault lookups', () => {
+      const result = resolvePath('secret', { basePath: path.join(basePath, 'linked'), resolution: 'vault' });
+      
+      expect(result.exists).toBe(true);
+      expect(resolvePath('secret', { basePath, resolution: 'vault' }).errorCode).toBe(SecurityErrorCode.SYMLINK_NOT_ALLOWED);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty reference', () => {
       const result = resolvePath('', { basePath: fixturesDir });
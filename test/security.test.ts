@@ -1,4 +1,16 @@
-import { validatePath, isWithinBasePath, sanitizePath, SecurityError, SecurityErrorCode } from '../src/security';
+import {
+  validatePath,
+  isWithinBasePath,
+  isWithinAllowedRoots,
+  isAllowedBySymlinkPolicy,
+  checkTargetPolicy,
+  getRealPath,
+  sanitizePath,
+  SecurityError,
+  SecurityErrorCode
+} from '../src/security';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 // Helper to test security errors
@@ -100,6 +112,111 @@ describe('validatePath', () => {
   });
 });
 
+describe('isWithinAllowedRoots', () => {
+  const basePath = '/home/user/project';
+  const roots = ['/home/user/shared/docs'];
+
+  it('should accept paths within the base directory or an allowed root', () => {
+    expect(isWithinAllowedRoots('/home/user/project/file.md', basePath, roots)).toBe(true);
+    expect(isWithinAllowedRoots('/home/user/shared/docs/legal.md', basePath, roots)).toBe(true);
+  });
+
+  it('should reject paths outside every root', () => {
+    expect(isWithinAllowedRoots('/home/user/shared/secret.md', basePath, roots)).toBe(false);
+    expect(isWithinAllowedRoots('/home/user/shared/docs-other/a.md', basePath, roots)).toBe(false);
+    expect(isWithinAllowedRoots('/home/user/shared/docs/legal.md', basePath)).toBe(false);
+  });
+});
+
+describe('isAllowedBySymlinkPolicy', () => {
+  let root: string;
+  let basePath: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'symlink-policy-'));
+    basePath = path.join(root, 'docs');
+    fs.mkdirSync(path.join(root, 'outside'));
+    fs.mkdirSync(path.join(basePath, 'notes'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'outside', 'secret.md'), 'Secret');
+    fs.writeFileSync(path.join(basePath, 'notes', 'intro.md'), 'Intro');
+    fs.symlinkSync(path.join(root, 'outside'), path.join(basePath, 'linked'), 'dir');
+    fs.symlinkSync(path.join(basePath, 'notes', 'intro.md'), path.join(basePath, 'intro.md'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true });
+  });
+
+  it('should only accept symlink targets within a root with follow-within-base', () => {
+    const secret = path.join(basePath, 'linked', 'secret.md');
+
+    expect(isAllowedBySymlinkPolicy(secret, basePath)).toBe(false);
+    expect(isAllowedBySymlinkPolicy(secret, basePath, [path.join(root, 'outside')])).toBe(true);
+    expect(isAllowedBySymlinkPolicy(path.join(basePath, 'intro.md'), basePath)).toBe(true);
+  });
+
+  it('should accept any target with follow', () => {
+    expect(isAllowedBySymlinkPolicy(path.join(basePath, 'linked', 'secret.md'), basePath, [], 'follow')).toBe(true);
+  });
+
+  it('should reject paths through symlinks with deny', () => {
+    expect(isAllowedBySymlinkPolicy(path.join(basePath, 'intro.md'), basePath, [], 'deny')).toBe(false);
+    expect(isAllowedBySymlinkPolicy(path.join(basePath, 'notes', 'intro.md'), basePath, [], 'deny')).toBe(true);
+  });
+
+  it('should accept base directories reached through a symlink', () => {
+    const linkedBase = path.join(root, 'linked-docs');
+    fs.symlinkSync(basePath, linkedBase, 'dir');
+
+    expect(isAllowedBySymlinkPolicy(path.join(linkedBase, 'notes', 'intro.md'), linkedBase, [], 'deny')).toBe(true);
+    expect(isAllowedBySymlinkPolicy(path.join(linkedBase, 'linked', 'secret.md'), linkedBase)).toBe(false);
+  });
+
+  it('should accept paths that do not exist', () => {
+    expect(isAllowedBySymlinkPolicy(path.join(basePath, 'missing.md'), basePath, [], 'deny')).toBe(true);
+  });
+
+  it('should only cache real paths of existing files', () => {
+    const cache = new Map<string, string>();
+    const file = path.join(basePath, 'intro.md');
+    const missing = path.join(basePath, 'missing.md');
+    expect(getRealPath(file, cache)).toBe(fs.realpathSync(path.join(basePath, 'notes', 'intro.md')));
+    expect(getRealPath(missing, cache)).toBeNull();
+
+    fs.unlinkSync(file);
+    fs.symlinkSync(path.join(root, 'outside', 'secret.md'), missing);
+    expect(getRealPath(file, cache)).not.toBeNull();
+    expect(getRealPath(file)).toBeNull();
+    expect(getRealPath(missing, cache)).toBe(fs.realpathSync(path.join(root, 'outside', 'secret.md')));
+  });
+});
+
+describe('checkTargetPolicy', () => {
+  const basePath = '/home/user/project';
+  const policy = { allow: ['docs/**', 'snippets/**'], deny: ['**/drafts/**', '*.secret.md'] };
+
+  it('should accept paths matching an allow glob', () => {
+    expect(checkTargetPolicy('/home/user/project/docs/guide/intro.md', basePath, policy)).toEqual({ allowed: true });
+    expect(checkTargetPolicy('/home/user/project/snippets/install.md', basePath, policy)).toEqual({ allowed: true });
+  });
+
+  it('should reject paths matching no allow glob', () => {
+    expect(checkTargetPolicy('/home/user/project/notes/todo.md', basePath, policy)).toEqual({ allowed: false });
+    expect(checkTargetPolicy('/home/user/other/docs/a.md', basePath, policy)).toEqual({ allowed: false });
+  });
+
+  it('should let deny globs win over allow globs', () => {
+    expect(checkTargetPolicy('/home/user/project/docs/drafts/plan.md', basePath, policy))
+      .toEqual({ allowed: false, deniedBy: '**/drafts/**' });
+    expect(checkTargetPolicy('/home/user/project/docs/keys.secret.md', basePath, policy))
+      .toEqual({ allowed: false, deniedBy: '*.secret.md' });
+  });
+
+  it('should accept every path without globs', () => {
+    expect(checkTargetPolicy('/home/user/project/notes/todo.md', basePath, {})).toEqual({ allowed: true });
+  });
+});
+
 describe('isWithinBasePath', () => {
   const basePath = '/home/user/project';
 
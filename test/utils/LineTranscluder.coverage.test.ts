@@ -8,7 +8,8 @@ jest.mock('../../src/fileReader', () => ({
 }));
 
 jest.mock('../../src/utils/headingExtractor', () => ({
-  extractHeadingContent: jest.fn()
+  extractHeadingContent: jest.fn(),
+  checkHeadingAmbiguity: jest.fn()
 }));
 
 jest.mock('../../src/resolver', () => ({
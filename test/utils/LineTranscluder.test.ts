@@ -107,6 +107,20 @@ describe('LineTranscluder', () => {
       expect(transluder.getErrors()).toHaveLength(0);
       expect(transluder.getProcessedFiles()).toHaveLength(0);
     });
+    
+    it('should read the frontmatter and conditional blocks of a new document after a reset', async () => {
+      ['---', 'title: First', '---'].forEach(line => transluder.readFrontmatterLine(line));
+      transluder.readConditionLine('<!-- if draft -->');
+      
+      transluder.reset();
+      
+      expect(transluder.getFrontmatter()).toBeUndefined();
+      expect(['---', 'title: Second', '---'].map(line => transluder.readFrontmatterLine(line))).toEqual([true, true, true]);
+      expect(transluder.readConditionLine('Text')).toBe(false);
+      expect(await transluder.processLine('{{page.title}}')).toBe('Second');
+      transluder.endConditions();
+      expect(transluder.getErrors()).toHaveLength(0);
+    });
   });
   
   describe('cache statistics', () => {
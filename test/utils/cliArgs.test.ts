@@ -284,6 +284,14 @@ describe('CLI Argument Parsing', () => {
       }
     });
     
+    it('should parse --merge-frontmatter flag', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--merge-frontmatter']);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.mergeFrontmatter).toBe(true);
+      }
+    });
+    
     it('should parse combination with --strip-frontmatter', () => {
       const result = parseCliArgs([
         'node', 'cli.js', 
@@ -300,6 +308,181 @@ describe('CLI Argument Parsing', () => {
         expect(result.value.strict).toBe(true);
       }
     });
+    
+    it('should parse --heading-offset values', () => {
+      const numeric = parseCliArgs(['node', 'cli.js', '--heading-offset', '-1']);
+      const auto = parseCliArgs(['node', 'cli.js', '--heading-offset', 'auto']);
+      
+      expect(numeric.ok && numeric.value.headingOffset).toBe(-1);
+      expect(auto.ok && auto.value.headingOffset).toBe('auto');
+    });
+    
+    it('should parse link rewriting flags', () => {
+      const result = parseCliArgs([
+        'node', 'cli.js',
+        '--no-rewrite-links',
+        '--link-mode', 'absolute',
+        '--link-base-url', 'https://docs.example.com'
+      ]);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.rewriteLinks).toBe(false);
+        expect(result.value.linkMode).toBe('absolute');
+        expect(result.value.linkBaseUrl).toBe('https://docs.example.com');
+      }
+    });
+    
+    it('should collect repeated --data and --data-dir flags', () => {
+      const result = parseCliArgs([
+        'node', 'cli.js',
+        '--data', 'docs/data/product.yaml',
+        '--data-dir', 'docs/data',
+        '--data', '.env'
+      ]);
+      
+      expect(result.ok && result.value.dataSources).toEqual(['docs/data/product.yaml', 'docs/data', '.env']);
+    });
+    
+    it('should require a value for --data', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--data']);
+      
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe(CliArgsErrorCode.MISSING_VALUE);
+      }
+    });
+    
+    it('should parse --no-embed-code', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--no-embed-code']);
+      
+      expect(result.ok && result.value.embedCode).toBe(false);
+    });
+    
+    it('should reject unknown --link-mode values', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--link-mode', 'web']);
+      
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe(CliArgsErrorCode.INVALID_VALUE);
+      }
+    });
+    
+    it('should reject invalid --heading-offset values', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--heading-offset', 'deep']);
+      
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe(CliArgsErrorCode.INVALID_VALUE);
+      }
+    });
+    
+    it('should parse glob flags', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--glob-sort', 'order', '--glob-separator', '---']);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.globSort).toBe('order');
+        expect(result.value.globSeparator).toBe('---');
+      }
+    });
+    
+    it('should parse vault resolution flags', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--resolution', 'vault', '--case-insensitive']);
+      const invalid = parseCliArgs(['node', 'cli.js', '--resolution', 'shortest']);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.resolution).toBe('vault');
+        expect(result.value.caseInsensitive).toBe(true);
+      }
+      expect(invalid.ok).toBe(false);
+    });
+    
+    it('should parse aliases and search paths', () => {
+      const result = parseCliArgs([
+        'node', 'cli.js',
+        '--aliases', '@shared=packages/docs-shared,@legal=legal',
+        '--search-paths', 'vendor/docs, templates'
+      ]);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.aliases).toEqual({ '@shared': 'packages/docs-shared', '@legal': 'legal' });
+        expect(result.value.searchPaths).toEqual(['vendor/docs', 'templates']);
+      }
+    });
+    
+    it('should parse expansion limit flags', () => {
+      const result = parseCliArgs([
+        'node', 'cli.js',
+        '--max-includes', '500',
+        '--max-included-bytes', '1048576',
+        '--max-fan-out', '50'
+      ]);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.maxIncludes).toBe(500);
+        expect(result.value.maxIncludedBytes).toBe(1048576);
+        expect(result.value.maxFanOut).toBe(50);
+      }
+      expect(parseCliArgs(['node', 'cli.js', '--max-fan-out', '0']).ok).toBe(false);
+      expect(parseCliArgs(['node', 'cli.js', '--max-includes', '2.5']).ok).toBe(false);
+    });
+    
+    it('should collect --allow and --deny globs from repeated flags', () => {
+      const result = parseCliArgs([
+        'node', 'cli.js',
+        '--allow', 'docs/**,snippets/**',
+        '--deny', '**/drafts/**',
+        '--deny', '*.secret.md'
+      ]);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.allow).toEqual(['docs/**', 'snippets/**']);
+        expect(result.value.deny).toEqual(['**/drafts/**', '*.secret.md']);
+      }
+    });
+    
+    it('should parse --symlinks policies', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--symlinks', 'deny']);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.symlinkPolicy).toBe('deny');
+      }
+      expect(parseCliArgs(['node', 'cli.js', '--symlinks', 'ignore']).ok).toBe(false);
+    });
+    
+    it('should parse remote transclusion flags', () => {
+      const result = parseCliArgs([
+        'node', 'cli.js',
+        '--allow-hosts', 'docs.example.org, *.example.com',
+        '--fetch-timeout', '2500',
+        '--remote-cache', '.cache/remote',
+        '--offline'
+      ]);
+      
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.allowedHosts).toEqual(['docs.example.org', '*.example.com']);
+        expect(result.value.fetchTimeout).toBe(2500);
+        expect(result.value.remoteCacheDir).toBe('.cache/remote');
+        expect(result.value.offline).toBe(true);
+      }
+      expect(parseCliArgs(['node', 'cli.js', '--fetch-timeout', 'soon']).ok).toBe(false);
+    });
+    
+    it('should reject unknown --glob-sort values', () => {
+      const result = parseCliArgs(['node', 'cli.js', '--glob-sort', 'size']);
+      
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe(CliArgsErrorCode.INVALID_VALUE);
+      }
+    });
   });
   
   describe('getHelpText', () => {
@@ -326,6 +509,8 @@ describe('CLI Argument Parsing', () => {
       expect(help).toContain('--strict');
       expect(help).toContain('--validate-only');
       expect(help).toContain('--strip-frontmatter');
+      expect(help).toContain('--merge-frontmatter');
+      expect(help).toContain('CONDITIONAL CONTENT:');
       expect(help).toContain('--log-level');
     });
     
@@ -0,0 +1,60 @@
+import { CodeFenceTracker } from '../../src/utils/codeFenceTracker';
+
+describe('CodeFenceTracker', () => {
+  function track(lines: string[]): boolean[] {
+    const tracker = new CodeFenceTracker();
+    return lines.map(line => tracker.update(line));
+  }
+
+  it('should mark fences and their content as code', () => {
+    expect(track(['text', '```js', 'code', '```', 'after'])).toEqual([false, true, true, true, false]);
+  });
+
+  it('should only close a fence with the same character and at least the same length', () => {
+    expect(track(['````', '```', '~~~~', '````', 'after'])).toEqual([true, true, true, true, false]);
+  });
+
+  it('should not close a fence with a line that has an info string', () => {
+    expect(track(['~~~', '~~~ md', '~~~', 'after'])).toEqual([true, true, true, false]);
+  });
+
+  it('should not treat backtick lines with backticks in the info string as fences', () => {
+    expect(track(['```js`', '![[file]]'])).toEqual([false, false]);
+  });
+
+  it('should expose the info string of the open fence', () => {
+    const tracker = new CodeFenceTracker();
+    tracker.update('```ts title="a.ts"');
+    expect(tracker.info).toBe('ts title="a.ts"');
+    
+    tracker.update('```');
+    expect(tracker.info).toBeUndefined();
+  });
+
+  it('should mark indented code blocks after a blank line or heading', () => {
+    expect(track(['text', '', '    code', '\tmore', '', 'after'])).toEqual([false, false, true, true, false, false]);
+    expect(track(['# Title', '    code'])).toEqual([false, true]);
+  });
+
+  it('should treat indented lines continuing a paragraph as text', () => {
+    expect(track(['text', '    continued'])).toEqual([false, false]);
+  });
+
+  it('should measure indented code relative to list items', () => {
+    expect(track(['- item', '', '    paragraph', '', '      code'])).toEqual([false, false, false, false, true]);
+    expect(track(['1. item', '   ```', '   code', '   ```'])).toEqual([false, true, true, true]);
+  });
+
+  it('should end list context at less indented text after a blank line', () => {
+    expect(track(['- item', '', 'text', '', '    code'])).toEqual([false, false, false, false, true]);
+  });
+
+  it('should reset state', () => {
+    const tracker = new CodeFenceTracker();
+    tracker.update('```');
+    expect(tracker.inFence).toBe(true);
+    
+    tracker.reset();
+    expect(tracker.inFence).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { isMarkdownFile, getCodeLanguage, wrapInCodeFence } from '../../src/utils/codeLanguages';
+
+describe('codeLanguages', () => {
+  describe('isMarkdownFile', () => {
+    it('should recognise Markdown and extensionless files', () => {
+      expect(isMarkdownFile('/docs/guide.md')).toBe(true);
+      expect(isMarkdownFile('/docs/guide.MARKDOWN')).toBe(true);
+      expect(isMarkdownFile('/docs/README')).toBe(true);
+      expect(isMarkdownFile('/app/Dockerfile')).toBe(false);
+      expect(isMarkdownFile('/src/client.ts')).toBe(false);
+    });
+
+    it('should treat configured extensions as Markdown', () => {
+      expect(isMarkdownFile('/docs/page.txt', ['txt'])).toBe(true);
+      expect(isMarkdownFile('/docs/page.txt', ['.md'])).toBe(false);
+    });
+  });
+
+  describe('getCodeLanguage', () => {
+    it('should infer the language from the extension or file name', () => {
+      expect(getCodeLanguage('/src/client.ts')).toBe('typescript');
+      expect(getCodeLanguage('/scripts/INSTALL.SH')).toBe('bash');
+      expect(getCodeLanguage('/app/Dockerfile')).toBe('dockerfile');
+      expect(getCodeLanguage('https://example.org/setup.py?ref=main#L1')).toBe('python');
+      expect(getCodeLanguage('/notes/todo.txt')).toBeUndefined();
+      expect(getCodeLanguage('/partials/banner.html')).toBeUndefined();
+      expect(getCodeLanguage('/config/app.json')).toBeUndefined();
+    });
+  });
+
+  describe('wrapInCodeFence', () => {
+    it('should wrap content with the language and an optional title', () => {
+      expect(wrapInCodeFence('echo hi', 'bash')).toBe('```bash\necho hi\n```');
+      expect(wrapInCodeFence('echo hi', 'bash', 'install.sh')).toBe('```bash title="install.sh"\necho hi\n```');
+      expect(wrapInCodeFence('plain', '')).toBe('```\nplain\n```');
+    });
+
+    it('should use a fence longer than any backtick run in the content', () => {
+      const content = 'const doc = `\n```js\ncode\n```\n`;';
+
+      expect(wrapInCodeFence(content, 'typescript')).toBe(`\`\`\`\`typescript\n${content}\n\`\`\`\``);
+      expect(wrapInCodeFence('a ````` b', 'text').startsWith('``````text\n')).toBe(true);
+    });
+
+    it('should escape quotes in titles', () => {
+      expect(wrapInCodeFence('x', 'text', 'say "hi"')).toBe('```text title="say \\"hi\\""\nx\n```');
+    });
+  });
+});
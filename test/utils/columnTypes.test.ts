@@ -0,0 +1,32 @@
+import { ColumnType, detectColumnType, isNumberValue } from '../../src/utils/columnTypes';
+
+describe('columnTypes', () => {
+  describe('isNumberValue', () => {
+    it('should accept integers and decimals', () => {
+      expect(isNumberValue('42')).toBe(true);
+      expect(isNumberValue(' -3.5 ')).toBe(true);
+      expect(isNumberValue('1,000')).toBe(false);
+      expect(isNumberValue('v8')).toBe(false);
+    });
+  });
+
+  describe('detectColumnType', () => {
+    it('should detect each column type', () => {
+      expect(detectColumnType(['1', '22', '333'])).toBe(ColumnType.NUMBER);
+      expect(detectColumnType(['yes', 'no', 'Y'])).toBe(ColumnType.BOOLEAN);
+      expect(detectColumnType(['https://a.example', 'http://b.example'])).toBe(ColumnType.URL);
+      expect(detectColumnType(['a@example.org', 'b@example.org'])).toBe(ColumnType.EMAIL);
+      expect(detectColumnType(['2024-01-15', '2024-02-01'])).toBe(ColumnType.DATE);
+      expect(detectColumnType(['Chrome', 'Firefox'])).toBe(ColumnType.TEXT);
+    });
+
+    it('should require more than 80% of values to match', () => {
+      expect(detectColumnType(['1', '2', '3', '4', 'n/a'])).toBe(ColumnType.TEXT);
+      expect(detectColumnType(['1', '2', '3', '4', '5', 'n/a'])).toBe(ColumnType.NUMBER);
+    });
+
+    it('should treat empty columns as text', () => {
+      expect(detectColumnType([])).toBe(ColumnType.TEXT);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { parseCondition, evaluateCondition, isTruthy } from '../../src/utils/conditionEvaluator';
+import type { TemplateVariables } from '../../src/utils/templateVariables';
+
+describe('conditionEvaluator', () => {
+  const variables: TemplateVariables = {
+    audience: 'internal',
+    version: '2.10.1',
+    count: 3,
+    beta: 'false',
+    premium: true,
+    product: { edition: 'enterprise', platforms: ['linux'] },
+    today: () => 'monday'
+  };
+
+  function evaluate(expression: string): boolean {
+    const condition = parseCondition(expression);
+    if (!condition.ok) {
+      throw new Error(condition.error.message);
+    }
+    return evaluateCondition(condition.value, variables);
+  }
+
+  describe('parseCondition', () => {
+    it('should parse operators by precedence', () => {
+      expect(parseCondition('a || b && !c == 1')).toEqual({
+        ok: true,
+        value: {
+          type: 'or',
+          left: { type: 'variable', name: 'a' },
+          right: {
+            type: 'and',
+            left: { type: 'variable', name: 'b' },
+            right: {
+              type: 'not',
+              operand: {
+                type: 'compare',
+                operator: '==',
+                left: { type: 'variable', name: 'c' },
+                right: { type: 'literal', value: 1 }
+              }
+            }
+          }
+        }
+      });
+    });
+
+    it('should read keywords, template variable syntax and literals', () => {
+      expect(parseCondition('not {{env}} = "prod" and flag == true or x != null')).toEqual({
+        ok: true,
+        value: {
+          type: 'or',
+          left: {
+            type: 'and',
+            left: {
+              type: 'not',
+              operand: {
+                type: 'compare',
+                operator: '==',
+                left: { type: 'variable', name: 'env' },
+                right: { type: 'literal', value: 'prod' }
+              }
+            },
+            right: {
+              type: 'compare',
+              operator: '==',
+              left: { type: 'variable', name: 'flag' },
+              right: { type: 'literal', value: true }
+            }
+          },
+          right: {
+            type: 'compare',
+            operator: '!=',
+            left: { type: 'variable', name: 'x' },
+            right: { type: 'literal', value: null }
+          }
+        }
+      });
+    });
+
+    it.each([
+      ['', 'Empty condition'],
+      ['a ==', 'Expected a value at end of condition in condition "a =="'],
+      ['(a', 'Expected ")" in condition "(a"'],
+      ['a b', 'Unexpected "b" in condition "a b"'],
+      ['a && || b', 'Expected a value before "||" in condition "a && || b"'],
+      ['a == "unclosed', 'Unexpected """ in condition "a == "unclosed"'],
+      ['process.exit(1); true', 'Unexpected ";" in condition "process.exit(1); true"']
+    ])('should reject %p', (expression, message) => {
+      expect(parseCondition(expression)).toEqual({ ok: false, error: { code: 'INVALID_CONDITION', message } });
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it.each([
+      ['audience == "internal"', true],
+      ['audience = \'internal\'', true],
+      ['audience != "internal"', false],
+      ['premium', true],
+      ['beta', false],
+      ['!beta', true],
+      ['missing', false],
+      ['!missing', true],
+      ['missing == null', true],
+      ['missing != "x"', true],
+      ['missing > 1', false],
+      ['count >= 3 and count < 4', true],
+      ['count == "3"', true],
+      ['count == 3.0', true],
+      ['"v01" == "v1"', false],
+      ['"v01" != "v1"', true],
+      ['"1.0" == "1"', false],
+      ['"v01" >= "v1"', true],
+      ['version > "2.9.0"', true],
+      ['version < 2.11', true],
+      ['count > 2.5', true],
+      ['product.edition == "enterprise"', true],
+      ['product.platforms.0 == "linux"', true],
+      ['today == "monday"', true],
+      ['(audience == "public" || premium) && !beta', true],
+      ['premium == true', true],
+      ['constructor', false]
+    ])('should evaluate %p as %p', (expression, expected) => {
+      expect(evaluate(expression)).toBe(expected);
+    });
+  });
+
+  describe('isTruthy', () => {
+    it('should treat unset, empty, zero and "false" values as false', () => {
+      expect([undefined, null, false, 0, '', 'false'].map(isTruthy)).toEqual([false, false, false, false, false, false]);
+      expect(['0', 'no', 1, true, [], {}].map(isTruthy)).toEqual([true, true, true, true, true, true]);
+    });
+  });
+});
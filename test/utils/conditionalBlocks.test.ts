@@ -0,0 +1,123 @@
+import { ConditionalBlockTracker } from '../../src/utils/conditionalBlocks';
+import type { TemplateVariables } from '../../src/utils/templateVariables';
+
+describe('ConditionalBlockTracker', () => {
+  function filter(lines: string[], variables: TemplateVariables): { output: string[]; errors: string[] } {
+    const tracker = new ConditionalBlockTracker(() => variables);
+    const errors: string[] = [];
+    const output = lines.filter(line => {
+      const result = tracker.update(line);
+      if (result.error) {
+        errors.push(result.error.message);
+      }
+      return result.output;
+    });
+    const unclosed = tracker.end();
+    if (unclosed) {
+      errors.push(unclosed.message);
+    }
+    return { output, errors };
+  }
+
+  const document = [
+    'Intro',
+    '<!-- if audience == "internal" -->',
+    'Internal',
+    '<!-- elseif audience == "partner" -->',
+    'Partner',
+    '<!-- else -->',
+    'Public',
+    '<!-- endif -->',
+    'Outro'
+  ];
+
+  it.each([
+    ['internal', 'Internal'],
+    ['partner', 'Partner'],
+    ['public', 'Public']
+  ])('should output the branch for audience %p', (audience, branch) => {
+    expect(filter(document, { audience })).toEqual({ output: ['Intro', branch, 'Outro'], errors: [] });
+  });
+
+  it('should accept upper case markers and "else if"', () => {
+    const lines = ['<!-- IF {{env}} == "prod" -->', 'Prod', '<!-- ELSE IF env -->', 'Other', '<!-- ENDIF -->'];
+
+    expect(filter(lines, { env: 'dev' }).output).toEqual(['Other']);
+  });
+
+  it('should only output nested blocks when the enclosing branch is taken', () => {
+    const lines = [
+      '<!-- if outer -->',
+      'A',
+      '<!-- if inner -->',
+      'B',
+      '<!-- else -->',
+      'C',
+      '<!-- endif -->',
+      '<!-- else -->',
+      '<!-- if inner -->',
+      'D',
+      '<!-- endif -->',
+      '<!-- endif -->'
+    ];
+
+    expect(filter(lines, { outer: true, inner: false }).output).toEqual(['A', 'C']);
+    expect(filter(lines, { outer: false, inner: true }).output).toEqual(['D']);
+    expect(filter(lines, { outer: false, inner: false }).output).toEqual([]);
+  });
+
+  it('should take only the first branch whose condition holds', () => {
+    const lines = ['<!-- if a -->', 'A', '<!-- elseif b -->', 'B', '<!-- endif -->'];
+
+    expect(filter(lines, { a: true, b: true }).output).toEqual(['A']);
+  });
+
+  it('should leave markers inside code blocks as written', () => {
+    const lines = ['```markdown', '<!-- if draft -->', '```', '    <!-- endif -->'];
+
+    expect(filter(lines, {})).toEqual({ output: lines, errors: [] });
+  });
+
+  it('should keep comments that are not markers', () => {
+    const lines = ['<!-- iffy comment -->', '<!-- if x --> inline text'];
+
+    expect(filter(lines, {}).output).toEqual(lines);
+  });
+
+  it.each([
+    [['<!-- endif -->'], '<!-- endif --> without an opening <!-- if --> (line 1)'],
+    [['<!-- if a -->', '<!-- else -->', '<!-- else -->', '<!-- endif -->'], '<!-- else --> after <!-- else --> (line 3)'],
+    [['<!-- if a -->', '<!-- endif a -->', '<!-- endif -->'], 'Unexpected condition after <!-- endif --> (line 2)'],
+    [['<!-- if a == -->', 'Text', '<!-- endif -->'], 'Expected a value at end of condition in condition "a ==" (line 1)'],
+    [['Text', '<!-- if a -->', 'Text'], '<!-- if --> without a closing <!-- endif --> (line 2)']
+  ])('should report %p', (lines, message) => {
+    expect(filter(lines, { a: true }).errors).toEqual([message]);
+  });
+
+  it('should treat an invalid condition as false', () => {
+    const lines = ['<!-- if a == -->', 'A', '<!-- else -->', 'B', '<!-- endif -->'];
+
+    expect(filter(lines, { a: true }).output).toEqual(['B']);
+  });
+
+  it('should forget open blocks when reset', () => {
+    const tracker = new ConditionalBlockTracker(() => ({ a: false }));
+    ['```', '<!-- if a -->'].forEach(line => tracker.update(line));
+
+    tracker.reset();
+
+    expect(tracker.update('<!-- if a -->')).toEqual({ output: false });
+    expect(tracker.active).toBe(false);
+    expect(tracker.end()?.message).toBe('<!-- if --> without a closing <!-- endif --> (line 1)');
+  });
+
+  it('should not evaluate conditions of branches that cannot be output', () => {
+    const variables = jest.fn(() => ({ a: true }));
+    const tracker = new ConditionalBlockTracker(variables);
+
+    ['<!-- if !a -->', '<!-- if b -->', '<!-- endif -->', '<!-- elseif a -->', '<!-- elseif c -->', '<!-- endif -->']
+      .forEach(line => tracker.update(line));
+
+    expect(variables).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  getTableDelimiter,
+  parseDelimited,
+  parseTableOptions,
+  escapeTableCell,
+  renderTable
+} from '../../src/utils/csvTable';
+
+describe('csvTable', () => {
+  const browsers = [
+    'name,engine,version,users',
+    'Chrome,Blink,120,3200000',
+    'Firefox,Gecko,121,410000',
+    'Edge,Blink,119,650000.5'
+  ].join('\n');
+
+  describe('getTableDelimiter', () => {
+    it('should return the delimiter for CSV and TSV files', () => {
+      expect(getTableDelimiter('/data/browsers.csv')).toBe(',');
+      expect(getTableDelimiter('/data/browsers.TSV')).toBe('\t');
+      expect(getTableDelimiter('https://example.org/data.csv?raw=1')).toBe(',');
+      expect(getTableDelimiter('/data/browsers.md')).toBeUndefined();
+    });
+  });
+
+  describe('parseDelimited', () => {
+    it('should parse quoted cells with delimiters, quotes and line breaks', () => {
+      const result = parseDelimited('a,b\r\n"x, y","say ""hi"""\n"multi\nline",\n\n', ',');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([['a', 'b'], ['x, y', 'say "hi"'], ['multi\nline', '']]);
+      }
+    });
+
+    it('should parse tab-separated values', () => {
+      const result = parseDelimited('a\tb\n1\t2', '\t');
+
+      expect(result.ok && result.value).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should reject unclosed quotes', () => {
+      const result = parseDelimited('a,b\n"open,2', ',');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_CSV');
+        expect(result.error.message).toBe('Unclosed quoted cell at line 2');
+      }
+    });
+  });
+
+  describe('parseTableOptions', () => {
+    it('should parse every table parameter', () => {
+      const result = parseTableOptions({
+        columns: 'name, version',
+        rename: 'version:Min version',
+        filter: 'engine=Blink,version>=120',
+        'order-by': '-users,name',
+        align: 'center,',
+        format: 'numbers',
+        lang: 'ignored'
+      });
+
+      expect(result.ok && result.value).toEqual({
+        columns: ['name', 'version'],
+        rename: { version: 'Min version' },
+        filters: [
+          { column: 'engine', operator: '=', value: 'Blink' },
+          { column: 'version', operator: '>=', value: '120' }
+        ],
+        sort: [{ column: 'users', descending: true }, { column: 'name', descending: false }],
+        align: ['center', 'auto'],
+        formatNumbers: true
+      });
+    });
+
+    it.each([
+      [{ rename: 'version' }, 'Invalid rename "version": expected column:header'],
+      [{ filter: 'engine' }, 'Invalid filter "engine": expected a condition like column=value or column>=10'],
+      [{ align: 'justify' }, 'Invalid alignment "justify": expected left, center, right, auto'],
+      [{ format: 'currency' }, 'Invalid format "currency": expected numbers']
+    ])('should reject %p', (parameters, message) => {
+      const result = parseTableOptions(parameters);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toEqual({ code: 'INVALID_TABLE_OPTION', message });
+      }
+    });
+  });
+
+  describe('escapeTableCell', () => {
+    it('should escape pipes and line breaks', () => {
+      expect(escapeTableCell(' a | b\nc ')).toBe('a \\| b<br>c');
+    });
+  });
+
+  describe('renderTable', () => {
+    it('should render a pipe table with number columns right-aligned', () => {
+      const result = renderTable(browsers, ',');
+
+      expect(result.ok && result.value).toBe([
+        '| name | engine | version | users |',
+        '| --- | --- | ---: | ---: |',
+        '| Chrome | Blink | 120 | 3200000 |',
+        '| Firefox | Gecko | 121 | 410000 |',
+        '| Edge | Blink | 119 | 650000.5 |'
+      ].join('\n'));
+    });
+
+    it('should select, rename, filter, sort, align and format columns', () => {
+      const result = renderTable(browsers, ',', {
+        columns: ['name', 'users'],
+        rename: { users: 'Users' },
+        filters: [{ column: 'engine', operator: '=', value: 'Blink' }],
+        sort: [{ column: 'users', descending: false }],
+        align: ['center'],
+        formatNumbers: true
+      });
+
+      expect(result.ok && result.value).toBe([
+        '| name | Users |',
+        '| :---: | ---: |',
+        '| Edge | 650,000.5 |',
+        '| Chrome | 3,200,000 |'
+      ].join('\n'));
+    });
+
+    it('should compare numbers numerically', () => {
+      const result = renderTable('n\n9\n10\n100', ',', {
+        filters: [{ column: 'n', operator: '>', value: '9' }],
+        sort: [{ column: 'n', descending: true }]
+      });
+
+      expect(result.ok && result.value).toBe('| n |\n| ---: |\n| 100 |\n| 10 |');
+    });
+
+    it('should pad short rows and escape cells', () => {
+      const result = renderTable('a,b\n"x|y"', ',');
+
+      expect(result.ok && result.value).toBe('| a | b |\n| --- | --- |\n| x\\|y |  |');
+    });
+
+    it('should report unknown columns', () => {
+      const result = renderTable(browsers, ',', { columns: ['name', 'release'] });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toEqual({
+          code: 'UNKNOWN_COLUMN',
+          message: 'Unknown column "release": expected one of name, engine, version, users'
+        });
+      }
+    });
+
+    it('should reject empty files', () => {
+      const result = renderTable('\n', ',');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_CSV');
+      }
+    });
+  });
+});
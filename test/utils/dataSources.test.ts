@@ -0,0 +1,157 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import {
+  getDataFormat,
+  getDataNamespace,
+  parseEnv,
+  parseDataFile,
+  loadDataSources,
+  applyDataSources
+} from '../../src/utils/dataSources';
+
+describe('dataSources', () => {
+  const basePath = path.join(__dirname, '../fixtures/data-sources-test');
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(basePath, 'data'), { recursive: true });
+    await fs.mkdir(path.join(basePath, 'overrides'), { recursive: true });
+
+    await fs.writeFile(path.join(basePath, 'data/product.yaml'), 'name: Kit\nversion: "2.1.0"\nurls:\n  docs: https://docs.example.org\n');
+    await fs.writeFile(path.join(basePath, 'data/team.json'), '{"members": ["Ada", "Grace"]}');
+    await fs.writeFile(path.join(basePath, 'data/.env'), 'API_URL=https://api.example.org\n');
+    await fs.writeFile(path.join(basePath, 'data/notes.txt'), 'ignored');
+    await fs.writeFile(path.join(basePath, 'overrides/product.json'), '{"version": "2.2.0-beta"}');
+    await fs.writeFile(path.join(basePath, 'broken.yml'), 'a: [1');
+    await fs.writeFile(path.join(basePath, 'notes.txt'), 'not data');
+    await fs.mkdir(path.join(basePath, 'folders/archive.json'), { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(basePath, { recursive: true });
+  });
+
+  describe('getDataFormat and getDataNamespace', () => {
+    it('should detect data files by extension', () => {
+      expect(getDataFormat('data/product.YAML')).toBe('yaml');
+      expect(getDataFormat('data/product.yml')).toBe('yaml');
+      expect(getDataFormat('data/team.json')).toBe('json');
+      expect(getDataFormat('data/.env')).toBe('env');
+      expect(getDataFormat('data/production.env')).toBe('env');
+      expect(getDataFormat('data/notes.txt')).toBeUndefined();
+    });
+
+    it('should name namespaces after the file', () => {
+      expect(getDataNamespace('data/product.yaml')).toBe('product');
+      expect(getDataNamespace('data/.env')).toBe('env');
+      expect(getDataNamespace('data/production.env')).toBe('production');
+    });
+  });
+
+  describe('parseEnv', () => {
+    it('should parse bare, quoted and exported values', () => {
+      const result = parseEnv([
+        '# Settings',
+        'API_URL=https://api.example.org # production',
+        'export GREETING="Hello\\nWorld"',
+        "LITERAL='a \\n b'",
+        'EMPTY=',
+        ''
+      ].join('\n'));
+
+      expect(result.ok && result.value).toEqual({
+        API_URL: 'https://api.example.org',
+        GREETING: 'Hello\nWorld',
+        LITERAL: 'a \\n b',
+        EMPTY: ''
+      });
+    });
+
+    it('should reject malformed lines', () => {
+      expect(parseEnv('A=1\nnot a variable')).toEqual({ ok: false, error: 'Expected KEY=value at line 2' });
+      expect(parseEnv('A="open')).toEqual({ ok: false, error: 'Unclosed quoted value at line 1' });
+    });
+  });
+
+  describe('parseDataFile', () => {
+    it('should report invalid JSON with the source', () => {
+      const result = parseDataFile('{"a": }', 'json', 'data/bad.json');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_DATA');
+        expect(result.error.message).toMatch(/^Invalid JSON in data\/bad\.json: /);
+      }
+    });
+  });
+
+  describe('loadDataSources', () => {
+    it('should load files into namespaces named after them', () => {
+      const result = loadDataSources(['data/product.yaml', 'data/team.json'], basePath);
+
+      expect(result.ok && result.value).toEqual({
+        product: { name: 'Kit', version: '2.1.0', urls: { docs: 'https://docs.example.org' } },
+        team: { members: ['Ada', 'Grace'] }
+      });
+    });
+
+    it('should load every data file of a directory', () => {
+      const result = loadDataSources([path.join(basePath, 'data')]);
+
+      expect(result.ok && Object.keys(result.value)).toEqual(['env', 'product', 'team']);
+    });
+
+    it('should merge namespaces loaded from several files', () => {
+      const result = loadDataSources(['data', 'overrides/product.json'], basePath);
+
+      expect(result.ok && result.value.product).toEqual({
+        name: 'Kit',
+        version: '2.2.0-beta',
+        urls: { docs: 'https://docs.example.org' }
+      });
+    });
+
+    it.each([
+      [['missing.yaml'], 'DATA_SOURCE_NOT_FOUND', 'Data source not found: missing.yaml'],
+      [['notes.txt'], 'UNSUPPORTED_DATA_FORMAT', 'Unsupported data file (expected .json, .yaml, .yml or .env): notes.txt'],
+      [['broken.yml'], 'INVALID_DATA', 'Invalid YAML in broken.yml: Expected "," or "]" in flow sequence (line 1)']
+    ])('should reject %p', (sources, code, message) => {
+      const result = loadDataSources(sources, basePath);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toEqual({ code, message });
+      }
+    });
+
+    it('should return read errors instead of throwing', () => {
+      const result = loadDataSources(['folders'], basePath);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('READ_ERROR');
+        expect(result.error.message).toMatch(/^Failed to read data source folders\/archive\.json: EISDIR/);
+      }
+    });
+  });
+
+  describe('applyDataSources', () => {
+    it('should load data sources into the template variables, which take precedence', () => {
+      const result = applyDataSources({
+        basePath,
+        dataSources: ['data/team.json', 'data/.env'],
+        templateVariables: { team: 'Core' }
+      });
+
+      expect(result.ok && result.value).toEqual({
+        basePath,
+        templateVariables: { env: { API_URL: 'https://api.example.org' }, team: 'Core' }
+      });
+    });
+
+    it('should leave options without data sources unchanged', () => {
+      const options = { basePath };
+
+      expect(applyDataSources(options)).toEqual({ ok: true, value: options });
+    });
+  });
+});
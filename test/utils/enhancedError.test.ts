@@ -149,6 +149,36 @@ describe('EnhancedErrorFactory', () => {
       );
     });
   });
+
+  describe('createPolicyViolationError', () => {
+    test('should suggest narrowing the deny pattern that matched', () => {
+      const error = EnhancedErrorFactory.createPolicyViolationError(
+        'Path matches deny pattern "**/drafts/**": docs/drafts/plan.md',
+        'docs/drafts/plan.md',
+        mockContext
+      );
+
+      expect(error.errorType).toBe(ErrorType.POLICY_VIOLATION);
+      expect(error.code).toBe('POLICY_VIOLATION');
+      expect(error.fixActions).toEqual([
+        { description: 'Remove or narrow the deny pattern "**/drafts/**" (--deny)', autofix: false }
+      ]);
+    });
+
+    test('should suggest an allow pattern when none matched', () => {
+      const error = EnhancedErrorFactory.createPolicyViolationError(
+        'Path matches no allow pattern (docs/**): notes/todo.md',
+        'notes/todo.md',
+        mockContext
+      );
+
+      expect(error.fixActions).toContainEqual(
+        expect.objectContaining({
+          description: 'Add an allow pattern matching the file (--allow)'
+        })
+      );
+    });
+  });
 });
 
 describe('ErrorContextBuilder', () => {
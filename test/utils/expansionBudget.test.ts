@@ -0,0 +1,77 @@
+import * as path from 'path';
+import { ExpansionBudget, IncludingFile } from '../../src/utils/expansionBudget';
+
+describe('ExpansionBudget', () => {
+  const basePath = path.resolve('/docs');
+  const limits = { maxIncludes: 3, maxIncludedBytes: 100, maxFanOut: 2 };
+  const file = (name: string): string => path.join(basePath, name);
+  
+  it('should accept includes within the limits', () => {
+    const budget = new ExpansionBudget(limits, basePath);
+    const input: IncludingFile = { fanOut: 0 };
+    
+    expect(budget.include(input, file('a.md'), 'A')).toBeNull();
+    expect(budget.include({ path: file('a.md'), fanOut: 0 }, file('b.md'), 'B')).toBeNull();
+    expect(input.fanOut).toBe(1);
+    expect(budget.error).toBeUndefined();
+  });
+  
+  it('should report the include limit with the files making the most includes', () => {
+    const budget = new ExpansionBudget(limits, basePath);
+    const index = { path: file('index.md'), fanOut: 0 };
+    const guide = { path: file('guide.md'), fanOut: 0 };
+    budget.include(index, file('a.md'), 'A');
+    budget.include(guide, file('b.md'), 'B');
+    budget.include(guide, file('c.md'), 'C');
+    
+    const error = budget.include(index, file('d.md'), 'D');
+    
+    expect(error).toEqual({
+      message: 'Maximum number of includes (3) exceeded including d.md from index.md; most includes made by guide.md (2), index.md (1)',
+      path: file('d.md'),
+      code: 'MAX_INCLUDES_EXCEEDED'
+    });
+  });
+  
+  it('should count included bytes', () => {
+    const budget = new ExpansionBudget(limits, basePath);
+    budget.include({ fanOut: 0 }, file('a.md'), 'x'.repeat(60));
+    
+    const error = budget.include({ fanOut: 0 }, file('b.md'), 'é'.repeat(25));
+    
+    expect(error?.code).toBe('MAX_INCLUDED_BYTES_EXCEEDED');
+    expect(error?.message).toBe(
+      'Maximum included size (100 bytes) exceeded including b.md from the input document; ' +
+      'most bytes included from a.md (60 bytes), b.md (50 bytes)'
+    );
+  });
+  
+  it('should limit the fan-out of each file instance', () => {
+    const budget = new ExpansionBudget(limits, basePath);
+    const first = { path: file('list.md'), fanOut: 0 };
+    budget.include(first, file('a.md'), 'A');
+    budget.include(first, file('b.md'), 'B');
+    
+    expect(budget.include({ path: file('list.md'), fanOut: 0 }, file('c.md'), 'C')).toBeNull();
+    
+    const budgetForFanOut = new ExpansionBudget(limits, basePath);
+    const wide = { path: file('wide.md'), fanOut: 2 };
+    expect(budgetForFanOut.include(wide, file('a.md'), 'A')).toEqual({
+      message: 'Maximum fan-out (2) exceeded: wide.md includes more than 2 files',
+      path: file('wide.md'),
+      code: 'MAX_FAN_OUT_EXCEEDED'
+    });
+  });
+  
+  it('should refuse every include once a limit is exceeded until reset', () => {
+    const budget = new ExpansionBudget({ ...limits, maxIncludes: 1 }, basePath);
+    budget.include({ fanOut: 0 }, file('a.md'), 'A');
+    const error = budget.include({ fanOut: 0 }, file('b.md'), 'B');
+    
+    expect(budget.include({ fanOut: 0 }, file('c.md'), 'C')).toBe(error);
+    expect(budget.error).toBe(error);
+    
+    budget.reset();
+    expect(budget.include({ fanOut: 0 }, file('c.md'), 'C')).toBeNull();
+  });
+});
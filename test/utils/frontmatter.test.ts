@@ -0,0 +1,106 @@
+import {
+  parseFrontmatter,
+  mergeFrontmatter,
+  formatFrontmatter,
+  FrontmatterReader
+} from '../../src/utils/frontmatter';
+
+describe('frontmatter', () => {
+  describe('parseFrontmatter', () => {
+    it('should parse YAML frontmatter', () => {
+      const content = '---\ntitle: Guide\nauthor:\n  name: Ada\ntags: [intro, setup]\n---\n\n# Body';
+
+      expect(parseFrontmatter(content)).toEqual({
+        ok: true,
+        value: { title: 'Guide', author: { name: 'Ada' }, tags: ['intro', 'setup'] }
+      });
+    });
+
+    it('should parse TOML frontmatter with tables', () => {
+      const content = [
+        '+++',
+        'title = "Guide"',
+        'weight = 2',
+        'tags = ["intro", "setup"]',
+        '',
+        '[author]',
+        'name = \'Ada\'',
+        '+++',
+        'Body'
+      ].join('\n');
+
+      expect(parseFrontmatter(content)).toEqual({
+        ok: true,
+        value: { title: 'Guide', weight: 2, tags: ['intro', 'setup'], author: { name: 'Ada' } }
+      });
+    });
+
+    it('should return undefined without a complete frontmatter block', () => {
+      expect(parseFrontmatter('# Title\n---\ntitle: x\n---')).toEqual({ ok: true, value: undefined });
+      expect(parseFrontmatter('---\ntitle: unclosed')).toEqual({ ok: true, value: undefined });
+    });
+
+    it('should treat an empty block as no fields', () => {
+      expect(parseFrontmatter('---\n---\nBody')).toEqual({ ok: true, value: {} });
+    });
+
+    it.each([
+      ['---\ntitle: "unclosed\n---', 'Unclosed quoted string (line 2)'],
+      ['---\n- a\n- b\n---', 'Frontmatter must be a mapping of fields'],
+      ['+++\ntitle\n+++', 'Expected key = value (line 2)']
+    ])('should reject %p', (content, message) => {
+      expect(parseFrontmatter(content)).toEqual({
+        ok: false,
+        error: { code: 'INVALID_FRONTMATTER', message }
+      });
+    });
+  });
+
+  describe('mergeFrontmatter', () => {
+    it('should keep existing values and add missing ones', () => {
+      expect(mergeFrontmatter(
+        { title: 'Book', author: { name: 'Ada' }, tags: ['intro'] },
+        { title: 'Chapter', author: { name: 'Grace', email: 'g@example.org' }, tags: ['intro', 'setup'], draft: true }
+      )).toEqual({
+        title: 'Book',
+        author: { name: 'Ada', email: 'g@example.org' },
+        tags: ['intro', 'setup'],
+        draft: true
+      });
+    });
+  });
+
+  describe('formatFrontmatter', () => {
+    it('should format fields as a YAML block', () => {
+      expect(formatFrontmatter({ title: 'Guide', tags: ['a'] })).toBe('---\ntitle: Guide\ntags:\n  - a\n---');
+      expect(formatFrontmatter({})).toBe('---\n---');
+    });
+  });
+
+  describe('FrontmatterReader', () => {
+    it('should classify the lines of a document', () => {
+      const reader = new FrontmatterReader();
+      const kinds = ['---', 'title: Guide', '---', '# Body', '---'].map(line => reader.read(line));
+
+      expect(kinds).toEqual(['frontmatter', 'frontmatter', 'end', 'content', 'content']);
+      expect(reader.parse()).toEqual({ ok: true, value: { title: 'Guide' } });
+    });
+
+    it('should read documents without frontmatter as content', () => {
+      const reader = new FrontmatterReader();
+
+      expect(reader.read('# Title')).toBe('content');
+      expect(reader.read('---')).toBe('content');
+    });
+
+    it('should read a new document after a reset', () => {
+      const reader = new FrontmatterReader();
+      ['+++', 'title = "First"', '+++'].forEach(line => reader.read(line));
+
+      reader.reset();
+
+      expect(['---', 'title: Second', '---'].map(line => reader.read(line))).toEqual(['frontmatter', 'frontmatter', 'end']);
+      expect(reader.parse()).toEqual({ ok: true, value: { title: 'Second' } });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isValidRevision, openRevision, findBlob, readBlob } from '../../src/utils/gitRevision';
+
+describe('gitRevision', () => {
+  let repository: string;
+
+  const git = (...args: string[]): string => execFileSync(
+    'git',
+    ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args],
+    { cwd: repository, encoding: 'utf8' }
+  );
+
+  beforeAll(() => {
+    repository = fs.mkdtempSync(path.join(os.tmpdir(), 'git-revision-'));
+    git('init', '-q');
+    fs.mkdirSync(path.join(repository, 'docs'));
+    fs.writeFileSync(path.join(repository, 'docs/api.md'), 'Version 1');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'First');
+    git('tag', 'v1.0.0');
+    fs.writeFileSync(path.join(repository, 'docs/api.md'), 'Version 2');
+    git('commit', '-q', '-am', 'Second');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repository, { recursive: true });
+  });
+
+  describe('isValidRevision', () => {
+    it('should accept branch, tag and ancestry names', () => {
+      expect(isValidRevision('v1.2.0')).toBe(true);
+      expect(isValidRevision('release/2.0')).toBe(true);
+      expect(isValidRevision('HEAD~3')).toBe(true);
+      expect(isValidRevision('abc123^')).toBe(true);
+    });
+
+    it('should reject options, ranges and other syntax', () => {
+      expect(isValidRevision('--output=x')).toBe(false);
+      expect(isValidRevision('v1..v2')).toBe(false);
+      expect(isValidRevision('HEAD:docs/api.md')).toBe(false);
+      expect(isValidRevision('HEAD@{1}')).toBe(false);
+    });
+  });
+
+  describe('openRevision', () => {
+    it('should resolve revisions to commits', () => {
+      const result = openRevision('v1.0.0', path.join(repository, 'docs'));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.commit).toBe(git('rev-parse', 'HEAD~1').trim());
+        expect(result.value.repository).toBe(fs.realpathSync(repository));
+      }
+    });
+
+    it('should report unknown revisions', () => {
+      const result = openRevision('v9.9.9', repository);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('UNKNOWN_REVISION');
+        expect(result.error.message).toBe('Unknown git revision: v9.9.9');
+      }
+    });
+
+    it('should report directories outside a repository', () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'no-git-'));
+      const result = openRevision('HEAD', outside);
+      fs.rmSync(outside, { recursive: true });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('GIT_ERROR');
+      }
+    });
+  });
+
+  describe('findBlob and readBlob', () => {
+    it('should read a file as it existed at a revision', async () => {
+      const result = openRevision('HEAD~1', repository);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+
+      const objectId = findBlob(result.value, path.join(repository, 'docs/api.md'));
+      expect(objectId).toMatch(/^[0-9a-f]{40,64}$/);
+
+      const content = await readBlob(objectId!, result.value.repository, 1024);
+      expect(content.toString()).toBe('Version 1');
+    });
+
+    it('should return null for missing files and directories', () => {
+      const result = openRevision('HEAD', repository);
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+
+      expect(findBlob(result.value, path.join(repository, 'docs/missing.md'))).toBeNull();
+      expect(findBlob(result.value, path.join(repository, 'docs'))).toBeNull();
+      expect(findBlob(result.value, path.join(os.tmpdir(), 'elsewhere.md'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  isGlobReference,
+  globToRegExp,
+  naturalCompare,
+  matchesAnyGlob,
+  parseGlobList,
+  unescapeSeparator,
+  expandGlob,
+  getFrontmatterOrder,
+  sortGlobMatches
+} from '../../src/utils/globExpander';
+
+describe('globExpander', () => {
+  describe('isGlobReference', () => {
+    it('should detect wildcards and directory references', () => {
+      expect(isGlobReference('chapters/*.md')).toBe(true);
+      expect(isGlobReference('chapter-?.md')).toBe(true);
+      expect(isGlobReference('chapters/')).toBe(true);
+      expect(isGlobReference('chapters/intro.md')).toBe(false);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should match single path segments with * and ?', () => {
+      expect(globToRegExp('*.md').test('intro.md')).toBe(true);
+      expect(globToRegExp('*.md').test('part/intro.md')).toBe(false);
+      expect(globToRegExp('ch-?.md').test('ch-1.md')).toBe(true);
+      expect(globToRegExp('ch-?.md').test('ch-10.md')).toBe(false);
+    });
+
+    it('should match any number of directories with **/', () => {
+      const pattern = globToRegExp('**/*.md');
+      expect(pattern.test('intro.md')).toBe(true);
+      expect(pattern.test('part/one/intro.md')).toBe(true);
+    });
+
+    it('should escape regular expression characters', () => {
+      expect(globToRegExp('notes (v1).md').test('notes (v1).md')).toBe(true);
+      expect(globToRegExp('a+b.md').test('aab.md')).toBe(false);
+    });
+  });
+
+  describe('naturalCompare', () => {
+    it('should sort numbers by value', () => {
+      const names = ['chapter-10.md', 'chapter-2.md', 'chapter-1.md', 'appendix.md'];
+      expect([...names].sort(naturalCompare)).toEqual(['appendix.md', 'chapter-1.md', 'chapter-2.md', 'chapter-10.md']);
+    });
+
+    it('should ignore case and leading zeros', () => {
+      expect(naturalCompare('Beta.md', 'alpha.md')).toBeGreaterThan(0);
+      expect(naturalCompare('02-b.md', '10-a.md')).toBeLessThan(0);
+    });
+  });
+
+  describe('matchesAnyGlob', () => {
+    it('should match globs without a slash against the file name', () => {
+      expect(matchesAnyGlob('part/draft-intro.md', ['draft-*'])).toBe(true);
+      expect(matchesAnyGlob('part/intro.md', ['part/*'])).toBe(true);
+      expect(matchesAnyGlob('part/intro.md', ['other/*', 'draft-*'])).toBe(false);
+    });
+  });
+
+  describe('parseGlobList and unescapeSeparator', () => {
+    it('should split comma-separated globs', () => {
+      expect(parseGlobList('draft-*, notes/** ,')).toEqual(['draft-*', 'notes/**']);
+      expect(parseGlobList(undefined)).toEqual([]);
+    });
+
+    it('should turn escapes into newlines and tabs', () => {
+      expect(unescapeSeparator('\\n---\\n')).toBe('\n---\n');
+      expect(unescapeSeparator('\\t|\\\\n')).toBe('\t|\\n');
+    });
+  });
+
+  describe('expandGlob', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glob-expander-'));
+      fs.mkdirSync(path.join(dir, 'chapters/part'), { recursive: true });
+      fs.mkdirSync(path.join(dir, 'chapters/.hidden'));
+      for (const file of ['chapter-10.md', 'chapter-2.md', 'draft-3.md', 'notes.txt', '.secret.md', 'part/one.md', '.hidden/two.md']) {
+        fs.writeFileSync(path.join(dir, 'chapters', file), file);
+      }
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true });
+    });
+
+    it('should expand a pattern in natural order with the prefix kept', () => {
+      expect(expandGlob('chapters/*.md', dir, { extensions: ['.md'] }))
+        .toEqual(['chapters/chapter-2.md', 'chapters/chapter-10.md', 'chapters/draft-3.md']);
+    });
+
+    it('should descend into subdirectories for ** patterns and skip hidden entries', () => {
+      expect(expandGlob('chapters/**/*.md', dir, { extensions: ['.md'] }))
+        .toEqual(['chapters/chapter-2.md', 'chapters/chapter-10.md', 'chapters/draft-3.md', 'chapters/part/one.md']);
+    });
+
+    it('should list the files of a directory with the given extensions', () => {
+      expect(expandGlob('chapters/', dir, { extensions: ['md'] }))
+        .toEqual(['chapters/chapter-2.md', 'chapters/chapter-10.md', 'chapters/draft-3.md']);
+      expect(expandGlob('chapters/', dir, { extensions: ['.txt'] })).toEqual(['chapters/notes.txt']);
+    });
+
+    it('should apply include and exclude filters', () => {
+      expect(expandGlob('chapters/', dir, { extensions: ['.md'], exclude: ['draft-*'] }))
+        .toEqual(['chapters/chapter-2.md', 'chapters/chapter-10.md']);
+      expect(expandGlob('chapters/**/*.md', dir, { extensions: ['.md'], include: ['part/*'] }))
+        .toEqual(['chapters/part/one.md']);
+    });
+
+    it('should return nothing for missing directories', () => {
+      expect(expandGlob('missing/*.md', dir, { extensions: ['.md'] })).toEqual([]);
+    });
+  });
+
+  describe('getFrontmatterOrder', () => {
+    it('should read the order key from YAML and TOML frontmatter', () => {
+      expect(getFrontmatterOrder('---\ntitle: Intro\norder: 3\n---\n# Intro')).toBe(3);
+      expect(getFrontmatterOrder('+++\norder = "1.5"\n+++\n# Intro')).toBe(1.5);
+    });
+
+    it('should return undefined without an order key', () => {
+      expect(getFrontmatterOrder('---\ntitle: Intro\n---\norder: 1')).toBeUndefined();
+      expect(getFrontmatterOrder('order: 1')).toBeUndefined();
+    });
+  });
+
+  describe('sortGlobMatches', () => {
+    const matches = [
+      { path: 'c-10.md', order: 1, mtime: 300 },
+      { path: 'c-2.md', mtime: 100 },
+      { path: 'c-1.md', order: 2, mtime: 100 }
+    ];
+
+    it('should sort by name naturally', () => {
+      expect(sortGlobMatches(matches, 'name').map(m => m.path)).toEqual(['c-1.md', 'c-2.md', 'c-10.md']);
+    });
+
+    it('should sort by frontmatter order, files without one last', () => {
+      expect(sortGlobMatches(matches, 'order').map(m => m.path)).toEqual(['c-10.md', 'c-1.md', 'c-2.md']);
+    });
+
+    it('should sort by modification time, ties by name', () => {
+      expect(sortGlobMatches(matches, 'mtime').map(m => m.path)).toEqual(['c-1.md', 'c-2.md', 'c-10.md']);
+    });
+  });
+});
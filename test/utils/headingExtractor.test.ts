@@ -1,4 +1,14 @@
-import { extractHeadingContent, hasHeadingAnchor, splitReference } from '../../src/utils/headingExtractor';
+import {
+  extractHeadingContent,
+  hasHeadingAnchor,
+  splitReference,
+  extractBlockContent,
+  extractBlockIds,
+  extractMultipleHeadings,
+  selectHeadingContent,
+  extractHeadingRange,
+  parseHeadings
+} from '../../src/utils/headingExtractor';
 
 describe('Heading Extractor', () => {
   describe('extractHeadingContent', () => {
@@ -90,4 +100,234 @@ Nested content.`);
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('extractBlockContent', () => {
+    const blockContent = `# Notes
+
+This paragraph spans
+two lines. ^para-1
+
+- First item
+- Second item ^item-2
+  - Nested detail
+- Third item
+
+| Name | Value |
+| ---- | ----- |
+| a    | 1     |
+
+^table-1
+
+Last paragraph ^end`;
+
+    it('should extract a multi-line paragraph without the marker', () => {
+      expect(extractBlockContent(blockContent, 'para-1')).toBe(`This paragraph spans
+two lines.`);
+    });
+
+    it('should extract a list item with its nested children', () => {
+      expect(extractBlockContent(blockContent, 'item-2')).toBe(`- Second item
+  - Nested detail`);
+    });
+
+    it('should extract a table marked on the following line', () => {
+      expect(extractBlockContent(blockContent, 'table-1')).toBe(`| Name | Value |
+| ---- | ----- |
+| a    | 1     |`);
+    });
+
+    it('should accept a caret prefix', () => {
+      expect(extractBlockContent(blockContent, '^end')).toBe('Last paragraph');
+    });
+
+    it('should return null for unknown block ids', () => {
+      expect(extractBlockContent(blockContent, 'missing')).toBeNull();
+    });
+
+    it('should index all block ids in document order', () => {
+      expect(extractBlockIds(blockContent)).toEqual(['para-1', 'item-2', 'table-1', 'end']);
+    });
+
+    it('should ignore markers inside code blocks', () => {
+      const content = '```markdown\nExample ^example\n^fenced\n```\nAfter the code ^after\n\n    Indented ^indented';
+
+      expect(extractBlockIds(content)).toEqual(['after']);
+      expect(extractBlockContent(content, 'example')).toBeNull();
+      expect(extractBlockContent(content, 'after')).toBe('After the code');
+    });
+  });
+
+  describe('extractMultipleHeadings', () => {
+    const apiContent = `# API
+## Install
+npm install
+## Usage
+Call run().
+## FAQ
+Ask away.`;
+
+    it('should join sections in the order listed', () => {
+      const result = extractMultipleHeadings(apiContent, ['FAQ', 'Install']);
+      
+      expect(result.content).toBe('## FAQ\nAsk away.\n\n## Install\nnpm install');
+      expect(result.missing).toEqual([]);
+    });
+
+    it('should use a custom separator', () => {
+      const result = extractMultipleHeadings(apiContent, ['Install', 'Usage'], '\n---\n');
+      
+      expect(result.content).toBe('## Install\nnpm install\n---\n## Usage\nCall run().');
+    });
+
+    it('should report each missing heading', () => {
+      const result = extractMultipleHeadings(apiContent, ['Install', 'Setup', 'Support']);
+      
+      expect(result.content).toBe('## Install\nnpm install');
+      expect(result.missing).toEqual(['Setup', 'Support']);
+    });
+  });
+
+  describe('selectHeadingContent', () => {
+    const guideContent = `# Guide
+## Installation
+### Examples
+Install example.
+## Usage
+### Basics
+#### Examples
+Usage example.
+## Examples/Notes
+Literal slash.`;
+
+    it('should select a heading by path', () => {
+      expect(selectHeadingContent(guideContent, 'Installation/Examples')?.content)
+        .toBe('### Examples\nInstall example.');
+    });
+
+    it('should allow skipped levels in a heading path', () => {
+      expect(selectHeadingContent(guideContent, 'Usage/Examples')?.content)
+        .toBe('#### Examples\nUsage example.');
+    });
+
+    it('should select a heading by occurrence index', () => {
+      expect(selectHeadingContent(guideContent, 'Examples[2]')?.content)
+        .toBe('#### Examples\nUsage example.');
+      expect(selectHeadingContent(guideContent, 'Examples[3]')).toBeNull();
+    });
+
+    it('should prefer a heading whose literal text matches', () => {
+      expect(selectHeadingContent(guideContent, 'Examples/Notes')?.content)
+        .toBe('## Examples/Notes\nLiteral slash.');
+    });
+
+    it('should warn when an unqualified heading matches more than once', () => {
+      const selection = selectHeadingContent(guideContent, 'Examples');
+      
+      expect(selection?.content).toBe('### Examples\nInstall example.');
+      expect(selection?.warning?.code).toBe('AMBIGUOUS_HEADING');
+      expect(selection?.warning?.message).toContain('"Installation/Examples"');
+      expect(selection?.warning?.message).toContain('"Examples[2]"');
+    });
+
+    it('should not warn for qualified or unique headings', () => {
+      expect(selectHeadingContent(guideContent, 'Installation/Examples')?.warning).toBeUndefined();
+      expect(selectHeadingContent(guideContent, 'Examples[1]')?.warning).toBeUndefined();
+      expect(selectHeadingContent(guideContent, 'Usage')?.warning).toBeUndefined();
+    });
+
+    it('should return null for unknown paths', () => {
+      expect(selectHeadingContent(guideContent, 'Usage/Installation')).toBeNull();
+    });
+  });
+
+  describe('Setext and HTML headings', () => {
+    it('should extract a Setext section up to the next heading of the same level', () => {
+      const content = 'Intro\n=====\n\nText.\n\nDetails\n-------\nMore.\n\nNext\n====\nEnd.';
+      
+      expect(extractHeadingContent(content, 'Details')).toBe('Details\n-------\nMore.');
+      expect(extractHeadingContent(content, 'Intro')).toBe('Intro\n=====\n\nText.\n\nDetails\n-------\nMore.');
+    });
+
+    it('should join multi-line Setext heading text', () => {
+      const content = 'A long\nheading\n---\nBody.';
+      
+      expect(extractHeadingContent(content, 'A long heading')).toBe(content);
+    });
+
+    it('should end an ATX section at a Setext heading', () => {
+      const content = '## First\nOne.\n\nSecond\n------\nTwo.';
+      
+      expect(extractHeadingContent(content, 'First')).toBe('## First\nOne.');
+    });
+
+    it('should strip closing hashes from ATX headings', () => {
+      const content = '## Setup ##\nSteps.\n\n## Usage ###\nRun.';
+      
+      expect(extractHeadingContent(content, 'Setup')).toBe('## Setup ##\nSteps.');
+      expect(extractHeadingContent(content, 'Usage')).toBe('## Usage ###\nRun.');
+    });
+
+    it('should match HTML headings by text and by id', () => {
+      const content = '<h2 id="api-ref">API <code>v2</code></h2>\nDocs.\n\n<h2>Other</h2>\nMore.';
+      
+      expect(extractHeadingContent(content, 'API v2')).toBe('<h2 id="api-ref">API <code>v2</code></h2>\nDocs.');
+      expect(extractHeadingContent(content, 'api-ref')).toBe('<h2 id="api-ref">API <code>v2</code></h2>\nDocs.');
+    });
+
+    it('should recognise HTML headings spanning several lines', () => {
+      const content = '<h3>\n  Multi line\n</h3>\nBody.\n\n### Next\nEnd.';
+      
+      expect(extractHeadingContent(content, 'Multi line')).toBe('<h3>\n  Multi line\n</h3>\nBody.');
+    });
+
+    it('should not end a section at comments inside fenced code', () => {
+      const content = '## Script\n```bash\n# install\nnpm ci\n```\n\n## Next\nEnd.';
+      
+      expect(extractHeadingContent(content, 'Script')).toBe('## Script\n```bash\n# install\nnpm ci\n```');
+      expect(extractHeadingContent(content, 'install')).toBeNull();
+    });
+
+    it('should not treat frontmatter or thematic breaks as Setext underlines', () => {
+      const content = '---\ntitle: Doc\n---\n\n# Title\n\n- item\n---\nText.';
+      
+      expect(parseHeadings(content.split('\n'))).toEqual([
+        { kind: 'atx', line: 4, endLine: 4, level: 1, text: 'Title', slug: 'title' }
+      ]);
+    });
+
+    it('should use Setext and HTML headings in heading ranges', () => {
+      const content = 'Start\n=====\nOne.\n\n<h1>Stop</h1>\nTwo.';
+      
+      expect(extractHeadingRange(content, 'Start', 'Stop')).toBe('Start\n=====\nOne.');
+    });
+  });
+
+  describe('slug matching', () => {
+    const content = '# Guide\n\n## Getting Started with v2!\nStart here.\n\n## Setup {#install}\nSteps.\n\n## Examples\nOne.\n\n## Examples\nTwo.';
+
+    it('should match headings by GitHub slug', () => {
+      expect(extractHeadingContent(content, 'getting-started-with-v2')).toBe('## Getting Started with v2!\nStart here.');
+    });
+
+    it('should match explicit {#id} attributes and strip them from the heading text', () => {
+      expect(extractHeadingContent(content, 'install')).toBe('## Setup {#install}\nSteps.');
+      expect(extractHeadingContent(content, 'Setup')).toBe('## Setup {#install}\nSteps.');
+      expect(parseHeadings(content.split('\n'))[2]).toMatchObject({ text: 'Setup', id: 'install', slug: 'setup' });
+    });
+
+    it('should select duplicate headings by suffixed slug', () => {
+      expect(extractHeadingContent(content, 'examples-1')).toBe('## Examples\nTwo.');
+    });
+
+    it('should prefer literal heading text over slugs', () => {
+      const literal = '## foo-bar\nLiteral.\n\n## Foo Bar\nSlug.';
+      
+      expect(extractHeadingContent(literal, 'foo-bar')).toBe('## foo-bar\nLiteral.');
+    });
+
+    it('should match slugs in heading paths and ranges', () => {
+      expect(extractHeadingContent(content, 'guide/getting-started-with-v2')).toBe('## Getting Started with v2!\nStart here.');
+      expect(extractHeadingRange(content, 'getting-started-with-v2', 'install')).toBe('## Getting Started with v2!\nStart here.');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  parseHeadingOffset,
+  getMinHeadingLevel,
+  resolveHeadingOffset,
+  shiftHeadings,
+  HeadingLevelTracker
+} from '../../src/utils/headingShifter';
+
+describe('headingShifter', () => {
+  describe('parseHeadingOffset', () => {
+    it('should parse signed numbers and auto', () => {
+      expect(parseHeadingOffset('+2')).toBe(2);
+      expect(parseHeadingOffset('-1')).toBe(-1);
+      expect(parseHeadingOffset('0')).toBe(0);
+      expect(parseHeadingOffset(' Auto ')).toBe('auto');
+    });
+
+    it('should reject other values', () => {
+      expect(parseHeadingOffset('two')).toBeNull();
+      expect(parseHeadingOffset('1.5')).toBeNull();
+      expect(parseHeadingOffset('')).toBeNull();
+    });
+  });
+
+  describe('shiftHeadings', () => {
+    it('should shift ATX headings and keep their text', () => {
+      const result = shiftHeadings('# Title\nText\n## Section ##', 2);
+      
+      expect(result.content).toBe('### Title\nText\n#### Section ##');
+      expect(result.clamped).toBe(0);
+    });
+
+    it('should promote headings with negative offsets', () => {
+      expect(shiftHeadings('### Deep', -2).content).toBe('# Deep');
+    });
+
+    it('should clamp at level 6 and count clamped headings', () => {
+      const result = shiftHeadings('# One\n##### Five\n###### Six', 2);
+      
+      expect(result.content).toBe('### One\n###### Five\n###### Six');
+      expect(result.clamped).toBe(2);
+    });
+
+    it('should keep Setext style for levels 1 and 2', () => {
+      expect(shiftHeadings('Title\n=====\nText', 1).content).toBe('Title\n-----\nText');
+      expect(shiftHeadings('Section\n---', -1).content).toBe('Section\n===');
+    });
+
+    it('should convert Setext headings beyond level 2 to ATX', () => {
+      expect(shiftHeadings('Title\n=====\nText', 2).content).toBe('### Title\nText');
+    });
+
+    it('should not treat thematic breaks, lists or frontmatter as headings', () => {
+      const content = '---\ntitle: Doc\n---\n\n---\n- item\n---\n# Real';
+      
+      expect(shiftHeadings(content, 1).content).toBe('---\ntitle: Doc\n---\n\n---\n- item\n---\n## Real');
+    });
+
+    it('should leave fenced code untouched', () => {
+      const content = '# Title\n```bash\n# comment\n```\n## Next';
+      
+      expect(shiftHeadings(content, 1).content).toBe('## Title\n```bash\n# comment\n```\n### Next');
+    });
+  });
+
+  describe('resolveHeadingOffset', () => {
+    it('should nest content under the enclosing heading in auto mode', () => {
+      expect(resolveHeadingOffset('auto', '# Chapter\n## Part', 3)).toBe(3);
+      expect(resolveHeadingOffset('auto', '### Deep', 1)).toBe(-1);
+    });
+
+    it('should not shift without an enclosing heading or content headings', () => {
+      expect(resolveHeadingOffset('auto', '# Chapter', 0)).toBe(0);
+      expect(resolveHeadingOffset('auto', 'No headings', 2)).toBe(0);
+    });
+
+    it('should return numeric offsets unchanged', () => {
+      expect(resolveHeadingOffset(2, '# Chapter', 4)).toBe(2);
+    });
+
+    it('should find the smallest heading level', () => {
+      expect(getMinHeadingLevel('### A\nB\n---\n#### C')).toBe(2);
+      expect(getMinHeadingLevel('plain')).toBe(0);
+    });
+  });
+
+  describe('HeadingLevelTracker', () => {
+    it('should track ATX and Setext headings outside code blocks', () => {
+      const tracker = new HeadingLevelTracker();
+      const levels: number[] = [];
+      
+      for (const line of ['Intro', '# Title', 'Sub', '---', '```', '### not a heading', '```', 'text']) {
+        tracker.update(line);
+        levels.push(tracker.level);
+      }
+      
+      expect(levels).toEqual([0, 1, 1, 2, 2, 2, 2, 2]);
+    });
+  });
+});
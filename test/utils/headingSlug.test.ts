@@ -0,0 +1,45 @@
+import { slugifyHeading, createHeadingSlugs, isHeadingSlug } from '../../src/utils/headingSlug';
+
+describe('headingSlug', () => {
+  describe('slugifyHeading', () => {
+    it('should lowercase text, drop punctuation and hyphenate spaces', () => {
+      expect(slugifyHeading('Getting Started with v2!')).toBe('getting-started-with-v2');
+      expect(slugifyHeading('API & Configuration')).toBe('api--configuration');
+      expect(slugifyHeading("User's Guide (Advanced)")).toBe('users-guide-advanced');
+    });
+
+    it('should keep underscores, hyphens and non-Latin letters', () => {
+      expect(slugifyHeading('snake_case-name')).toBe('snake_case-name');
+      expect(slugifyHeading('Überblick Ämter')).toBe('überblick-ämter');
+      expect(slugifyHeading('日本語 見出し')).toBe('日本語-見出し');
+    });
+
+    it('should use the rendered text of inline markup', () => {
+      expect(slugifyHeading('Use `transclude()` **now**')).toBe('use-transclude-now');
+      expect(slugifyHeading('See [the docs](https://example.com)')).toBe('see-the-docs');
+      expect(slugifyHeading('API <code>v2</code>')).toBe('api-v2');
+    });
+
+    it('should drop emoji', () => {
+      expect(slugifyHeading('Release 🚀 notes')).toBe('release--notes');
+    });
+  });
+
+  describe('createHeadingSlugs', () => {
+    it('should suffix repeated slugs in document order', () => {
+      expect(createHeadingSlugs(['Examples', 'Examples', 'Examples'])).toEqual(['examples', 'examples-1', 'examples-2']);
+    });
+
+    it('should skip suffixes already taken by other headings', () => {
+      expect(createHeadingSlugs(['Foo 1', 'Foo', 'Foo'])).toEqual(['foo-1', 'foo', 'foo-2']);
+    });
+  });
+
+  describe('isHeadingSlug', () => {
+    it('should detect anchor-style selectors', () => {
+      expect(isHeadingSlug('getting-started')).toBe(true);
+      expect(isHeadingSlug('Getting Started')).toBe(false);
+      expect(isHeadingSlug('installation')).toBe(false);
+    });
+  });
+});
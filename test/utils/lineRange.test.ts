@@ -0,0 +1,97 @@
+import {
+  parseLineRange,
+  isLineRangeSpec,
+  formatLineRange,
+  extractLineRange
+} from '../../src/utils/lineRange';
+
+describe('lineRange', () => {
+  const content = ['one', 'two', '  three', 'four', 'five'].join('\n');
+
+  describe('parseLineRange', () => {
+    it('should parse a closed range', () => {
+      expect(parseLineRange('L10-L40')).toEqual({ start: 10, end: 40 });
+      expect(parseLineRange('L10-40')).toEqual({ start: 10, end: 40 });
+    });
+
+    it('should parse an open-ended range', () => {
+      expect(parseLineRange('L10-')).toEqual({ start: 10 });
+    });
+
+    it('should parse a single line', () => {
+      expect(parseLineRange('L7')).toEqual({ start: 7, end: 7 });
+    });
+
+    it('should return null for non line range anchors', () => {
+      expect(parseLineRange('Introduction')).toBeNull();
+      expect(parseLineRange('L')).toBeNull();
+      expect(parseLineRange('L1-L2-L3')).toBeNull();
+      expect(isLineRangeSpec('Line 7')).toBe(false);
+      expect(isLineRangeSpec('L7')).toBe(true);
+    });
+  });
+
+  describe('formatLineRange', () => {
+    it('should format ranges for messages', () => {
+      expect(formatLineRange({ start: 3, end: 9 })).toBe('L3-L9');
+      expect(formatLineRange({ start: 3 })).toBe('L3-');
+      expect(formatLineRange({ start: 3, end: 3 })).toBe('L3');
+    });
+  });
+
+  describe('extractLineRange', () => {
+    it('should extract an inclusive range preserving indentation', () => {
+      const result = extractLineRange(content, { start: 2, end: 3 });
+      expect(result).toEqual({ ok: true, value: 'two\n  three' });
+    });
+
+    it('should extract to the end of the content for open ranges', () => {
+      const result = extractLineRange(content + '\n', { start: 4 });
+      expect(result).toEqual({ ok: true, value: 'four\nfive' });
+    });
+
+    it('should extract a single line', () => {
+      const result = extractLineRange(content, { start: 5, end: 5 });
+      expect(result).toEqual({ ok: true, value: 'five' });
+    });
+
+    it('should handle CRLF line endings', () => {
+      const result = extractLineRange('a\r\nb\r\nc', { start: 2, end: 3 });
+      expect(result).toEqual({ ok: true, value: 'b\nc' });
+    });
+
+    it('should reject ranges past the end of the content', () => {
+      const result = extractLineRange(content, { start: 4, end: 9 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('LINE_RANGE_OUT_OF_BOUNDS');
+        expect(result.error.message).toBe('Line range L4-L9 exceeds file length (5 lines)');
+      }
+    });
+
+    it('should reject open ranges starting past the end', () => {
+      const result = extractLineRange(content, { start: 6 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('LINE_RANGE_OUT_OF_BOUNDS');
+      }
+    });
+
+    it('should reject inverted ranges', () => {
+      const result = extractLineRange(content, { start: 4, end: 2 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_LINE_RANGE');
+        expect(result.error.message).toContain('start line (4) > end line (2)');
+      }
+    });
+
+    it('should reject line zero', () => {
+      const result = extractLineRange(content, { start: 0, end: 2 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_LINE_RANGE');
+      }
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import {
+  isRelativeLinkTarget,
+  rebaseLinkTarget,
+  rewriteLinks,
+  LinkRewriteOptions
+} from '../../src/utils/linkRewriter';
+
+describe('linkRewriter', () => {
+  const root = path.resolve('/project');
+  const options: LinkRewriteOptions = {
+    sourceDir: path.join(root, 'docs', 'api'),
+    targetDir: root,
+    rootDir: root
+  };
+
+  describe('isRelativeLinkTarget', () => {
+    it('should accept relative paths', () => {
+      expect(isRelativeLinkTarget('img/flow.png')).toBe(true);
+      expect(isRelativeLinkTarget('../guide.md#setup')).toBe(true);
+    });
+
+    it('should reject URLs, absolute paths, fragments and template variables', () => {
+      expect(isRelativeLinkTarget('https://example.com')).toBe(false);
+      expect(isRelativeLinkTarget('mailto:me@example.com')).toBe(false);
+      expect(isRelativeLinkTarget('//cdn.example.com/x.js')).toBe(false);
+      expect(isRelativeLinkTarget('/assets/logo.png')).toBe(false);
+      expect(isRelativeLinkTarget('#section')).toBe(false);
+      expect(isRelativeLinkTarget('{{baseUrl}}/x')).toBe(false);
+      expect(isRelativeLinkTarget('')).toBe(false);
+    });
+  });
+
+  describe('rebaseLinkTarget', () => {
+    it('should rebase relative to the target directory', () => {
+      expect(rebaseLinkTarget('img/flow.png', options)).toBe('docs/api/img/flow.png');
+      expect(rebaseLinkTarget('../guide.md', options)).toBe('docs/guide.md');
+    });
+
+    it('should keep query strings and fragments', () => {
+      expect(rebaseLinkTarget('ref.md?v=2#usage', options)).toBe('docs/api/ref.md?v=2#usage');
+    });
+
+    it('should emit root-relative paths', () => {
+      expect(rebaseLinkTarget('img/flow.png', { ...options, mode: 'root-relative' }))
+        .toBe('/docs/api/img/flow.png');
+    });
+
+    it('should emit absolute URLs from a base URL', () => {
+      expect(rebaseLinkTarget('img/flow.png', { ...options, mode: 'absolute', baseUrl: 'https://example.com/site/' }))
+        .toBe('https://example.com/site/docs/api/img/flow.png');
+    });
+
+    it('should emit file URLs without a base URL', () => {
+      expect(rebaseLinkTarget('img/flow.png', { ...options, mode: 'absolute' }))
+        .toMatch(/^file:\/\/.*\/project\/docs\/api\/img\/flow\.png$/);
+    });
+  });
+
+  describe('rewriteLinks', () => {
+    it('should rewrite inline links and images', () => {
+      const content = 'See ![diagram](img/flow.png "Flow") and [guide](../guide.md).';
+      
+      expect(rewriteLinks(content, options))
+        .toBe('See ![diagram](docs/api/img/flow.png "Flow") and [guide](docs/guide.md).');
+    });
+
+    it('should rewrite angle-bracket targets and reference definitions', () => {
+      const content = '[spec]: <specs/my spec.md> "Spec"\n![logo](<assets/logo one.png>)';
+      
+      expect(rewriteLinks(content, options))
+        .toBe('[spec]: <docs/api/specs/my spec.md> "Spec"\n![logo](<docs/api/assets/logo one.png>)');
+    });
+
+    it('should rewrite HTML src and href attributes', () => {
+      const content = '<img src="img/a.png" alt="a"> <a href=\'b.md\'>b</a> <a href="https://x.dev">x</a>';
+      
+      expect(rewriteLinks(content, options))
+        .toBe('<img src="docs/api/img/a.png" alt="a"> <a href=\'docs/api/b.md\'>b</a> <a href="https://x.dev">x</a>');
+    });
+
+    it('should leave code blocks and inline code unchanged', () => {
+      const content = '```md\n![a](img/a.png)\n```\n`[b](b.md)` [c](c.md)';
+      
+      expect(rewriteLinks(content, options))
+        .toBe('```md\n![a](img/a.png)\n```\n`[b](b.md)` [c](docs/api/c.md)');
+    });
+
+    it('should leave transclusion references unchanged', () => {
+      expect(rewriteLinks('![[other]]', options)).toBe('![[other]]');
+    });
+
+    it('should not change content from the target directory', () => {
+      const content = '![a](img/a.png)';
+      
+      expect(rewriteLinks(content, { ...options, sourceDir: root })).toBe(content);
+    });
+  });
+});
@@ -6,6 +6,7 @@ import {
   maskInlineCode,
   maskHtmlComments,
   findTransclusionTokens,
+  parseReferenceParameters,
   createReferenceFromToken,
   Token
 } from '../../src/utils/parserUtils';
@@ -224,6 +225,86 @@ describe('parserUtils', () => {
       });
     });
 
+    it('should find transclusion with line range', () => {
+      const tokens = findTransclusionTokens('![[file.md#L10-L40]]');
+      
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]).toEqual({
+        type: 'transclusion',
+        value: '![[file.md#L10-L40]]',
+        startIndex: 0,
+        endIndex: 20,
+        path: 'file.md',
+        lineRange: { start: 10, end: 40 }
+      });
+    });
+
+    it('should find open-ended and single line ranges', () => {
+      expect(findTransclusionTokens('![[file#L10-]]')[0].lineRange).toEqual({ start: 10 });
+      expect(findTransclusionTokens('![[file#L7]]')[0].lineRange).toEqual({ start: 7, end: 7 });
+    });
+
+    it('should find heading combined with line range', () => {
+      const tokens = findTransclusionTokens('![[file#Setup#L2-4]]');
+      
+      expect(tokens[0].heading).toBe('Setup');
+      expect(tokens[0].lineRange).toEqual({ start: 2, end: 4 });
+    });
+
+    it('should find block references', () => {
+      const tokens = findTransclusionTokens('![[note#^abc123]]');
+      
+      expect(tokens[0].path).toBe('note');
+      expect(tokens[0].blockId).toBe('abc123');
+      expect(tokens[0].heading).toBeUndefined();
+    });
+
+    it('should find named region references', () => {
+      const tokens = findTransclusionTokens('![[file.ts#region=setup]]');
+      
+      expect(tokens[0].path).toBe('file.ts');
+      expect(tokens[0].region).toBe('setup');
+      expect(tokens[0].heading).toBeUndefined();
+    });
+
+    it('should find multiple heading references', () => {
+      const tokens = findTransclusionTokens('![[api.md#Install, Usage,FAQ]]');
+      
+      expect(tokens[0].path).toBe('api.md');
+      expect(tokens[0].headings).toEqual(['Install', 'Usage', 'FAQ']);
+      expect(tokens[0].heading).toBe('Install, Usage,FAQ');
+    });
+
+    it('should keep heading occurrence indexes inside the reference', () => {
+      const tokens = findTransclusionTokens('See ![[guide#Installation/Examples[2]]] here');
+      
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].heading).toBe('Installation/Examples[2]');
+      expect(tokens[0].value).toBe('![[guide#Installation/Examples[2]]]');
+    });
+
+    it('should split reference parameters from the target', () => {
+      const tokens = findTransclusionTokens('![[ch1.md#Intro|shift=+2|lang=ts]]');
+      
+      expect(tokens[0].path).toBe('ch1.md');
+      expect(tokens[0].heading).toBe('Intro');
+      expect(tokens[0].parameters).toEqual({ shift: '+2', lang: 'ts' });
+    });
+
+    it('should keep pipes that do not introduce parameters in the path', () => {
+      const tokens = findTransclusionTokens('![[a|b#Heading]]');
+      
+      expect(tokens[0].path).toBe('a|b');
+      expect(tokens[0].parameters).toBeUndefined();
+    });
+
+    it('should treat non line range anchors as headings', () => {
+      const tokens = findTransclusionTokens('![[file#Level 10]]');
+      
+      expect(tokens[0].heading).toBe('Level 10');
+      expect(tokens[0].lineRange).toBeUndefined();
+    });
+
     it('should find multiple transclusions', () => {
       const tokens = findTransclusionTokens('![[a]] and ![[b]]');
       
@@ -237,6 +318,82 @@ describe('parserUtils', () => {
       
       expect(tokens).toHaveLength(0);
     });
+
+    it('should parse alternative targets with their own anchors', () => {
+      const tokens = findTransclusionTokens('![[local.md#Setup || defaults.md#^intro||base]]');
+      
+      expect(tokens[0].path).toBe('local.md');
+      expect(tokens[0].heading).toBe('Setup');
+      expect(tokens[0].alternatives).toEqual([
+        { path: 'defaults.md', blockId: 'intro' },
+        { path: 'base' }
+      ]);
+    });
+
+    it('should parse parameters after alternatives', () => {
+      const tokens = findTransclusionTokens('![[a || b|shift=1]]');
+      
+      expect(tokens[0].path).toBe('a');
+      expect(tokens[0].alternatives).toEqual([{ path: 'b' }]);
+      expect(tokens[0].parameters).toEqual({ shift: '1' });
+    });
+
+    it('should parse the optional marker after a path', () => {
+      expect(findTransclusionTokens('![[maybe.md?]]')[0]).toMatchObject({ path: 'maybe.md', optional: true });
+      expect(findTransclusionTokens('![[maybe.md?#Setup]]')[0]).toMatchObject({ path: 'maybe.md', heading: 'Setup', optional: true });
+      expect(findTransclusionTokens('![[a || b?]]')[0]).toMatchObject({ path: 'a', optional: true });
+    });
+
+    it('should keep a trailing question mark in headings', () => {
+      const tokens = findTransclusionTokens('![[faq#Why?]]');
+      
+      expect(tokens[0].heading).toBe('Why?');
+      expect(tokens[0].optional).toBeUndefined();
+    });
+
+    it('should parse a git revision after the path', () => {
+      expect(findTransclusionTokens('![[CHANGELOG.md@v1.2.0]]')[0]).toMatchObject({ path: 'CHANGELOG.md', revision: 'v1.2.0' });
+      expect(findTransclusionTokens('![[api.md@HEAD~3#Endpoints]]')[0]).toMatchObject({
+        path: 'api.md',
+        revision: 'HEAD~3',
+        heading: 'Endpoints'
+      });
+      expect(findTransclusionTokens('![[notes@release/2.0?]]')[0]).toMatchObject({ path: 'notes', revision: 'release/2.0', optional: true });
+    });
+
+    it('should keep a leading @ in paths', () => {
+      const tokens = findTransclusionTokens('![[@shared/legal.md]] ![[docs/@team/a.md]]');
+      
+      expect(tokens[0]).toMatchObject({ path: '@shared/legal.md' });
+      expect(tokens[1]).toMatchObject({ path: 'docs/@team/a.md' });
+      expect(tokens[0].revision).toBeUndefined();
+      expect(tokens[1].revision).toBeUndefined();
+    });
+    
+    it('should keep an @ in URLs', () => {
+      const tokens = findTransclusionTokens('![[https://user@example.org/a.md]] ![[https://cdn.example/pkg@1.2.0/README.md]]');
+      
+      expect(tokens[0]).toMatchObject({ path: 'https://user@example.org/a.md' });
+      expect(tokens[1]).toMatchObject({ path: 'https://cdn.example/pkg@1.2.0/README.md' });
+      expect(tokens[0].revision).toBeUndefined();
+      expect(tokens[1].revision).toBeUndefined();
+    });
+
+    it('should skip references with an empty alternative', () => {
+      expect(findTransclusionTokens('![[a || ]] ![[?]]')).toHaveLength(0);
+    });
+  });
+
+  describe('parseReferenceParameters', () => {
+    it('should parse key=value pairs', () => {
+      expect(parseReferenceParameters('shift=auto | title = Setup')).toEqual({ shift: 'auto', title: 'Setup' });
+    });
+
+    it('should reject text that is not a list of key=value pairs', () => {
+      expect(parseReferenceParameters('Alias')).toBeUndefined();
+      expect(parseReferenceParameters('shift=1|Alias')).toBeUndefined();
+      expect(parseReferenceParameters('=x')).toBeUndefined();
+    });
   });
 
   describe('createReferenceFromToken', () => {
@@ -308,6 +465,21 @@ describe('parserUtils', () => {
       expect(ref?.headingEnd).toBe('');
     });
 
+    it('should include line range if present', () => {
+      const token: Token = {
+        type: 'transclusion',
+        value: '![[file#L3-L5]]',
+        startIndex: 0,
+        endIndex: 15,
+        path: 'file',
+        lineRange: { start: 3, end: 5 }
+      };
+      
+      const ref = createReferenceFromToken(token);
+      
+      expect(ref?.lineRange).toEqual({ start: 3, end: 5 });
+    });
+
     it('should return null for non-transclusion tokens', () => {
       const token: Token = {
         type: 'text',
@@ -5,7 +5,8 @@ import {
   checkFileExists,
   findExistingFile,
   normalizePath,
-  resolveToAbsolutePath
+  resolveToAbsolutePath,
+  resolveAlias
 } from '../../src/utils/pathResolution';
 import { SecurityErrorCode } from '../../src/security';
 import * as path from 'path';
@@ -103,6 +104,31 @@ describe('pathResolution utilities', () => {
     });
   });
 
+  describe('resolveAlias', () => {
+    const aliases = { '@shared': '../shared', '@legal': '/srv/legal' };
+
+    it('should split aliased references into the alias root and the path below it', () => {
+      expect(resolveAlias('@shared/legal/disclaimer.md', aliases, '/test/base')).toEqual({
+        alias: '@shared',
+        root: path.resolve('/test/shared'),
+        path: 'legal/disclaimer.md'
+      });
+      expect(resolveAlias('@legal/terms', aliases, '/test/base')?.root).toBe(path.resolve('/srv/legal'));
+    });
+
+    it('should not match other references', () => {
+      expect(resolveAlias('shared/file.md', aliases, '/test/base')).toBeNull();
+      expect(resolveAlias('@shared-old/file.md', aliases, '/test/base')).toBeNull();
+    });
+  });
+
+  describe('validateWithinBase with allowed roots', () => {
+    it('should accept paths below an allowed root', () => {
+      expect(validateWithinBase('/test/shared/file.md', '/test/base', 'file.md', ['/test/shared']).ok).toBe(true);
+      expect(validateWithinBase('/test/other/file.md', '/test/base', 'file.md', ['/test/shared']).ok).toBe(false);
+    });
+  });
+
   describe('checkFileExists', () => {
     it('should return true for existing files', () => {
       const fixturePath = path.join(__dirname, '../fixtures/simple.md');
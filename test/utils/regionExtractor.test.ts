@@ -0,0 +1,109 @@
+import {
+  extractRegionContent,
+  extractRegionNames,
+  indexRegions,
+  isRegionMarker
+} from '../../src/utils/regionExtractor';
+
+describe('regionExtractor', () => {
+  describe('isRegionMarker', () => {
+    it('should recognise HTML comment markers', () => {
+      expect(isRegionMarker('<!-- region: setup -->')).toBe(true);
+      expect(isRegionMarker('<!-- #region setup -->')).toBe(true);
+      expect(isRegionMarker('<!-- endregion -->')).toBe(true);
+      expect(isRegionMarker('<!-- endregion: setup -->')).toBe(true);
+    });
+
+    it('should recognise line comment markers', () => {
+      expect(isRegionMarker('  // #region setup')).toBe(true);
+      expect(isRegionMarker('// #endregion')).toBe(true);
+      expect(isRegionMarker('#region setup')).toBe(true);
+      expect(isRegionMarker('#endregion')).toBe(true);
+      expect(isRegionMarker('/* #region setup */')).toBe(true);
+      expect(isRegionMarker('-- region: query')).toBe(true);
+    });
+
+    it('should not treat Markdown headings or prose as markers', () => {
+      expect(isRegionMarker('# region setup')).toBe(false);
+      expect(isRegionMarker('The region: north')).toBe(false);
+      expect(isRegionMarker('<!-- regional note -->')).toBe(false);
+    });
+  });
+
+  describe('extractRegionContent', () => {
+    const source = `import { client } from './client';
+
+// #region setup
+const config = loadConfig();
+  // #region connect
+  const conn = client.connect(config);
+  // #endregion
+// #endregion
+
+function run() {}`;
+
+    it('should extract a region and strip marker lines', () => {
+      expect(extractRegionContent(source, 'setup')).toEqual({
+        ok: true,
+        value: 'const config = loadConfig();\n  const conn = client.connect(config);'
+      });
+    });
+
+    it('should extract a nested region preserving indentation', () => {
+      expect(extractRegionContent(source, 'connect')).toEqual({
+        ok: true,
+        value: '  const conn = client.connect(config);'
+      });
+    });
+
+    it('should extract Markdown regions without surrounding blank lines', () => {
+      const markdown = `# Guide
+
+<!-- region: intro -->
+
+Welcome to the guide.
+
+<!-- endregion -->`;
+      expect(extractRegionContent(markdown, 'intro')).toEqual({
+        ok: true,
+        value: 'Welcome to the guide.'
+      });
+    });
+
+    it('should report missing regions', () => {
+      const result = extractRegionContent(source, 'teardown');
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('REGION_NOT_FOUND');
+      }
+    });
+
+    it('should report unclosed regions', () => {
+      const result = extractRegionContent('<!-- region: open -->\ntext', 'open');
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('UNCLOSED_REGION');
+        expect(result.error.message).toContain('starting at line 1');
+      }
+    });
+
+    it('should let named end markers close outer regions', () => {
+      const content = `#region outer
+#region inner
+value
+#endregion outer
+#endregion inner`;
+      const regions = indexRegions(content);
+      expect(regions).toEqual([
+        { name: 'outer', startLine: 0, endLine: 3 },
+        { name: 'inner', startLine: 1, endLine: 4 }
+      ]);
+    });
+  });
+
+  describe('extractRegionNames', () => {
+    it('should list region names in order', () => {
+      expect(extractRegionNames('#region a\n#region b\n#endregion\n#endregion')).toEqual(['a', 'b']);
+    });
+  });
+});
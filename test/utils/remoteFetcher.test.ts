@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import {
+  isRemoteReference,
+  isHostAllowed,
+  createHttpFetcher,
+  readRemoteCache,
+  writeRemoteCache,
+  fetchRemote
+} from '../../src/utils/remoteFetcher';
+import type { RemoteFetcher } from '../../src/types';
+
+describe('remoteFetcher', () => {
+  describe('isRemoteReference', () => {
+    it('should detect http and https URLs', () => {
+      expect(isRemoteReference('https://example.org/terms.md')).toBe(true);
+      expect(isRemoteReference('HTTP://example.org/terms.md')).toBe(true);
+      expect(isRemoteReference('ftp://example.org/terms.md')).toBe(false);
+      expect(isRemoteReference('docs/https.md')).toBe(false);
+    });
+  });
+
+  describe('isHostAllowed', () => {
+    it('should match hostnames, hosts with ports and subdomain wildcards', () => {
+      const allowed = ['example.org', 'localhost:8080', '*.docs.dev'];
+
+      expect(isHostAllowed(new URL('https://example.org/a.md'), allowed)).toBe(true);
+      expect(isHostAllowed(new URL('https://EXAMPLE.org:8443/a.md'), allowed)).toBe(true);
+      expect(isHostAllowed(new URL('http://localhost:8080/a.md'), allowed)).toBe(true);
+      expect(isHostAllowed(new URL('http://localhost:9090/a.md'), allowed)).toBe(false);
+      expect(isHostAllowed(new URL('https://api.docs.dev/a.md'), allowed)).toBe(true);
+      expect(isHostAllowed(new URL('https://docs.dev/a.md'), allowed)).toBe(false);
+      expect(isHostAllowed(new URL('https://example.org.evil.com/a.md'), allowed)).toBe(false);
+    });
+  });
+
+  describe('createHttpFetcher', () => {
+    let server: http.Server;
+    let origin: string;
+
+    beforeAll(async () => {
+      server = http.createServer((request, response) => {
+        if (request.url === '/terms.md') {
+          response.end('# Terms');
+        } else if (request.url === '/moved.md') {
+          response.writeHead(302, { location: '/terms.md' });
+          response.end();
+        } else if (request.url === '/elsewhere.md') {
+          response.writeHead(302, { location: 'http://evil.test/terms.md' });
+          response.end();
+        } else if (request.url === '/slow.md') {
+          // Never respond
+        } else {
+          response.writeHead(404);
+          response.end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch text content', async () => {
+      await expect(createHttpFetcher().fetch(`${origin}/terms.md`, { timeout: 1000 })).resolves.toBe('# Terms');
+    });
+
+    it('should follow redirects to allowed hosts only', async () => {
+      const fetcher = createHttpFetcher(['127.0.0.1']);
+
+      await expect(fetcher.fetch(`${origin}/moved.md`, { timeout: 1000 })).resolves.toBe('# Terms');
+      await expect(fetcher.fetch(`${origin}/elsewhere.md`, { timeout: 1000 }))
+        .rejects.toThrow('Redirect to a host that is not allowed: http://evil.test/terms.md');
+    });
+
+    it('should reject error responses and timeouts', async () => {
+      await expect(createHttpFetcher().fetch(`${origin}/missing.md`, { timeout: 1000 })).rejects.toThrow('HTTP 404');
+      await expect(createHttpFetcher().fetch(`${origin}/slow.md`, { timeout: 50 })).rejects.toThrow('Timed out after 50ms');
+    });
+  });
+
+  describe('remote cache', () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'remote-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true });
+    });
+
+    it('should store content by hash and read it back by URL', async () => {
+      await writeRemoteCache(cacheDir, 'https://example.org/a.md', 'Shared');
+      await writeRemoteCache(cacheDir, 'https://example.org/b.md', 'Shared');
+
+      expect(fs.readdirSync(path.join(cacheDir, 'objects'))).toHaveLength(1);
+      await expect(readRemoteCache(cacheDir, 'https://example.org/b.md')).resolves.toBe('Shared');
+      await expect(readRemoteCache(cacheDir, 'https://example.org/c.md')).resolves.toBeUndefined();
+    });
+
+    it('should ignore corrupt entries', async () => {
+      await writeRemoteCache(cacheDir, 'https://example.org/a.md', 'Shared');
+      const [object] = fs.readdirSync(path.join(cacheDir, 'objects'));
+      fs.writeFileSync(path.join(cacheDir, 'objects', object), 'Tampered');
+
+      await expect(readRemoteCache(cacheDir, 'https://example.org/a.md')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('fetchRemote', () => {
+    let cacheDir: string;
+    const url = 'https://example.org/terms.md';
+    const fetcher = (content: string | Error): RemoteFetcher => ({
+      fetch: jest.fn(() => (content instanceof Error ? Promise.reject(content) : Promise.resolve(content)))
+    });
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'remote-fetch-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true });
+    });
+
+    it('should fall back to the remote cache when fetching fails', async () => {
+      await fetchRemote(url, { fetcher: fetcher('Version 1'), remoteCacheDir: cacheDir });
+
+      await expect(fetchRemote(url, { fetcher: fetcher(new Error('offline')), remoteCacheDir: cacheDir }))
+        .resolves.toBe('Version 1');
+      await expect(fetchRemote(url, { fetcher: fetcher(new Error('offline')) })).rejects.toThrow('offline');
+    });
+
+    it('should only read the remote cache in offline mode', async () => {
+      const unused = fetcher('Fresh');
+      await writeRemoteCache(cacheDir, url, 'Cached');
+
+      await expect(fetchRemote(url, { fetcher: unused, remoteCacheDir: cacheDir, offline: true })).resolves.toBe('Cached');
+      await expect(fetchRemote('https://example.org/other.md', { remoteCacheDir: cacheDir, offline: true }))
+        .rejects.toThrow('Not in the remote cache (offline): https://example.org/other.md');
+      expect(unused.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should time out fetchers that never settle', async () => {
+      const hanging: RemoteFetcher = { fetch: () => new Promise(() => undefined) };
+
+      await expect(fetchRemote(url, { fetcher: hanging, fetchTimeout: 20 }))
+        .rejects.toThrow(`Timed out after 20ms fetching ${url}`);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResolutionCache } from '../../src/utils/resolutionCache';
+import { findInVault } from '../../src/utils/vaultIndex';
+
+describe('ResolutionCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resolution-cache-'));
+    fs.writeFileSync(path.join(dir, 'Ideas.md'), 'Ideas');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should index a base path once per case sensitivity', () => {
+    const cache = new ResolutionCache();
+    const index = cache.getVaultIndex(dir, false);
+
+    expect(cache.getVaultIndex(dir, false)).toBe(index);
+    expect(cache.getVaultIndex(dir, true)).not.toBe(index);
+    expect(findInVault(cache.getVaultIndex(dir, true), 'ideas.md')).toEqual(['Ideas.md']);
+  });
+
+  it('should index again after being cleared', () => {
+    const cache = new ResolutionCache();
+    cache.getVaultIndex(dir, false);
+    cache.realPaths.set(dir, dir);
+    fs.writeFileSync(path.join(dir, 'Notes.md'), 'Notes');
+
+    expect(findInVault(cache.getVaultIndex(dir, false), 'Notes.md')).toEqual([]);
+    cache.clear();
+    expect(findInVault(cache.getVaultIndex(dir, false), 'Notes.md')).toEqual(['Notes.md']);
+    expect(cache.realPaths.size).toBe(0);
+  });
+});
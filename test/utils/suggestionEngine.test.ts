@@ -190,6 +190,21 @@ describe('SuggestionEngine', () => {
       expect(suggestions[0].text).toBe('API Reference');
     });
 
+    test('should offer slug candidates for anchor-style targets', async () => {
+      mockFileSystem.setMockFileContent('guide.md', '# Guide\n## Getting Started with v2!\n## Usage');
+      const engine = new SuggestionEngine(
+        new LevenshteinFuzzyMatcher(),
+        mockFileSystem,
+        new MarkdownHeadingProvider()
+      );
+
+      const suggestions = await engine.suggestHeadings('getting-started-with-v3', 'guide.md', {
+        target: 'getting-started-with-v3'
+      });
+
+      expect(suggestions[0].text).toBe('getting-started-with-v2');
+    });
+
     test('should handle file read errors gracefully', async () => {
       mockFuzzyMatcher.setMockResults([]);
 
@@ -201,6 +216,41 @@ describe('SuggestionEngine', () => {
     });
   });
 
+  describe('suggestBlocks', () => {
+    test('should return block id suggestions with caret prefix', async () => {
+      mockFuzzyMatcher.setMockResults([
+        { text: 'abc123', score: 0.83 }
+      ]);
+
+      const suggestions = await suggestionEngine.suggestBlocks('^abc12', 'note.md', {
+        target: 'abc12',
+        availableBlocks: ['abc123', 'intro']
+      });
+
+      expect(suggestions).toEqual([{
+        text: '^abc123',
+        confidence: 83,
+        type: 'block',
+        reason: 'Similar block id'
+      }]);
+    });
+
+    test('should read block ids from the target file', async () => {
+      mockFileSystem.setMockFileContent('note.md', 'Paragraph ^abc123\n\nOther ^zzz');
+      const engine = new SuggestionEngine(
+        new LevenshteinFuzzyMatcher(),
+        mockFileSystem,
+        new MarkdownHeadingProvider()
+      );
+
+      const suggestions = await engine.suggestBlocks('abc12', 'note.md', {
+        target: 'abc12'
+      });
+
+      expect(suggestions.map(s => s.text)).toEqual(['^abc123']);
+    });
+  });
+
   describe('suggestVariables', () => {
     test('should return variable suggestions with values', () => {
       mockFuzzyMatcher.setMockResults([
@@ -418,6 +468,25 @@ Some text with \`#hashtag\` in code
     expect(headings).toEqual(['Real Heading', 'Another Heading']);
   });
 
+  test('should extract Setext and HTML headings', () => {
+    const content = `Overview
+========
+<h2 id="setup">Setup</h2>
+## Usage ##`;
+
+    const headings = provider.extractHeadings(content);
+
+    expect(headings).toEqual(['Overview', 'Setup', 'Usage']);
+  });
+
+  test('should extract unique GitHub slugs', () => {
+    const content = `# API & Configuration
+## Examples
+## Examples`;
+
+    expect(provider.extractHeadingSlugs(content)).toEqual(['api--configuration', 'examples', 'examples-1']);
+  });
+
   test('should handle empty content', () => {
     const headings = provider.extractHeadings('');
 
@@ -432,4 +501,12 @@ Some text with \`#hashtag\` in code
 
     expect(headings).toEqual(['Heading with spaces', 'Another heading']);
   });
-});
\ No newline at end of file
+
+  test('should extract block ids', () => {
+    const content = `First paragraph ^intro
+
+- item ^item-1`;
+
+    expect(provider.extractBlockIds(content)).toEqual(['intro', 'item-1']);
+  });
+});
@@ -0,0 +1,47 @@
+import { substituteTemplateVariables, TemplateProcessor } from '../../src/utils/templateVariables';
+
+describe('templateVariables', () => {
+  const variables = {
+    product: {
+      name: 'Kit',
+      platforms: ['linux', 'macos'],
+      runtimes: [{ node: 20 }],
+      owner: null
+    },
+    'app.name': 'Flat name',
+    app: { name: 'Nested name' }
+  };
+
+  describe('substituteTemplateVariables', () => {
+    it('should resolve dotted paths into nested objects and arrays', () => {
+      const content = '{{product.name}} runs on {{product.platforms.1}} with Node {{product.runtimes.0.node}}';
+
+      expect(substituteTemplateVariables(content, { variables })).toBe('Kit runs on macos with Node 20');
+    });
+
+    it('should prefer variables named with dots over paths', () => {
+      expect(substituteTemplateVariables('{{app.name}}', { variables })).toBe('Flat name');
+    });
+
+    it('should render objects and arrays as JSON', () => {
+      expect(substituteTemplateVariables('{{product.platforms}}', { variables })).toBe('["linux","macos"]');
+    });
+
+    it('should leave paths that do not exist', () => {
+      const content = '{{product.version}} {{product.platforms.5}} {{product.owner.name}} {{missing.key}}';
+
+      expect(substituteTemplateVariables(content, { variables })).toBe(content);
+      expect(substituteTemplateVariables('{{product.name.length}}', { variables })).toBe('{{product.name.length}}');
+    });
+  });
+
+  describe('TemplateProcessor', () => {
+    it('should resolve dotted paths split across chunks', () => {
+      const processor = new TemplateProcessor({ variables });
+
+      const output = processor.processChunk('Version of {{prod') + processor.processChunk('uct.name}}!', true);
+
+      expect(output + processor.flush()).toBe('Version of Kit!');
+    });
+  });
+});
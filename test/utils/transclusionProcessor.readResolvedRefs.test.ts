@@ -223,6 +223,47 @@ describe('transclusionProcessor - readResolvedRefs', () => {
       expect(results).toHaveLength(1);
       expect(results[0].error?.message).toBe('File not found');
     });
+
+    it('should produce empty content without an error for missing optional references', async () => {
+      const resolvedRefs: ResolvedReference[] = [{
+        ref: { original: '![[maybe?]]', path: 'maybe', startIndex: 0, endIndex: 11, optional: true },
+        resolved: { absolutePath: '/test/maybe.md', exists: false, originalReference: 'maybe', error: 'File not found: maybe' }
+      }];
+      
+      const results = await readResolvedRefs(resolvedRefs, options);
+      
+      expect(results[0].content).toBe('');
+      expect(results[0].error).toBeUndefined();
+    });
+
+    it('should still report security errors for optional references', async () => {
+      const resolvedRefs: ResolvedReference[] = [{
+        ref: { original: '![[../secret?]]', path: '../secret', startIndex: 0, endIndex: 15, optional: true },
+        resolved: { absolutePath: '', exists: false, originalReference: '../secret', error: 'Path traversal', errorCode: 1001 }
+      }];
+      
+      const results = await readResolvedRefs(resolvedRefs, options);
+      
+      expect(results[0].content).toBeUndefined();
+      expect(results[0].error?.code).toBe('FILE_NOT_FOUND');
+    });
+
+    it('should list every target when none of the alternatives exist', async () => {
+      const resolvedRefs: ResolvedReference[] = [{
+        ref: {
+          original: '![[a || b]]',
+          path: 'a',
+          startIndex: 0,
+          endIndex: 11,
+          alternatives: [{ path: 'b' }]
+        },
+        resolved: { absolutePath: '/test/a.md', exists: false, originalReference: 'a' }
+      }];
+      
+      const results = await readResolvedRefs(resolvedRefs, options);
+      
+      expect(results[0].error?.message).toBe('None of the alternatives exist: a, b');
+    });
   });
 
   describe('multiple references', () => {
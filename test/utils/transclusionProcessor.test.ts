@@ -188,6 +188,22 @@ describe('transclusionProcessor', () => {
       expect(errors[1].code).toBe('READ_ERROR');
     });
 
+    it('should include errors reported alongside content', () => {
+      const processedRefs: ProcessedReference[] = [
+        {
+          ref: { original: '![[a#X,Y]]', path: 'a', startIndex: 0, endIndex: 10 },
+          resolved: { absolutePath: '/test/a.md', exists: true, originalReference: 'a' },
+          content: '## X',
+          errors: [{ message: 'Heading "Y" not found', path: '/test/a.md', code: 'HEADING_NOT_FOUND' }]
+        }
+      ];
+      
+      const errors = extractErrors(processedRefs);
+      
+      expect(errors).toHaveLength(1);
+      expect(errors[0].code).toBe('HEADING_NOT_FOUND');
+    });
+
     it('should return empty array if no errors', () => {
       const processedRefs: ProcessedReference[] = [
         {
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildVaultIndex, findInVault } from '../../src/utils/vaultIndex';
+
+describe('vaultIndex', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-index-'));
+    fs.mkdirSync(path.join(dir, 'notes/2024'), { recursive: true });
+    fs.mkdirSync(path.join(dir, 'archive/2023'), { recursive: true });
+    fs.mkdirSync(path.join(dir, '.trash'));
+    fs.mkdirSync(path.join(dir, 'node_modules/pkg'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'notes/2024/Meeting Notes.md'), '2024');
+    fs.writeFileSync(path.join(dir, 'archive/2023/Meeting Notes.md'), '2023');
+    fs.writeFileSync(path.join(dir, 'notes/Ideas.md'), 'Ideas');
+    fs.writeFileSync(path.join(dir, '.trash/Ideas.md'), 'Deleted');
+    fs.writeFileSync(path.join(dir, 'node_modules/pkg/Ideas.md'), 'Dependency');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should index files by basename and skip hidden and dependency directories', () => {
+    const index = buildVaultIndex(dir);
+
+    expect(findInVault(index, 'Ideas.md')).toEqual(['notes/Ideas.md']);
+    expect(findInVault(index, 'Meeting Notes.md')).toEqual(['archive/2023/Meeting Notes.md', 'notes/2024/Meeting Notes.md']);
+  });
+
+  it('should narrow matches by the folders in the reference', () => {
+    const index = buildVaultIndex(dir);
+
+    expect(findInVault(index, '2024/Meeting Notes.md')).toEqual(['notes/2024/Meeting Notes.md']);
+    expect(findInVault(index, './notes/Ideas.md')).toEqual(['notes/Ideas.md']);
+    expect(findInVault(index, 'tes/Ideas.md')).toEqual([]);
+  });
+
+  it('should match case-insensitively when requested', () => {
+    expect(findInVault(buildVaultIndex(dir), 'ideas.md')).toEqual([]);
+    expect(findInVault(buildVaultIndex(dir, true), 'ideas.md')).toEqual(['notes/Ideas.md']);
+  });
+});
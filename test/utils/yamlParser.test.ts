@@ -0,0 +1,167 @@
+import { parseYaml, stringifyYaml } from '../../src/utils/yamlParser';
+
+describe('yamlParser', () => {
+  it('should parse mappings, sequences and scalars', () => {
+    const result = parseYaml([
+      '# Product data',
+      'name: Transclusion Kit',
+      'version: "2.1.0"',
+      'released: 2024-05-01',
+      'stable: true',
+      'downloads: 12500',
+      'ratio: 0.75',
+      'license: ~',
+      'homepage: https://example.org/kit # canonical URL',
+      'platforms:',
+      '  - linux',
+      '  - macos',
+      'runtimes:',
+      '- node: 20',
+      '  lts: true',
+      '- node: 22'
+    ].join('\n'));
+
+    expect(result.ok && result.value).toEqual({
+      name: 'Transclusion Kit',
+      version: '2.1.0',
+      released: '2024-05-01',
+      stable: true,
+      downloads: 12500,
+      ratio: 0.75,
+      license: null,
+      homepage: 'https://example.org/kit',
+      platforms: ['linux', 'macos'],
+      runtimes: [{ node: 20, lts: true }, { node: 22 }]
+    });
+  });
+
+  it('should parse nested blocks and flow collections', () => {
+    const result = parseYaml([
+      'owner: {name: Ada, team: "docs"}',
+      'tags: [docs, \'markdown\', 3]',
+      'matrix:',
+      '  - - a',
+      '    - b',
+      '  - c',
+      'nested:',
+      '  deeper:',
+      '    value: 1',
+      '  empty:'
+    ].join('\n'));
+
+    expect(result.ok && result.value).toEqual({
+      owner: { name: 'Ada', team: 'docs' },
+      tags: ['docs', 'markdown', 3],
+      matrix: [['a', 'b'], 'c'],
+      nested: { deeper: { value: 1 }, empty: null }
+    });
+  });
+
+  it('should parse quoted keys and escapes', () => {
+    const result = parseYaml('"quoted key": \'it\'\'s\'\nescaped: "tab\\there \\u0041 # not a comment"');
+
+    expect(result.ok && result.value).toEqual({
+      'quoted key': 'it\'s',
+      escaped: 'tab\there A # not a comment'
+    });
+  });
+
+  it('should parse literal and folded block scalars', () => {
+    const result = parseYaml([
+      'literal: |',
+      '  Line one',
+      '    indented',
+      '',
+      'folded: >-',
+      '  Folded text',
+      '  continues here',
+      '',
+      '  New paragraph',
+      'kept: |+',
+      '  text',
+      '',
+      'last: end'
+    ].join('\n'));
+
+    expect(result.ok && result.value).toEqual({
+      literal: 'Line one\n  indented\n',
+      folded: 'Folded text continues here\nNew paragraph',
+      kept: 'text\n\n',
+      last: 'end'
+    });
+  });
+
+  it('should accept document markers and empty documents', () => {
+    expect(parseYaml('---\ntitle: Guide\n...\n')).toEqual({ ok: true, value: { title: 'Guide' } });
+    expect(parseYaml('# only a comment\n')).toEqual({ ok: true, value: null });
+  });
+
+  it.each([
+    ['key: value\n  bad: indent', 'Unexpected indentation (multi-line plain scalars are not supported) (line 2)'],
+    ['a: "unclosed', 'Unclosed quoted string (line 1)'],
+    ['a: *alias', 'Anchors, aliases and tags are not supported: *alias (line 1)'],
+    ['a: 1\n---\nb: 2', 'Multiple documents are not supported'],
+    ['a:\n\tb: 1', 'Tabs are not allowed in indentation'],
+    ['a: [1, 2', 'Expected "," or "]" in flow sequence (line 1)'],
+    ['a: 1\n- b', 'Expected a "key: value" entry: - b (line 2)']
+  ])('should reject %p', (text, message) => {
+    const result = parseYaml(text);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_YAML');
+      expect(result.error.message).toBe(message);
+    }
+  });
+});
+
+describe('stringifyYaml', () => {
+  it('should write nested collections in block style', () => {
+    expect(stringifyYaml({
+      title: 'Guide',
+      tags: ['intro', 'setup'],
+      authors: [{ name: 'Ada', lead: true }, { name: 'Grace' }],
+      meta: { version: 2, draft: null, empty: [] }
+    })).toBe([
+      'title: Guide',
+      'tags:',
+      '  - intro',
+      '  - setup',
+      'authors:',
+      '  - name: Ada',
+      '    lead: true',
+      '  - name: Grace',
+      'meta:',
+      '  version: 2',
+      '  draft: null',
+      '  empty: []'
+    ].join('\n'));
+  });
+
+  it('should quote strings that would read back as another value', () => {
+    expect(stringifyYaml({ a: '1.0', b: 'true', c: 'key: value', d: '', e: '- item', f: 'line\nbreak' })).toBe([
+      'a: "1.0"',
+      'b: "true"',
+      'c: "key: value"',
+      'd: ""',
+      'e: "- item"',
+      'f: "line\\nbreak"'
+    ].join('\n'));
+  });
+
+  it('should write dates as ISO strings and omit undefined values', () => {
+    expect(stringifyYaml({ date: new Date('2024-05-01T00:00:00Z'), skipped: undefined }))
+      .toBe('date: 2024-05-01T00:00:00.000Z');
+  });
+
+  it('should produce YAML that parses back to the same value', () => {
+    const value = {
+      title: 'Guide: part 2',
+      order: 3,
+      tags: ['a #1', 'null', ['nested']],
+      params: { url: 'https://example.org', list: [{ k: 'v' }] }
+    };
+
+    expect(parseYaml(stringifyYaml(value))).toEqual({ ok: true, value });
+  });
+});